@@ -1,11 +1,47 @@
-import React, { useState, useMemo } from 'react';
-import { ApiKeyModal } from './components/ApiKeyModal';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { ApiKeyModal, ApiSetup } from './components/ApiKeyModal';
 import { FeatureCard } from './components/FeatureCard';
 import { WorkflowEditor } from './components/WorkflowEditor';
-import { AiService } from './services/geminiService'; // Renamed import conceptual purpose
-import { AppState, AppFeature, GenerationConfig, AppModel, AiProvider } from './types';
-import { Sparkles, ArrowRight, Lightbulb, Box, FileText, RotateCcw, ChevronRight, Target, Layers } from 'lucide-react';
+import { AiService, AiResponseError, isAbortError } from './services/geminiService'; // Renamed import conceptual purpose
+import { AppState, AppFeature, FeatureBasis, FeatureChange, FeatureChatMessage, FeatureSpec, GenerationConfig, ReleaseId, AiFixture, ProjectSnapshot, SavedProject, WorkflowProposal } from './types';
+import { Sparkles, ArrowRight, Lightbulb, Box, FileText, RotateCcw, ChevronRight, Target, Layers, FolderOpen, Download, Upload, Square, Circle, FileInput, Package, FileJson, ListChecks, MessageSquare, Wand2, Scale, ArrowDownWideNarrow } from 'lucide-react';
 import { LoadingOverlay } from './components/LoadingOverlay';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { DiagramImportModal } from './components/DiagramImportModal';
+import { ReportModal } from './components/ReportModal';
+import { MarkdownView } from './components/MarkdownView';
+import { ScaffoldModal } from './components/ScaffoldModal';
+import { OpenApiModal } from './components/OpenApiModal';
+import { FeatureChatPanel } from './components/FeatureChatPanel';
+import { CUSTOM_FEATURE_DESCRIPTION, DEFAULT_CONFIG, DEFAULT_RETRY_POLICY, createEmptyGraph } from './constants';
+import {
+  ProjectStorageError,
+  createProjectId,
+  deleteProject,
+  duplicateProject,
+  getProjectName,
+  listProjects,
+  loadProject,
+  renameProject,
+  saveProject,
+} from './services/projectStorage';
+import { PROJECT_FILE_EXTENSION, ProjectFileError, parseProjectDocument, serializeProject } from './services/projectFile';
+import { downloadFile, slugify } from './services/fileUtils';
+import { layoutGraph } from './services/graphLayout';
+import { GraphValidationError, validateWorkflowGraph, validateWorkflowOperations } from './services/graphValidation';
+import { buildProposal } from './services/workflowProposal';
+import { useAiRequest } from './hooks/useAiRequest';
+import { getProviderDefinition } from './services/providers/registry';
+import { FIXTURE_FILE_EXTENSION, serializeFixtures } from './services/providers/fixtures';
+import { ImportedDiagram } from './services/diagramImport';
+import { BRIEF_FORMATS, BriefFormat, buildBriefHtml, buildBriefMarkdown, buildBriefPdf } from './services/briefExport';
+import { BACKLOG_FORMATS, BacklogFormat, buildBacklogCsv, buildBacklogMarkdown } from './services/featureSpecs';
+import { applyFeatureChanges } from './services/featureChat';
+import { isStubFeature } from './services/featureExpansion';
+import { FeaturePriority, RELEASES, featuresForRelease, moveFeature, releaseLabel, sortByRice } from './services/prioritization';
+import { computeFeatureDelta, constrainFeatureUpdate, describeDelta, featureBasis, isEmptyDelta } from './services/featureDelta';
+
+const AUTOSAVE_DELAY_MS = 800;
 
 const App: React.FC = () => {
   // Application State
@@ -13,29 +49,123 @@ const App: React.FC = () => {
     step: 'setup',
     apiKey: '',
     provider: 'gemini',
+    providerOptions: {},
     model: '',
     idea: '',
     features: [],
-    graph: { nodes: [], edges: [], isGenerated: false, version: 0 },
-    config: {
-      featureStyle: 'standard',
-      workflowComplexity: 'simple',
-      workflowType: 'full-stack',
-      summaryLength: 'short',
-      productScope: 'mvp',
-    }
+    featureChat: [],
+    graph: createEmptyGraph(),
+    config: DEFAULT_CONFIG,
+    retryPolicy: DEFAULT_RETRY_POLICY,
+    fixtureMode: 'off',
   });
   
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('AI is thinking...');
   const [generatedDescription, setGeneratedDescription] = useState('');
   const [customFeatureInput, setCustomFeatureInput] = useState('');
+  const [isFeatureChatOpen, setIsFeatureChatOpen] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const aiRequest = useAiRequest();
+
+  // Descriptions for title-only features are written in the background, so
+  // they get their own request and a spinner on each card instead of the overlay
+  const expandRequest = useAiRequest();
+  const [expandingIds, setExpandingIds] = useState<string[]>([]);
+  const [autoDescribe, setAutoDescribe] = useState(true);
+  // Workflow changes for edited features, reviewed in the editor before the basis moves on
+  const [featureUpdate, setFeatureUpdate] = useState<{ proposal: WorkflowProposal; basis: FeatureBasis[] } | null>(null);
+
+  // Record / replay of provider responses
+  const [replayFixtures, setReplayFixtures] = useState<AiFixture[]>([]);
+  const [recordedFixtures, setRecordedFixtures] = useState<AiFixture[]>([]);
+  const recordFixture = useCallback((fixture: AiFixture) => {
+    setRecordedFixtures(prev => [...prev, fixture]);
+  }, []);
+
+  // Project Library State
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isDiagramImportOpen, setIsDiagramImportOpen] = useState(false);
+  const [savedProjects, setSavedProjects] = useState<SavedProject[]>(() => listProjects());
+  const [report, setReport] = useState<{ title: string; summary: string; items: string[] } | null>(null);
+  const [exportingBrief, setExportingBrief] = useState<BriefFormat | null>(null);
+  const [isScaffoldOpen, setIsScaffoldOpen] = useState(false);
+  const [isOpenApiOpen, setIsOpenApiOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Memoize Service to avoid recreation
   const aiService = useMemo(() => {
-    if (!state.apiKey) return null;
-    return new AiService(state.apiKey, state.model, state.provider);
-  }, [state.apiKey, state.model, state.provider]);
+    // Local servers may not need a key, so the model name marks a finished setup
+    if (!state.model) return null;
+    return new AiService(
+      state.provider,
+      { apiKey: state.apiKey, model: state.model, ...state.providerOptions },
+      state.retryPolicy,
+      { mode: state.fixtureMode, fixtures: replayFixtures, onRecord: recordFixture }
+    );
+  }, [state.apiKey, state.model, state.provider, state.providerOptions, state.retryPolicy, state.fixtureMode, replayFixtures, recordFixture]);
+
+  const downloadRecording = () => {
+    const doc = serializeFixtures(recordedFixtures, state.provider, state.model);
+    const name = slugify(state.idea, 'recording');
+    downloadFile(`${name}${FIXTURE_FILE_EXTENSION}`, JSON.stringify(doc, null, 2), 'application/json');
+  };
+
+  const providerDefinition = getProviderDefinition(state.provider);
+
+  // The features the workflow is generated from and checked against
+  const workflowFeatures = useMemo(
+    () => featuresForRelease(state.features, state.config.workflowRelease),
+    [state.features, state.config.workflowRelease]
+  );
+
+  const featureDelta = useMemo(
+    () => computeFeatureDelta(state.graph, workflowFeatures),
+    [state.graph, workflowFeatures]
+  );
+
+  const currentSnapshot = useMemo<ProjectSnapshot>(() => ({
+    step: state.step,
+    provider: state.provider,
+    model: state.model,
+    idea: state.idea,
+    features: state.features,
+    featureChat: state.featureChat,
+    graph: state.graph,
+    config: state.config,
+    generatedDescription,
+  }), [
+    state.step, state.provider, state.model, state.idea, state.features, state.featureChat, state.graph, state.config,
+    generatedDescription
+  ]);
+
+  const reportStorageError = (e: unknown) => setReport({
+    title: 'Project not saved',
+    summary: e instanceof ProjectStorageError ? e.message : 'The project could not be saved to this browser.',
+    items: [],
+  });
+
+  // Autosave reports a failure once, not on every edit, until a save works again
+  const autosaveFailed = useRef(false);
+
+  // Autosave the current project once there is an idea worth keeping
+  useEffect(() => {
+    if (currentSnapshot.step === 'setup' || !currentSnapshot.idea.trim()) return;
+    const timer = setTimeout(() => {
+      const id = currentProjectId ?? createProjectId();
+      try {
+        saveProject(id, currentSnapshot);
+        autosaveFailed.current = false;
+      } catch (e) {
+        if (!autosaveFailed.current) reportStorageError(e);
+        autosaveFailed.current = true;
+        return;
+      }
+      if (id !== currentProjectId) setCurrentProjectId(id);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentSnapshot, currentProjectId]);
 
   // --- Helpers ---
 
@@ -57,31 +187,61 @@ const App: React.FC = () => {
 
   // --- Handlers ---
 
-  const handleApiSetup = (key: string, model: string, provider: AiProvider) => {
-    setState(prev => ({ ...prev, apiKey: key, model: model, provider: provider, step: 'ideation' }));
+  const handleApiSetup = ({ apiKey, model, provider, providerOptions, retryPolicy, fixtureMode, replayFixtures }: ApiSetup) => {
+    setReplayFixtures(replayFixtures);
+    setRecordedFixtures([]);
+    setState(prev => ({ ...prev, apiKey, model, provider, providerOptions, retryPolicy, fixtureMode, step: 'ideation' }));
+  };
+
+  const cancelRequest = () => {
+    aiRequest.cancel();
+    setIsLoading(false);
+  };
+
+  // Stops a streaming summary; whatever arrived so far stays on screen
+  const stopStreaming = () => {
+    aiRequest.cancel();
+    setIsStreaming(false);
+  };
+
+  const describeAiError = (e: unknown, fallback: string) => {
+    if (e instanceof GraphValidationError) return e.message;
+    if (e instanceof AiResponseError) return `${e.message} The model kept returning output that could not be used.`;
+    return fallback;
   };
 
   const generateFeatures = async () => {
     if (!aiService || !state.idea.trim()) return;
     setIsLoading(true);
     setLoadingMessage('Brainstorming features...');
+    const options = aiRequest.start();
     try {
       const features = await aiService.generateFeatures(
         state.idea, 
         state.config.featureStyle,
-        state.config.productScope
+        state.config.productScope,
+        options
       );
+      // Ids stay unique across generations so nodes linked to the old list
+      // never appear to implement the new one
+      const generation = Date.now();
       const featuresWithIds: AppFeature[] = features.map((f, i) => ({
         ...f,
-        id: `f-${i}`,
+        id: `f-${generation}-${i}`,
         selected: true
       }));
-      setState(prev => ({ ...prev, features: featuresWithIds, step: 'features' }));
+      // A new list starts a new conversation; old proposals point at old ids
+      setState(prev => ({ ...prev, features: featuresWithIds, featureChat: [], step: 'features' }));
     } catch (e) {
-      alert("Failed to generate features. Please check your API key.");
+      if (isAbortError(e)) return;
       console.error(e);
+      setReport({
+        title: 'Failed to generate features',
+        summary: describeAiError(e, 'The AI request failed. Please check your API key and try again.'),
+        items: [],
+      });
     } finally {
-      setIsLoading(false);
+      if (aiRequest.finish(options)) setIsLoading(false);
     }
   };
 
@@ -92,15 +252,173 @@ const App: React.FC = () => {
     }));
   };
 
-  const updateFeature = (id: string, newTitle: string, newDesc: string) => {
+  const updateFeature = (id: string, newTitle: string, newDesc: string, spec?: FeatureSpec) => {
+    setState(prev => ({
+      ...prev,
+      features: prev.features.map(f => {
+        if (f.id !== id) return f;
+        const { spec: _previous, ...rest } = f;
+        return { ...rest, title: newTitle, description: newDesc, ...(spec ? { spec } : {}) };
+      })
+    }));
+  };
+
+  // Writes stories for the given features, or for every selected one without any
+  const generateFeatureSpecs = async (ids?: string[]) => {
+    if (!aiService) return;
+    const targets = ids
+      ? state.features.filter(f => ids.includes(f.id))
+      : state.features.filter(f => f.selected && !f.spec);
+    if (targets.length === 0) return;
+    setIsLoading(true);
+    setLoadingMessage(targets.length === 1 ? `Writing user stories for ${targets[0].title}...` : `Writing user stories for ${targets.length} features...`);
+    const options = aiRequest.start();
+    try {
+      const { specs, fixes } = await aiService.generateFeatureSpecs(state.idea, targets, options);
+      setState(prev => ({
+        ...prev,
+        features: prev.features.map(f => specs[f.id] ? { ...f, spec: specs[f.id] } : f)
+      }));
+      if (fixes.length > 0) {
+        setReport({
+          title: 'User stories repaired',
+          summary: `The model's stories had ${fixes.length} problem(s) that were fixed automatically:`,
+          items: fixes,
+        });
+      }
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(e);
+      setReport({
+        title: 'Failed to write user stories',
+        summary: describeAiError(e, 'The AI request failed. Your features have not been changed.'),
+        items: [],
+      });
+    } finally {
+      if (aiRequest.finish(options)) setIsLoading(false);
+    }
+  };
+
+  const updateFeaturePriority = (id: string, priority: FeaturePriority) => {
     setState(prev => ({
       ...prev,
-      features: prev.features.map(f => 
-        f.id === id ? { ...f, title: newTitle, description: newDesc } : f
-      )
+      features: prev.features.map(f => {
+        if (f.id !== id) return f;
+        const updated = { ...f, ...priority };
+        (Object.keys(priority) as (keyof FeaturePriority)[]).forEach(key => {
+          if (priority[key] === undefined) delete updated[key];
+        });
+        return updated;
+      })
     }));
   };
 
+  const reorderFeatures = (fromId: string, toId: string) => {
+    setState(prev => ({ ...prev, features: moveFeature(prev.features, fromId, toId) }));
+  };
+
+  const suggestPriorities = async () => {
+    if (!aiService || state.features.length === 0) return;
+    setIsLoading(true);
+    setLoadingMessage('Prioritizing features...');
+    const options = aiRequest.start();
+    try {
+      const { priorities, fixes } = await aiService.suggestPriorities(state.idea, state.features, state.config.productScope, options);
+      setState(prev => ({
+        ...prev,
+        features: prev.features.map(f => {
+          if (!priorities[f.id]) return f;
+          const { moscow: _moscow, rice: _rice, release: _release, ...rest } = f;
+          return { ...rest, ...priorities[f.id] };
+        })
+      }));
+      if (fixes.length > 0) {
+        setReport({
+          title: 'Priorities repaired',
+          summary: `The model's priorities had ${fixes.length} problem(s) that were fixed automatically:`,
+          items: fixes,
+        });
+      }
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(e);
+      setReport({
+        title: 'Failed to prioritize features',
+        summary: describeAiError(e, 'The AI request failed. Your priorities have not been changed.'),
+        items: [],
+      });
+    } finally {
+      if (aiRequest.finish(options)) setIsLoading(false);
+    }
+  };
+
+  const updateFeatureChat = useCallback((update: (messages: FeatureChatMessage[]) => FeatureChatMessage[]) => {
+    setState(prev => ({ ...prev, featureChat: update(prev.featureChat) }));
+  }, []);
+
+  const applyChatChanges = (changes: FeatureChange[]) => {
+    const { features, skipped } = applyFeatureChanges(state.features, changes);
+    setState(prev => ({ ...prev, features }));
+    if (skipped.length > 0) {
+      setReport({
+        title: 'Some changes were skipped',
+        summary: 'These proposals refer to features that no longer exist:',
+        items: skipped,
+      });
+    }
+  };
+
+  const exportBacklog = (format: BacklogFormat) => {
+    const features = state.features.filter(f => f.selected);
+    const { extension, mimeType } = BACKLOG_FORMATS[format];
+    const content = format === 'csv' ? buildBacklogCsv(features) : buildBacklogMarkdown(state.idea, features);
+    downloadFile(`${slugify(state.idea, 'backlog')}-backlog${extension}`, content, mimeType);
+  };
+
+  // Describes the given stub features, or every stub when no ids are given.
+  // Features already being described are sent again since starting a request
+  // cancels the previous one.
+  const expandStubFeatures = async (features: AppFeature[], ids?: string[]) => {
+    if (!aiService) return;
+    const wanted = ids ? new Set([...ids, ...expandingIds]) : null;
+    const stubs = features.filter(f => isStubFeature(f) && (!wanted || wanted.has(f.id)));
+    if (stubs.length === 0) return;
+    setExpandingIds(stubs.map(f => f.id));
+    const options = expandRequest.start();
+    try {
+      const { descriptions, fixes } = await aiService.expandFeatures(
+        state.idea,
+        stubs,
+        features.filter(f => !isStubFeature(f)),
+        state.config.featureStyle,
+        state.config.productScope,
+        options
+      );
+      // Descriptions typed in the meantime win over the generated ones
+      setState(prev => ({
+        ...prev,
+        features: prev.features.map(f => descriptions[f.id] && isStubFeature(f) ? { ...f, description: descriptions[f.id] } : f)
+      }));
+      if (fixes.length > 0) {
+        setReport({
+          title: 'Descriptions repaired',
+          summary: `The model's descriptions had ${fixes.length} problem(s) that were fixed automatically:`,
+          items: fixes,
+        });
+      }
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(e);
+      setReport({
+        title: 'Failed to describe features',
+        summary: describeAiError(e, 'The AI request failed. The features keep their placeholder descriptions.'),
+        items: stubs.map(f => f.title),
+      });
+    } finally {
+      if (expandRequest.finish(options)) setExpandingIds([]);
+    }
+  };
+
   const deleteFeature = (id: string) => {
     setState(prev => ({
       ...prev,
@@ -113,102 +431,359 @@ const App: React.FC = () => {
     const newFeature: AppFeature = {
       id: `custom-${Date.now()}`,
       title: customFeatureInput,
-      description: 'User defined feature',
+      description: CUSTOM_FEATURE_DESCRIPTION,
       selected: true
     };
     setState(prev => ({ ...prev, features: [...prev.features, newFeature] }));
     setCustomFeatureInput('');
+    if (autoDescribe) expandStubFeatures([...state.features, newFeature], [newFeature.id]);
   };
 
   const generateInitialDiagram = async () => {
     if (!aiService) return;
-    const selectedFeatures = state.features.filter(f => f.selected);
-    if (selectedFeatures.length === 0) {
-      alert("Please select at least one feature.");
+    if (workflowFeatures.length === 0) {
+      if (state.config.workflowRelease === 'all') {
+        alert("Please select at least one feature.");
+      } else {
+        setReport({
+          title: 'Nothing planned for this release',
+          summary: `None of the selected features are planned for ${releaseLabel(state.config.workflowRelease)}. Assign releases on the feature cards or generate the workflow for all selected features.`,
+          items: [],
+        });
+      }
       return;
     }
     
     setIsLoading(true);
     setLoadingMessage('Architecting workflow diagram...');
+    const options = aiRequest.start();
     try {
       const graph = await aiService.generateWorkflow(
         state.idea, 
-        selectedFeatures,
+        workflowFeatures,
         state.config.workflowComplexity,
-        state.config.workflowType
+        state.config.workflowType,
+        options
       );
       
-      const flowNodes = graph.nodes.map((n: any) => ({
-        id: n.id,
-        type: n.type,
-        position: { x: n.x, y: n.y },
-        data: { label: n.label, details: n.details, type: n.type }
-      }));
-      
-      const flowEdges = graph.edges.map((e: any) => ({
-        id: e.id,
-        source: e.source,
-        target: e.target,
-        label: e.label,
-        animated: true,
-      }));
+      const { nodes: flowNodes, edges: flowEdges, fixes } = validateWorkflowGraph(graph, workflowFeatures);
 
       setState(prev => ({ 
         ...prev, 
         graph: { 
-          nodes: flowNodes, 
+          // Model coordinates are rough guesses; lay the diagram out properly
+          nodes: layoutGraph(flowNodes, flowEdges), 
           edges: flowEdges, 
           isGenerated: true,
-          version: prev.graph.version + 1
+          version: prev.graph.version + 1,
+          featureBasis: featureBasis(workflowFeatures),
         },
         step: 'workflow'
       }));
+      setFeatureUpdate(null);
 
+      if (fixes.length > 0) {
+        setReport({
+          title: 'Diagram repaired',
+          summary: `The model's diagram had ${fixes.length} problem(s) that were fixed automatically:`,
+          items: fixes,
+        });
+      }
+    } catch (e) {
+        if (isAbortError(e)) return;
+        console.error(e);
+        setReport({
+          title: 'Failed to generate diagram',
+          summary: describeAiError(e, 'The AI request failed. Please check your API key and try again.'),
+          items: [],
+        });
+    } finally {
+      if (aiRequest.finish(options)) setIsLoading(false);
+    }
+  };
+
+  // Asks for the changes the feature edits since the last generation need,
+  // leaving manual nodes, positions and labels alone
+  const updateWorkflowForFeatures = async () => {
+    if (!aiService || isEmptyDelta(featureDelta)) return;
+    setIsLoading(true);
+    setLoadingMessage('Updating workflow for feature changes...');
+    const options = aiRequest.start();
+    try {
+      const { nodes, edges } = state.graph;
+      const result = await aiService.updateWorkflowForFeatures(
+        state.idea,
+        nodes,
+        edges,
+        featureDelta,
+        workflowFeatures,
+        state.config.workflowType,
+        options
+      );
+      const validated = validateWorkflowOperations(result, workflowFeatures);
+      const { operations, fixes } = constrainFeatureUpdate(validated.operations, nodes, edges, featureDelta, workflowFeatures);
+      if (operations.length === 0) {
+        setReport({
+          title: 'Workflow already up to date',
+          summary: 'The model did not propose any changes for the edited features.',
+          items: [...validated.fixes, ...fixes],
+        });
+        return;
+      }
+      setFeatureUpdate({
+        proposal: buildProposal(operations, nodes, edges, `Sync with feature changes: ${describeDelta(featureDelta)}`, [...validated.fixes, ...fixes]),
+        basis: featureBasis(workflowFeatures),
+      });
+      setState(prev => ({ ...prev, step: 'workflow' }));
     } catch (e) {
+        if (isAbortError(e)) return;
         console.error(e);
-        alert(`Failed to generate diagram.`);
+        setReport({
+          title: 'Failed to update diagram',
+          summary: describeAiError(e, 'The AI request failed. Your workflow was not changed.'),
+          items: [],
+        });
     } finally {
-      setIsLoading(false);
+      if (aiRequest.finish(options)) setIsLoading(false);
+    }
+  };
+
+  const resolveFeatureUpdate = (applied: boolean) => {
+    // Reviewed changes bring the workflow in line with the current features
+    if (featureUpdate && applied) {
+      const { basis } = featureUpdate;
+      setState(prev => ({ ...prev, graph: { ...prev.graph, featureBasis: basis } }));
     }
+    setFeatureUpdate(null);
   };
 
-  const handleGraphUpdate = (nodes: any[], edges: any[]) => {
+  const handleGraphUpdate = useCallback((nodes: any[], edges: any[]) => {
     setState(prev => ({
       ...prev,
       graph: { ...prev.graph, nodes, edges }
     }));
-  };
+  }, []);
 
   const handleFinalize = async (nodes: any[], edges: any[], summaryLength: GenerationConfig['summaryLength']) => {
     if (!aiService) return;
-    setIsLoading(true);
-    setLoadingMessage('Writing technical documentation...');
     
     // Update config locally for reference if needed
     updateConfig('summaryLength', summaryLength);
-    
+
+    // Show the summary page right away and fill it in as the text streams
+    const options = aiRequest.start();
+    setGeneratedDescription('');
+    setIsStreaming(true);
+    setState(prev => ({ ...prev, step: 'summary' }));
+
+    let received = '';
     try {
-      const desc = await aiService.generateDescription(state.idea, nodes, edges, summaryLength);
-      setGeneratedDescription(desc);
-      setState(prev => ({ ...prev, step: 'summary' }));
+      for await (const chunk of aiService.streamDescription(state.idea, nodes, edges, summaryLength, options)) {
+        if (options.signal?.aborted) return;
+        received += chunk;
+        setGeneratedDescription(received);
+      }
+      if (!received) setGeneratedDescription("Could not generate description.");
     } catch (e) {
+        if (isAbortError(e)) return;
         console.error(e);
-        setGeneratedDescription("Failed to generate description.");
-        setState(prev => ({ ...prev, step: 'summary' }));
+        if (!received) {
+          setGeneratedDescription("Failed to generate description.");
+        } else {
+          setReport({
+            title: 'Summary incomplete',
+            summary: 'The connection to the model was lost while writing the summary. The text received so far has been kept.',
+            items: [],
+          });
+        }
     } finally {
-      setIsLoading(false);
+      if (aiRequest.finish(options)) setIsStreaming(false);
     }
   };
 
   const restart = () => {
+      stopStreaming();
       setState(prev => ({ 
         ...prev, 
         step: 'ideation', 
         features: [], 
-        graph: { nodes: [], edges: [], isGenerated: false, version: 0 },
+        featureChat: [],
+        graph: { ...createEmptyGraph(), version: prev.graph.version + 1 },
         idea: '' 
       }));
+      setFeatureUpdate(null);
       setGeneratedDescription('');
+      // The previous project stays in the library; start a fresh one
+      setCurrentProjectId(null);
+  };
+
+  // --- Project Library ---
+
+  const openLibrary = () => {
+    setSavedProjects(listProjects());
+    setIsLibraryOpen(true);
+  };
+
+  // Returns a note when the project was built with another provider; the
+  // credentials entered at setup only work for the current one, so it stays
+  const applySnapshot = (snapshot: ProjectSnapshot): string | undefined => {
+    stopStreaming();
+    const sameProvider = snapshot.provider === state.provider;
+    setState(prev => ({
+      ...prev,
+      ...(sameProvider && snapshot.model ? { model: snapshot.model } : {}),
+      step: snapshot.step,
+      idea: snapshot.idea,
+      features: snapshot.features,
+      featureChat: snapshot.featureChat,
+      config: snapshot.config,
+      // Bump the version past anything seen so the editor remounts with the loaded graph
+      graph: { ...snapshot.graph, version: Math.max(prev.graph.version, snapshot.graph.version) + 1 },
+    }));
+    setFeatureUpdate(null);
+    setGeneratedDescription(snapshot.generatedDescription);
+    if (sameProvider) return undefined;
+    const saved = getProviderDefinition(snapshot.provider).label;
+    return `This project was built with ${saved}${snapshot.model ? ` (${snapshot.model})` : ''}. You are connected to ${providerDefinition.label}, so its model (${state.model}) is used instead.`;
+  };
+
+  const openProject = (id: string) => {
+    const project = loadProject(id);
+    if (!project) return;
+    const note = applySnapshot(project.snapshot);
+    setCurrentProjectId(project.id);
+    setIsLibraryOpen(false);
+    if (note) setReport({ title: 'Different AI provider', summary: note, items: [] });
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    try {
+      duplicateProject(id);
+    } catch (e) {
+      reportStorageError(e);
+    }
+    setSavedProjects(listProjects());
+  };
+
+  const handleDeleteProject = (id: string) => {
+    try {
+      deleteProject(id);
+    } catch (e) {
+      reportStorageError(e);
+      return;
+    }
+    // Clearing the workspace keeps autosave from bringing the project back under a new id
+    if (id === currentProjectId) restart();
+    setSavedProjects(listProjects());
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    try {
+      renameProject(id, name);
+    } catch (e) {
+      reportStorageError(e);
+    }
+    setSavedProjects(listProjects());
+  };
+
+  // --- Import / Export ---
+
+  const exportProject = () => {
+    const saved = currentProjectId ? loadProject(currentProjectId) : null;
+    const name = saved ? getProjectName(saved) : state.idea.trim() || undefined;
+    const doc = serializeProject(currentSnapshot, name);
+    downloadFile(`${slugify(name || 'project')}${PROJECT_FILE_EXTENSION}`, JSON.stringify(doc, null, 2), 'application/json');
+  };
+
+  const importProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { name, snapshot, rejected } = parseProjectDocument(await file.text());
+      const note = applySnapshot(snapshot);
+      // Imports always become a new library entry rather than overwriting the open project
+      const project = saveProject(createProjectId(), snapshot, name);
+      setCurrentProjectId(project.id);
+      setReport({
+        title: 'Project imported',
+        summary: (rejected.length > 0
+          ? `"${getProjectName(project)}" was imported, but ${rejected.length} field(s) were rejected or defaulted:`
+          : `"${getProjectName(project)}" was imported without issues.`) + (note ? ` ${note}` : ''),
+        items: rejected,
+      });
+    } catch (err) {
+      // The project is open, just not in the library yet
+      if (err instanceof ProjectStorageError) {
+        reportStorageError(err);
+        return;
+      }
+      console.error(err);
+      setReport({
+        title: 'Import failed',
+        summary: err instanceof ProjectFileError ? err.message : `Could not read ${file.name}.`,
+        items: [],
+      });
+    }
+  };
+
+  // Opens a Mermaid or DOT diagram as a new project, straight in the editor
+  const importDiagram = ({ nodes, edges, direction, warnings, format }: ImportedDiagram, name: string) => {
+    stopStreaming();
+    setIsDiagramImportOpen(false);
+    setGeneratedDescription('');
+    setFeatureUpdate(null);
+    setState(prev => ({
+      ...prev,
+      idea: name || prev.idea || 'Imported diagram',
+      features: [],
+      featureChat: [],
+      graph: {
+        nodes: layoutGraph(nodes, edges, { direction }),
+        edges,
+        isGenerated: true,
+        version: prev.graph.version + 1,
+      },
+      step: 'workflow',
+    }));
+    setCurrentProjectId(null);
+    if (warnings.length > 0) {
+      setReport({
+        title: 'Diagram imported',
+        summary: `Imported ${nodes.length} components from ${format === 'dot' ? 'DOT' : 'Mermaid'}. Some details needed a guess:`,
+        items: warnings,
+      });
+    }
+  };
+
+  const exportBrief = async (format: BriefFormat) => {
+    const brief = {
+      idea: state.idea,
+      config: state.config,
+      features: state.features,
+      description: generatedDescription,
+      nodes: state.graph.nodes,
+      edges: state.graph.edges,
+    };
+    const { extension, mimeType } = BRIEF_FORMATS[format];
+    const filename = `${slugify(state.idea, 'architecture-brief')}${extension}`;
+    setExportingBrief(format);
+    try {
+      if (format === 'pdf') {
+        downloadFile(filename, await buildBriefPdf(brief));
+      } else {
+        downloadFile(filename, format === 'html' ? buildBriefHtml(brief) : buildBriefMarkdown(brief), mimeType);
+      }
+    } catch (e) {
+      console.error(e);
+      setReport({
+        title: 'Export failed',
+        summary: `The ${BRIEF_FORMATS[format].label} brief could not be created: ${e instanceof Error ? e.message : String(e)}`,
+        items: [],
+      });
+    } finally {
+      setExportingBrief(null);
+    }
   };
 
   // --- Render Components ---
@@ -235,10 +810,65 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans selection:bg-indigo-100 flex flex-col">
-      {isLoading && <LoadingOverlay message={loadingMessage} />}
+      {isLoading && (
+        <LoadingOverlay
+          message={loadingMessage}
+          attempt={aiRequest.progress?.attempt}
+          maxAttempts={aiRequest.progress?.maxAttempts}
+          onCancel={cancelRequest}
+        />
+      )}
       
       {state.step === 'setup' && <ApiKeyModal onComplete={handleApiSetup} />}
 
+      {report && (
+        <ReportModal
+          title={report.title}
+          summary={report.summary}
+          items={report.items}
+          onClose={() => setReport(null)}
+        />
+      )}
+
+      {isLibraryOpen && (
+        <ProjectLibrary
+          projects={savedProjects}
+          currentProjectId={currentProjectId}
+          onOpen={openProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onRename={handleRenameProject}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isDiagramImportOpen && (
+        <DiagramImportModal
+          initialName={state.idea}
+          onImport={importDiagram}
+          onClose={() => setIsDiagramImportOpen(false)}
+        />
+      )}
+
+      {isScaffoldOpen && (
+        <ScaffoldModal
+          projectName={state.idea}
+          nodes={state.graph.nodes}
+          edges={state.graph.edges}
+          onClose={() => setIsScaffoldOpen(false)}
+        />
+      )}
+
+      {isOpenApiOpen && (
+        <OpenApiModal
+          title={state.idea}
+          nodes={state.graph.nodes}
+          edges={state.graph.edges}
+          aiService={aiService}
+          onClose={() => setIsOpenApiOpen(false)}
+        />
+      )}
+
       {/* Header */}
       <header className="bg-white border-b border-slate-200 sticky top-0 z-40">
         <div className="max-w-6xl mx-auto px-4 h-16 flex items-center justify-between">
@@ -267,9 +897,22 @@ const App: React.FC = () => {
           
           {state.step !== 'setup' && (
              <div className="flex items-center gap-4 text-sm text-slate-500">
+                {state.fixtureMode === 'record' && (
+                   <button
+                      onClick={downloadRecording}
+                      disabled={recordedFixtures.length === 0}
+                      className="flex items-center gap-1 text-xs font-semibold text-red-600 hover:text-red-700 disabled:opacity-50"
+                      title="Download recorded responses"
+                   >
+                      <Circle size={10} fill="currentColor" className="animate-pulse" /> REC {recordedFixtures.length}
+                   </button>
+                )}
+                {state.fixtureMode === 'replay' && (
+                   <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-700 text-xs font-semibold" title="Answers come from a recording">Replay</span>
+                )}
                 <div className="flex items-center gap-2">
                    <span className="hidden sm:inline font-semibold text-slate-400">
-                     {state.provider === 'gemini' ? 'Gemini' : 'OpenAI'}
+                     {providerDefinition.label}
                    </span>
                    <select 
                       value={state.model} 
@@ -278,19 +921,27 @@ const App: React.FC = () => {
                     >
                       {/* We just show the current model as an option if it's custom, plus standard ones to switch back easily */}
                       <option value={state.model}>{state.model}</option>
-                      {state.provider === 'gemini' ? (
-                         <>
-                           <option value={AppModel.GEMINI_FLASH}>Gemini Flash</option>
-                           <option value={AppModel.GEMINI_3_PRO}>Gemini 3 Pro</option>
-                         </>
-                      ) : (
-                         <>
-                           <option value={AppModel.GPT_4O}>GPT-4o</option>
-                           <option value={AppModel.GPT_35_TURBO}>GPT-3.5</option>
-                         </>
-                      )}
+                      {providerDefinition.models.filter(m => m.value !== state.model).map(m => (
+                         <option key={m.value} value={m.value}>{m.label}</option>
+                      ))}
                    </select>
                 </div>
+                <button onClick={openLibrary} className="flex items-center gap-1 hover:text-indigo-600 transition-colors">
+                    <FolderOpen size={14} /> <span className="hidden sm:inline">Projects</span>
+                </button>
+                <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-1 hover:text-indigo-600 transition-colors" title="Import project file">
+                    <Upload size={14} /> <span className="hidden sm:inline">Import</span>
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={importProject}
+                  className="hidden"
+                />
+                <button onClick={exportProject} className="flex items-center gap-1 hover:text-indigo-600 transition-colors" title="Export project file">
+                    <Download size={14} /> <span className="hidden sm:inline">Export</span>
+                </button>
                 <button onClick={restart} className="flex items-center gap-1 hover:text-red-500 transition-colors">
                     <RotateCcw size={14} /> <span className="hidden sm:inline">Restart</span>
                 </button>
@@ -370,6 +1021,17 @@ const App: React.FC = () => {
                   <ArrowRight />
                 </button>
               </div>
+
+              <div className="mt-6 flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
+                {savedProjects.length > 0 && (
+                  <button onClick={openLibrary} className="text-sm text-slate-500 hover:text-indigo-600 inline-flex items-center gap-1 transition-colors">
+                    <FolderOpen size={14} /> Continue a saved project ({savedProjects.length})
+                  </button>
+                )}
+                <button onClick={() => setIsDiagramImportOpen(true)} className="text-sm text-slate-500 hover:text-indigo-600 inline-flex items-center gap-1 transition-colors">
+                  <FileInput size={14} /> Import a Mermaid or DOT diagram
+                </button>
+              </div>
             </div>
           </div>
         )}
@@ -416,14 +1078,114 @@ const App: React.FC = () => {
 
                 <div className="h-8 w-px bg-slate-200 hidden sm:block"></div>
 
-                <button 
-                  onClick={() => generateInitialDiagram()}
-                  disabled={isLoading}
-                  className="w-full sm:w-auto bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2.5 rounded-lg font-semibold flex items-center justify-center gap-2 shadow-lg shadow-indigo-200 transition-all hover:-translate-y-0.5"
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Release</label>
+                  <select
+                    value={state.config.workflowRelease}
+                    onChange={(e) => updateConfig('workflowRelease', e.target.value)}
+                    className="text-sm bg-slate-50 border border-slate-200 rounded px-2 py-1 outline-none focus:border-indigo-500"
+                  >
+                    {(['all', ...Object.keys(RELEASES)] as (ReleaseId | 'all')[]).map(release => (
+                      <option key={release} value={release}>
+                        {releaseLabel(release)} · {featuresForRelease(state.features, release).length}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="h-8 w-px bg-slate-200 hidden sm:block"></div>
+
+                {state.graph.nodes.length > 0 ? (
+                  <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full sm:w-auto">
+                    <button
+                      onClick={() => {
+                        if (confirm('Regenerate the workflow from scratch? Nodes added or edited by hand will be lost.')) generateInitialDiagram();
+                      }}
+                      disabled={isLoading}
+                      className="text-sm font-semibold px-3 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-40 flex items-center justify-center gap-2 transition-colors"
+                      title="Build a new workflow from the selected features, replacing the current one"
+                    >
+                      <RotateCcw size={16} /> Regenerate
+                    </button>
+                    <button
+                      onClick={() => updateWorkflowForFeatures()}
+                      disabled={isLoading || isEmptyDelta(featureDelta)}
+                      className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:shadow-none text-white px-6 py-2.5 rounded-lg font-semibold flex items-center justify-center gap-2 shadow-lg shadow-indigo-200 transition-all hover:-translate-y-0.5"
+                      title={isEmptyDelta(featureDelta) ? 'The workflow already reflects these features' : 'Add and remove only the nodes the feature changes need'}
+                    >
+                      <Sparkles size={18} />
+                      {isEmptyDelta(featureDelta) ? 'Workflow Up to Date' : `Update Workflow (${describeDelta(featureDelta)})`}
+                    </button>
+                  </div>
+                ) : (
+                  <button 
+                    onClick={() => generateInitialDiagram()}
+                    disabled={isLoading}
+                    className="w-full sm:w-auto bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2.5 rounded-lg font-semibold flex items-center justify-center gap-2 shadow-lg shadow-indigo-200 transition-all hover:-translate-y-0.5"
+                  >
+                    <Sparkles size={18} />
+                    Generate Workflow
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <button
+                onClick={() => generateFeatureSpecs()}
+                disabled={isLoading || !aiService || !state.features.some(f => f.selected && !f.spec)}
+                className="text-sm font-semibold px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-40 flex items-center gap-2 transition-colors"
+                title="Write user stories, acceptance criteria and an estimate for selected features that have none"
+              >
+                <ListChecks size={16} className="text-purple-600" /> Write User Stories
+              </button>
+              <button
+                onClick={() => setIsFeatureChatOpen(true)}
+                disabled={!aiService}
+                className="text-sm font-semibold px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-40 flex items-center gap-2 transition-colors"
+                title="Discuss the feature list with AI and apply its suggestions"
+              >
+                <MessageSquare size={16} className="text-indigo-600" /> Refine with AI
+                {state.featureChat.length > 0 && <span className="text-xs text-slate-400">({state.featureChat.length})</span>}
+              </button>
+              <button
+                onClick={suggestPriorities}
+                disabled={isLoading || !aiService || state.features.length === 0}
+                className="text-sm font-semibold px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-40 flex items-center gap-2 transition-colors"
+                title={`Suggest MoSCoW priorities, RICE inputs and releases for ${state.config.productScope === 'mvp' ? 'a lean MVP' : 'a complete product'}`}
+              >
+                <Scale size={16} className="text-amber-600" /> Suggest Priorities
+              </button>
+              <button
+                onClick={() => setState(prev => ({ ...prev, features: sortByRice(prev.features) }))}
+                disabled={!state.features.some(f => f.rice)}
+                className="text-sm font-semibold px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-40 flex items-center gap-2 transition-colors"
+                title="Order features by RICE score, highest first. Drag cards to reorder by hand."
+              >
+                <ArrowDownWideNarrow size={16} className="text-slate-500" /> Sort by RICE
+              </button>
+              {state.features.some(isStubFeature) && (
+                <button
+                  onClick={() => expandStubFeatures(state.features)}
+                  disabled={!aiService || expandingIds.length > 0}
+                  className="text-sm font-semibold px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-40 flex items-center gap-2 transition-colors"
+                  title="Write descriptions for features that only have a title"
                 >
-                  <Sparkles size={18} />
-                  Generate Workflow
+                  <Wand2 size={16} className="text-purple-600" /> Describe {state.features.filter(isStubFeature).length} Features
                 </button>
+              )}
+              <div className="flex items-center gap-1 text-sm text-slate-500">
+                <span className="font-semibold">Export backlog:</span>
+                {(Object.keys(BACKLOG_FORMATS) as BacklogFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => exportBacklog(format)}
+                    disabled={!state.features.some(f => f.selected)}
+                    className="px-2 py-1 rounded hover:bg-slate-100 hover:text-indigo-600 disabled:opacity-40 flex items-center gap-1 transition-colors"
+                  >
+                    <Download size={14} /> {BACKLOG_FORMATS[format].label}
+                  </button>
+                ))}
               </div>
             </div>
 
@@ -434,6 +1196,11 @@ const App: React.FC = () => {
                   feature={feature} 
                   onToggle={toggleFeature}
                   onEdit={updateFeature}
+                  onGenerateSpec={aiService ? (id) => generateFeatureSpecs([id]) : undefined}
+                  onExpand={aiService ? (id) => expandStubFeatures(state.features, [id]) : undefined}
+                  isExpanding={expandingIds.includes(feature.id)}
+                  onPrioritize={updateFeaturePriority}
+                  onReorder={reorderFeatures}
                   onDelete={feature.id.startsWith('custom') ? deleteFeature : undefined}
                   custom={feature.id.startsWith('custom')}
                 />
@@ -458,8 +1225,31 @@ const App: React.FC = () => {
                     <ArrowRight size={16} />
                   </button>
                 </div>
+                {aiService && (
+                  <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={autoDescribe}
+                      onChange={(e) => setAutoDescribe(e.target.checked)}
+                      className="accent-indigo-600"
+                    />
+                    Write a description with AI
+                  </label>
+                )}
               </div>
             </div>
+
+            {isFeatureChatOpen && aiService && (
+              <FeatureChatPanel
+                idea={state.idea}
+                features={state.features}
+                messages={state.featureChat}
+                aiService={aiService}
+                onMessagesChange={updateFeatureChat}
+                onApplyChanges={applyChatChanges}
+                onClose={() => setIsFeatureChatOpen(false)}
+              />
+            )}
           </div>
         )}
 
@@ -476,6 +1266,10 @@ const App: React.FC = () => {
                   initialNodes={state.graph.nodes}
                   initialEdges={state.graph.edges}
                   geminiService={aiService}
+                  idea={state.idea}
+                  features={workflowFeatures}
+                  initialProposal={featureUpdate?.proposal}
+                  onInitialProposalResolved={resolveFeatureUpdate}
                   onGraphUpdate={handleGraphUpdate}
                   onSave={handleFinalize}
                />
@@ -497,19 +1291,63 @@ const App: React.FC = () => {
                            <span className="capitalize">{state.config.workflowComplexity} Diagram</span>
                            <span>•</span>
                            <span className="capitalize">{state.config.workflowType}</span>
+                           {state.config.workflowRelease !== 'all' && (
+                             <>
+                               <span>•</span>
+                               <span>{RELEASES[state.config.workflowRelease].label}</span>
+                             </>
+                           )}
                         </div>
                     </div>
-                    <div className="p-8 prose prose-slate max-w-none">
-                        <div className="whitespace-pre-wrap leading-relaxed text-slate-700">
-                            {generatedDescription}
-                        </div>
+                    <div className="p-8">
+                        <MarkdownView source={generatedDescription} streaming={isStreaming} />
+                        {isStreaming && !generatedDescription && (
+                            <p className="text-sm text-slate-400 animate-pulse">
+                                {aiRequest.progress && aiRequest.progress.attempt > 1
+                                  ? `Retrying — attempt ${aiRequest.progress.attempt} of ${aiRequest.progress.maxAttempts}...`
+                                  : 'Writing technical documentation...'}
+                            </p>
+                        )}
                     </div>
                     <div className="bg-slate-50 p-6 border-t border-slate-200 flex justify-end gap-3">
-                        <button onClick={() => goToStep('workflow')} className="text-slate-600 font-semibold px-4 py-2 hover:bg-slate-200 rounded-lg transition-colors">
+                        {isStreaming && (
+                            <button onClick={stopStreaming} className="mr-auto flex items-center gap-2 text-red-600 font-semibold px-4 py-2 hover:bg-red-50 rounded-lg transition-colors">
+                                <Square className="w-4 h-4" fill="currentColor" /> Stop
+                            </button>
+                        )}
+                        <button onClick={() => { stopStreaming(); goToStep('workflow'); }} className="text-slate-600 font-semibold px-4 py-2 hover:bg-slate-200 rounded-lg transition-colors">
                             Back to Editor
                         </button>
-                        <button className="bg-indigo-600 text-white font-bold px-6 py-2 rounded-lg hover:bg-indigo-700 transition-colors">
-                            Export PDF (Demo)
+                        <button
+                            onClick={() => setIsScaffoldOpen(true)}
+                            disabled={state.graph.nodes.length === 0}
+                            className="flex items-center gap-2 text-slate-700 font-semibold px-4 py-2 border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-50 rounded-lg transition-colors"
+                        >
+                            <Package className="w-4 h-4" /> Scaffold
+                        </button>
+                        <button
+                            onClick={() => setIsOpenApiOpen(true)}
+                            disabled={state.graph.nodes.length === 0}
+                            className="flex items-center gap-2 text-slate-700 font-semibold px-4 py-2 border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-50 rounded-lg transition-colors"
+                        >
+                            <FileJson className="w-4 h-4" /> API Spec
+                        </button>
+                        {(['markdown', 'html'] as BriefFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => exportBrief(format)}
+                                disabled={isStreaming || exportingBrief !== null}
+                                className="flex items-center gap-2 text-slate-700 font-semibold px-4 py-2 border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-50 rounded-lg transition-colors"
+                            >
+                                <Download className="w-4 h-4" /> {BRIEF_FORMATS[format].label}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => exportBrief('pdf')}
+                            disabled={isStreaming || exportingBrief !== null}
+                            className="flex items-center gap-2 bg-indigo-600 text-white font-bold px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:bg-slate-300 transition-colors"
+                        >
+                            <FileText className="w-4 h-4" /> {exportingBrief === 'pdf' ? 'Creating PDF...' : 'Export PDF'}
                         </button>
                     </div>
                 </div>
@@ -1,17 +1,54 @@
 import React, { useState, useEffect } from 'react';
-import { Key, CheckCircle, AlertCircle, Bot, Globe } from 'lucide-react';
-import { AppModel, AiProvider } from '../types';
+import { Key, CheckCircle, AlertCircle, Bot, Globe, Sparkles, Cloud, Server, FlaskConical, FileUp } from 'lucide-react';
+import { AiFixture, AiProvider, FixtureMode, ProviderOptions, RetryPolicy } from '../types';
+import { DEFAULT_RETRY_POLICY } from '../constants';
+import { PROVIDER_DEFINITIONS, defaultProviderOptions, getProviderDefinition } from '../services/providers/registry';
+import { FIXTURE_FILE_EXTENSION, FixtureDocument, FixtureFileError, parseFixtureFile } from '../services/providers/fixtures';
+
+export interface ApiSetup {
+  apiKey: string;
+  model: string;
+  provider: AiProvider;
+  providerOptions: ProviderOptions;
+  retryPolicy: RetryPolicy;
+  fixtureMode: FixtureMode;
+  replayFixtures: AiFixture[];
+}
 
 interface ApiKeyModalProps {
-  onComplete: (key: string, model: string, provider: AiProvider) => void;
+  onComplete: (setup: ApiSetup) => void;
 }
 
+const FIXTURE_MODES: { value: FixtureMode; label: string }[] = [
+  { value: 'off', label: 'Live' },
+  { value: 'record', label: 'Record' },
+  { value: 'replay', label: 'Replay' },
+];
+
+const PROVIDER_ICONS: Record<AiProvider, React.ElementType> = {
+  'gemini': Bot,
+  'openai': Globe,
+  'anthropic': Sparkles,
+  'azure-openai': Cloud,
+  'openai-compatible': Server,
+  'mock': FlaskConical,
+};
+
 export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onComplete }) => {
   const [key, setKey] = useState('');
   const [provider, setProvider] = useState<AiProvider>('gemini');
-  const [model, setModel] = useState<string>(AppModel.GEMINI_FLASH);
+  const [model, setModel] = useState<string>(PROVIDER_DEFINITIONS[0].models[0].value);
   const [customModel, setCustomModel] = useState('');
   const [isCustomModel, setIsCustomModel] = useState(false);
+  const [options, setOptions] = useState<ProviderOptions>({});
+  const [maxAttempts, setMaxAttempts] = useState(DEFAULT_RETRY_POLICY.maxAttempts);
+  const [fixtureMode, setFixtureMode] = useState<FixtureMode>('off');
+  const [replay, setReplay] = useState<FixtureDocument | null>(null);
+  const [replayError, setReplayError] = useState('');
+
+  const definition = getProviderDefinition(provider);
+  // Providers without a model list (Azure deployments, local servers) always take a typed name
+  const typedModel = isCustomModel || definition.models.length === 0;
 
   // Auto-fill from env if available (dev convenience)
   useEffect(() => {
@@ -21,26 +58,65 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onComplete }) => {
   }, []);
 
   const handleProviderChange = (newProvider: AiProvider) => {
+    const next = getProviderDefinition(newProvider);
     setProvider(newProvider);
     setIsCustomModel(false);
-    if (newProvider === 'gemini') {
-      setModel(AppModel.GEMINI_FLASH);
-    } else {
-      setModel(AppModel.GPT_4O);
+    setCustomModel('');
+    setModel(next.models[0]?.value || '');
+    setOptions(defaultProviderOptions(newProvider));
+  };
+
+  const missingField = definition.fields.some(field => field.required && !options[field.key]?.trim());
+  const finalModel = typedModel ? customModel : model;
+  const isReplay = fixtureMode === 'replay';
+  const canSubmit = isReplay
+    ? !!replay
+    : (!definition.requiresKey || key.trim().length > 0) && finalModel.trim().length > 0 && !missingField;
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplay(parseFixtureFile(await file.text()));
+      setReplayError('');
+    } catch (err) {
+      setReplay(null);
+      setReplayError(err instanceof FixtureFileError ? err.message : 'The file could not be read.');
     }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const finalModel = isCustomModel ? customModel : model;
-    if (key.trim().length > 0 && finalModel.trim().length > 0) {
-      onComplete(key, finalModel, provider);
+    if (!canSubmit) return;
+    const retryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts };
+    if (isReplay && replay) {
+      // Replays answer as the recorded provider, without any network access
+      onComplete({
+        apiKey: '',
+        model: replay.model || 'replay',
+        provider: replay.provider,
+        providerOptions: {},
+        retryPolicy,
+        fixtureMode: 'replay',
+        replayFixtures: replay.fixtures,
+      });
+      return;
     }
+    onComplete({
+      apiKey: key.trim(),
+      model: finalModel.trim(),
+      provider,
+      providerOptions: options,
+      retryPolicy,
+      fixtureMode,
+      replayFixtures: [],
+    });
   };
 
   return (
     <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-8 border border-slate-100">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-8 border border-slate-100 max-h-[calc(100vh-2rem)] overflow-y-auto">
         <div className="flex items-center gap-3 mb-6 text-indigo-600">
           <Key className="w-8 h-8" />
           <h2 className="text-2xl font-bold text-slate-800">API Setup</h2>
@@ -51,96 +127,157 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onComplete }) => {
         </p>
 
         <form onSubmit={handleSubmit} className="space-y-5">
-          
-          {/* Provider Selection */}
+
+          {/* Record / Replay */}
           <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">Provider</label>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">Responses</label>
             <div className="flex gap-2 p-1 bg-slate-100 rounded-lg">
-              <button
-                type="button"
-                onClick={() => handleProviderChange('gemini')}
-                className={`flex-1 py-2 rounded-md text-sm font-medium transition-all flex items-center justify-center gap-2
-                  ${provider === 'gemini' ? 'bg-white shadow text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
-              >
-                <Bot size={16} /> Google Gemini
-              </button>
-              <button
-                type="button"
-                onClick={() => handleProviderChange('openai')}
-                className={`flex-1 py-2 rounded-md text-sm font-medium transition-all flex items-center justify-center gap-2
-                  ${provider === 'openai' ? 'bg-white shadow text-emerald-600' : 'text-slate-500 hover:text-slate-700'}`}
-              >
-                <Globe size={16} /> OpenAI
-              </button>
+              {FIXTURE_MODES.map(mode => (
+                <button
+                  key={mode.value}
+                  type="button"
+                  onClick={() => setFixtureMode(mode.value)}
+                  className={`flex-1 py-1.5 rounded-md text-sm font-medium transition-all
+                    ${fixtureMode === mode.value ? 'bg-white shadow text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
             </div>
+            {fixtureMode === 'record' && (
+              <p className="mt-1 text-xs text-slate-500">Every response is captured; download the recording from the header to replay it later.</p>
+            )}
           </div>
 
-          <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">
-              {provider === 'gemini' ? 'Gemini API Key' : 'OpenAI API Key'}
-            </label>
-            <input 
-              type="password" 
-              value={key}
-              onChange={(e) => setKey(e.target.value)}
-              placeholder={provider === 'gemini' ? "AIzaSy..." : "sk-..."}
-              className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-              required
-            />
-          </div>
+          {isReplay ? (
+            <div>
+              <label className="flex flex-col items-center gap-2 p-6 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer hover:border-indigo-400 hover:bg-indigo-50/40 transition-colors text-sm text-slate-600">
+                <FileUp className="w-6 h-6 text-indigo-500" />
+                {replay
+                  ? <span><strong>{replay.fixtures.length}</strong> recorded responses from {getProviderDefinition(replay.provider).label} ({replay.model})</span>
+                  : <span>Choose a <code>{FIXTURE_FILE_EXTENSION}</code> recording</span>}
+                <input type="file" accept={`${FIXTURE_FILE_EXTENSION},application/json`} onChange={handleReplayFile} className="hidden" />
+              </label>
+              {replayError && <p className="mt-1 text-xs text-red-600">{replayError}</p>}
+            </div>
+          ) : (
+            <>
+              {/* Provider Selection */}
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Provider</label>
+                <div className="grid grid-cols-2 gap-2 p-1 bg-slate-100 rounded-lg">
+                  {PROVIDER_DEFINITIONS.map(p => {
+                    const Icon = PROVIDER_ICONS[p.id];
+                    return (
+                      <button
+                        key={p.id}
+                        type="button"
+                        onClick={() => handleProviderChange(p.id)}
+                        className={`py-2 rounded-md text-sm font-medium transition-all flex items-center justify-center gap-2
+                          ${provider === p.id ? 'bg-white shadow text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
+                      >
+                        <Icon size={16} /> {p.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
 
-          <div>
-            <label className="block text-sm font-semibold text-slate-700 mb-2">Model</label>
-            <div className="space-y-2">
-              <select 
-                value={isCustomModel ? 'custom' : model} 
-                onChange={(e) => {
-                  if (e.target.value === 'custom') {
-                    setIsCustomModel(true);
-                  } else {
-                    setIsCustomModel(false);
-                    setModel(e.target.value);
-                  }
-                }}
-                className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
-              >
-                {provider === 'gemini' ? (
-                  <>
-                    <option value={AppModel.GEMINI_FLASH}>Gemini 2.5 Flash (Fastest)</option>
-                    <option value={AppModel.GEMINI_3_PRO}>Gemini 3.0 Pro (Best Quality)</option>
-                  </>
-                ) : (
-                  <>
-                    <option value={AppModel.GPT_4O}>GPT-4o (Best)</option>
-                    <option value={AppModel.GPT_35_TURBO}>GPT-3.5 Turbo (Fast)</option>
-                  </>
-                )}
-                <option value="custom">Custom (Enter Name)...</option>
-              </select>
-
-              {isCustomModel && (
-                <input 
-                  type="text" 
-                  value={customModel}
-                  onChange={(e) => setCustomModel(e.target.value)}
-                  placeholder="e.g. gpt-4-turbo-preview or gemini-1.5-pro"
-                  className="w-full px-4 py-2 text-sm rounded-lg border border-indigo-200 bg-indigo-50 focus:border-indigo-500 outline-none"
-                  required
-                />
+              {/* Provider specific connection fields */}
+              {definition.fields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-semibold text-slate-700 mb-2">{field.label}</label>
+                  <input
+                    type="text"
+                    value={options[field.key] || ''}
+                    onChange={(e) => setOptions(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    placeholder={field.placeholder || field.defaultValue}
+                    className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all font-mono text-sm"
+                    required={field.required}
+                  />
+                  {field.help && <p className="mt-1 text-xs text-slate-500">{field.help}</p>}
+                </div>
+              ))}
+
+              {!definition.offline && (
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-2">
+                    {definition.keyLabel}
+                  </label>
+                  <input 
+                    type="password" 
+                    value={key}
+                    onChange={(e) => setKey(e.target.value)}
+                    placeholder={definition.keyPlaceholder}
+                    className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                    required={definition.requiresKey}
+                  />
+                </div>
               )}
-            </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">{definition.modelLabel || 'Model'}</label>
+                <div className="space-y-2">
+                  {definition.models.length > 0 && (
+                    <select 
+                      value={isCustomModel ? 'custom' : model} 
+                      onChange={(e) => {
+                        if (e.target.value === 'custom') {
+                          setIsCustomModel(true);
+                        } else {
+                          setIsCustomModel(false);
+                          setModel(e.target.value);
+                        }
+                      }}
+                      className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                    >
+                      {definition.models.map(m => (
+                        <option key={m.value} value={m.value}>{m.label}</option>
+                      ))}
+                      <option value="custom">Custom (Enter Name)...</option>
+                    </select>
+                  )}
+
+                  {typedModel && (
+                    <input 
+                      type="text" 
+                      value={customModel}
+                      onChange={(e) => setCustomModel(e.target.value)}
+                      placeholder={definition.modelPlaceholder || "e.g. gpt-4-turbo-preview or gemini-1.5-pro"}
+                      className="w-full px-4 py-2 text-sm rounded-lg border border-indigo-200 bg-indigo-50 focus:border-indigo-500 outline-none"
+                      required
+                    />
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">Attempts per request</label>
+            <select
+              value={maxAttempts}
+              onChange={(e) => setMaxAttempts(Number(e.target.value))}
+              className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+            >
+              <option value={1}>1 (no retries)</option>
+              <option value={2}>2</option>
+              <option value={3}>3 (recommended)</option>
+              <option value={5}>5</option>
+            </select>
+            <p className="mt-1 text-xs text-slate-500">Failed or unparsable responses are retried, and the model is asked to correct its output.</p>
           </div>
 
           <button 
             type="submit"
-            disabled={!key || (isCustomModel && !customModel)}
+            disabled={!canSubmit}
             className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-bold py-3 rounded-lg transition-colors flex items-center justify-center gap-2"
           >
-            {key ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+            {canSubmit ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
             Start Architecting
           </button>
         </form>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
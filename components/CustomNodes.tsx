@@ -23,15 +23,22 @@ const NodeColor = (type: NodeType) => {
   }
 };
 
-export const WorkflowNode = memo(({ data, selected }: NodeProps<WorkflowNodeData>) => {
+export const WorkflowNode = memo(({ data, selected, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps<WorkflowNodeData>) => {
   return (
     <div className={`
       relative min-w-[200px] max-w-[280px] rounded-lg border-2 shadow-sm transition-all
       ${NodeColor(data.type)}
       ${selected ? 'ring-2 ring-indigo-500 ring-offset-2' : ''}
       ${data.isNew ? 'animate-pulse ring-2 ring-green-400 ring-offset-1' : ''}
+      ${data.pendingChange === 'add' ? 'border-dashed pointer-events-none' : ''}
+      ${data.pendingChange === 'add' && !data.pendingRejected ? 'opacity-70 ring-2 ring-indigo-300 ring-offset-1' : ''}
+      ${data.pendingChange === 'add' && data.pendingRejected ? 'opacity-25 grayscale' : ''}
+      ${data.pendingChange === 'update' && !data.pendingRejected ? 'ring-2 ring-amber-400 ring-offset-2' : ''}
+      ${data.pendingChange === 'delete' && !data.pendingRejected ? 'opacity-40 ring-2 ring-red-400 ring-offset-2' : ''}
+      ${data.highlight === 'match' ? 'ring-4 ring-indigo-400 ring-offset-2' : ''}
+      ${data.highlight === 'dim' ? 'opacity-30' : ''}
     `}>
-      <Handle type="target" position={Position.Top} className="!bg-slate-400 !w-3 !h-3" />
+      <Handle type="target" position={targetPosition} className="!bg-slate-400 !w-3 !h-3" />
       
       <div className="px-4 py-3 border-b border-black/5 flex items-center gap-2">
         <NodeIcon type={data.type} />
@@ -41,9 +48,27 @@ export const WorkflowNode = memo(({ data, selected }: NodeProps<WorkflowNodeData
       <div className="p-4 bg-white/50 rounded-b-lg">
         <h3 className="font-bold text-lg mb-1">{data.label}</h3>
         <p className="text-xs opacity-75 leading-snug">{data.details}</p>
+        {data.entities && data.entities.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {data.entities.map(entity => (
+              <span key={entity.name} className="text-[10px] font-mono font-semibold px-1.5 py-0.5 rounded bg-emerald-100 border border-emerald-200">
+                {entity.name}
+              </span>
+            ))}
+          </div>
+        )}
+        {data.featureTags && data.featureTags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {data.featureTags.map(tag => (
+              <span key={tag.id} className={`text-[10px] font-semibold px-1.5 py-0.5 rounded-full border ${tag.color}`}>
+                {tag.title}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
-      <Handle type="source" position={Position.Bottom} className="!bg-slate-400 !w-3 !h-3" />
+      <Handle type="source" position={sourcePosition} className="!bg-slate-400 !w-3 !h-3" />
     </div>
   );
 });
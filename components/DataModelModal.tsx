@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Database, X, Download, Sparkles, Loader2, AlertTriangle, Wrench, Copy, Check } from 'lucide-react';
+import { AppFeature, DataEntity } from '../types';
+import { AiResponseError, AiService, isAbortError } from '../services/geminiService';
+import { DATA_MODEL_FORMATS, DataModelFormat, InferredDataModel, collectEntities, dataModelIssues, exportDataModel } from '../services/dataModel';
+import { downloadFile } from '../services/fileUtils';
+import { useAiRequest } from '../hooks/useAiRequest';
+import { ErDiagram } from './ErDiagram';
+
+interface DataModelModalProps {
+  idea: string;
+  features: AppFeature[];
+  nodes: any[];
+  edges: any[];
+  aiService: AiService;
+  // Replaces the entities of every database node listed
+  onApply: (entities: Record<string, DataEntity[]>) => void;
+  onClose: () => void;
+}
+
+type DataModelTab = 'diagram' | DataModelFormat;
+
+export const DataModelModal: React.FC<DataModelModalProps> = ({ idea, features, nodes, edges, aiService, onApply, onClose }) => {
+  const [tab, setTab] = useState<DataModelTab>('diagram');
+  const [pending, setPending] = useState<InferredDataModel | null>(null);
+  const [isInferring, setIsInferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const aiRequest = useAiRequest();
+  const { cancel } = aiRequest;
+
+  useEffect(() => cancel, [cancel]);
+
+  const storeCount = nodes.filter(n => n.data?.type === 'database').length;
+
+  // A pending inference is previewed in place of the current model
+  const items = useMemo(() => {
+    if (!pending) return collectEntities(nodes);
+    return collectEntities(nodes.map(n => pending.entities[n.id] ? { ...n, data: { ...n.data, entities: pending.entities[n.id] } } : n));
+  }, [nodes, pending]);
+  const issues = useMemo(() => dataModelIssues(items), [items]);
+  const output = useMemo(
+    () => tab === 'diagram' ? '' : exportDataModel(items.map(item => item.entity), tab),
+    [items, tab]
+  );
+
+  const inferWithAi = async () => {
+    setError(null);
+    setIsInferring(true);
+    const options = aiRequest.start();
+    try {
+      setPending(await aiService.inferDataModel(idea, features, nodes, edges, options));
+      setTab('diagram');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to infer the data model", err);
+      setError(err instanceof AiResponseError
+        ? `${err.message} The model kept returning output that could not be used.`
+        : 'The AI request failed. Your entities have not been changed.');
+    } finally {
+      if (aiRequest.finish(options)) setIsInferring(false);
+    }
+  };
+
+  const cancelInference = () => {
+    cancel();
+    setIsInferring(false);
+  };
+
+  const applyPending = () => {
+    if (!pending) return;
+    onApply(pending.entities);
+    setPending(null);
+  };
+
+  const copyOutput = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy the data model", err);
+      setError('The browser blocked clipboard access. Use the download button instead.');
+    }
+  };
+
+  const handleDownload = (format: DataModelFormat) => {
+    const { extension, mimeType } = DATA_MODEL_FORMATS[format];
+    const name = format === 'prisma' ? 'schema' : `schema.${format}`;
+    downloadFile(`${name}${extension}`, output, mimeType);
+  };
+
+  const tabs: DataModelTab[] = ['diagram', ...(Object.keys(DATA_MODEL_FORMATS) as DataModelFormat[])];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-[60] p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col border border-slate-100" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 text-emerald-600">
+            <Database className="w-6 h-6" />
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">Data Model</h2>
+              <p className="text-sm text-slate-500">{items.length} entities across {storeCount} database nodes</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-100 space-y-3">
+          <div className="flex items-center gap-3 flex-wrap">
+            {pending ? (
+              <>
+                <span className="text-xs font-bold uppercase px-2 py-1 rounded bg-purple-100 text-purple-700">Preview of inferred entities</span>
+                <button onClick={applyPending} className="text-sm font-semibold px-3 py-1.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors">
+                  Apply to diagram
+                </button>
+                <button onClick={() => setPending(null)} className="text-sm font-semibold px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+                  Discard
+                </button>
+              </>
+            ) : isInferring ? (
+              <>
+                <span className="flex items-center gap-2 text-sm text-slate-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {aiRequest.progress && aiRequest.progress.attempt > 1
+                    ? `Retrying — attempt ${aiRequest.progress.attempt} of ${aiRequest.progress.maxAttempts}...`
+                    : 'Inferring entities from the features and workflow...'}
+                </span>
+                <button onClick={cancelInference} className="text-sm text-red-600 font-semibold px-3 py-1.5 hover:bg-red-50 rounded-lg transition-colors">
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={inferWithAi}
+                disabled={storeCount === 0}
+                title={storeCount === 0 ? 'Add a database node first' : undefined}
+                className="flex items-center gap-2 text-sm font-semibold px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-slate-300 transition-colors"
+              >
+                <Sparkles className="w-4 h-4" /> {items.length > 0 ? 'Re-infer with AI' : 'Infer with AI'}
+              </button>
+            )}
+            <div className="ml-auto flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+              {tabs.map(t => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`px-3 py-1.5 font-semibold ${tab === t ? 'bg-emerald-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {t === 'diagram' ? 'Diagram' : DATA_MODEL_FORMATS[t].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" /> {error}
+            </div>
+          )}
+
+          {issues.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 max-h-28 overflow-y-auto">
+              <p className="flex items-center gap-2 font-semibold mb-1">
+                <AlertTriangle className="w-4 h-4" /> {issues.length} {issues.length === 1 ? 'problem' : 'problems'} in the model
+              </p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {pending && pending.fixes.length > 0 && (
+            <details className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <summary className="flex items-center gap-2 cursor-pointer font-semibold">
+                <Wrench className="w-4 h-4" /> {pending.fixes.length} {pending.fixes.length === 1 ? 'fix' : 'fixes'} applied to the AI response
+              </summary>
+              <ul className="mt-2 list-disc pl-5 space-y-0.5 max-h-24 overflow-y-auto">
+                {pending.fixes.map((fix, i) => <li key={i}>{fix}</li>)}
+              </ul>
+            </details>
+          )}
+        </div>
+
+        {tab === 'diagram' ? (
+          <div className="flex-1 overflow-auto bg-slate-50 min-h-0">
+            <ErDiagram items={items} />
+          </div>
+        ) : (
+          <pre className="flex-1 overflow-auto p-4 bg-slate-900 text-slate-100 text-xs font-mono leading-relaxed min-h-0">
+            {output}
+          </pre>
+        )}
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-400">Edit entities by double-clicking a database node. Foreign keys define the relations.</p>
+          {tab !== 'diagram' && (
+            <div className="flex gap-3 flex-shrink-0">
+              <button
+                onClick={copyOutput}
+                disabled={items.length === 0}
+                className="flex items-center gap-2 px-5 py-2 rounded-lg font-semibold text-slate-700 border border-slate-300 hover:bg-slate-100 disabled:opacity-40 transition-colors"
+              >
+                {copied ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />} Copy
+              </button>
+              <button
+                onClick={() => handleDownload(tab)}
+                disabled={items.length === 0}
+                className="flex items-center gap-2 px-5 py-2 rounded-lg font-semibold bg-emerald-600 text-white hover:bg-emerald-700 disabled:bg-slate-300 transition-colors"
+              >
+                <Download className="w-4 h-4" /> Download {DATA_MODEL_FORMATS[tab].label}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { FileInput, X, Upload, AlertTriangle } from 'lucide-react';
+import { DiagramParseError, DiagramSource, ImportedDiagram, detectDiagramFormat, parseDiagram } from '../services/diagramImport';
+
+interface DiagramImportModalProps {
+  initialName: string;
+  onImport: (diagram: ImportedDiagram, name: string) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<DiagramSource, string> = {
+  mermaid: 'Mermaid flowchart',
+  dot: 'Graphviz DOT',
+};
+
+const PLACEHOLDER = `flowchart TD
+  home[Home Page] --> login([Click Sign In])
+  login --> auth[[Auth Service]]
+  auth --> users[(Users DB)]`;
+
+export const DiagramImportModal: React.FC<DiagramImportModalProps> = ({ initialName, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [name, setName] = useState(initialName);
+  const [format, setFormat] = useState<DiagramSource | 'auto'>('auto');
+  const [error, setError] = useState<{ message: string; line?: number } | null>(null);
+
+  const detected = text.trim() ? detectDiagramFormat(text) : undefined;
+  const lines = text.split(/\r?\n/);
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setError(null);
+    if (!name.trim()) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(parseDiagram(text, format === 'auto' ? undefined : format), name.trim());
+    } catch (err) {
+      if (err instanceof DiagramParseError) {
+        setError({ message: err.message, line: err.line });
+      } else {
+        console.error(err);
+        setError({ message: 'The diagram could not be read.' });
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-slate-100" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 text-indigo-600">
+            <FileInput className="w-6 h-6" />
+            <h2 className="text-xl font-bold text-slate-800">Import Diagram</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-slate-500">
+            Paste a Mermaid flowchart or Graphviz DOT graph. Shapes and names like "Orders DB" or "Auth Service" decide each component's type, and the diagram opens in the editor so the AI can extend it.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="App name or idea"
+              className="flex-1 min-w-[200px] px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <select
+              value={format}
+              onChange={(e) => { setFormat(e.target.value as DiagramSource | 'auto'); setError(null); }}
+              className="px-3 py-2 text-sm rounded-lg border border-slate-300 bg-white outline-none"
+            >
+              <option value="auto">Auto-detect{detected ? ` (${FORMAT_LABELS[detected]})` : ''}</option>
+              <option value="mermaid">{FORMAT_LABELS.mermaid}</option>
+              <option value="dot">{FORMAT_LABELS.dot}</option>
+            </select>
+            <label className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50 cursor-pointer">
+              <Upload size={14} /> File
+              <input type="file" accept=".mmd,.mermaid,.md,.dot,.gv,.txt" onChange={loadFile} className="hidden" />
+            </label>
+          </div>
+
+          <textarea
+            value={text}
+            onChange={(e) => { setText(e.target.value); setError(null); }}
+            placeholder={PLACEHOLDER}
+            spellCheck={false}
+            className={`w-full h-64 p-3 font-mono text-sm rounded-lg border outline-none resize-y focus:ring-2 focus:ring-indigo-500
+              ${error ? 'border-red-300' : 'border-slate-300'}`}
+          />
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle size={14} /> {error.message}
+              </div>
+              {error.line !== undefined && lines[error.line - 1] !== undefined && (
+                <pre className="mt-2 px-2 py-1 bg-white/70 rounded font-mono text-xs overflow-x-auto">
+                  <span className="text-red-400 select-none">{error.line} | </span>{lines[error.line - 1]}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100">
+          <button onClick={onClose} className="text-slate-600 font-semibold px-4 py-2 hover:bg-slate-100 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!text.trim()}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white font-bold px-6 py-2 rounded-lg transition-colors"
+          >
+            Open in Editor
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
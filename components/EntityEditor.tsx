@@ -0,0 +1,158 @@
+import React from 'react';
+import { Plus, Trash2, KeyRound } from 'lucide-react';
+import { DataEntity, DataField, DataFieldType } from '../types';
+import { DATA_FIELD_TYPES } from '../services/dataModel';
+
+interface EntityEditorProps {
+  entities: DataEntity[];
+  // Entities of other database nodes, offered as foreign key targets
+  otherEntityNames: string[];
+  onChange: (entities: DataEntity[]) => void;
+}
+
+const newField = (): DataField => ({ name: '', type: 'string', nullable: false });
+
+export const EntityEditor: React.FC<EntityEditorProps> = ({ entities, otherEntityNames, onChange }) => {
+  const targets = Array.from(new Set([...entities.map(e => e.name.trim()).filter(Boolean), ...otherEntityNames]));
+
+  const updateEntity = (index: number, entity: DataEntity) =>
+    onChange(entities.map((e, i) => i === index ? entity : e));
+
+  const updateField = (entityIndex: number, fieldIndex: number, changes: Partial<DataField>) => {
+    const entity = entities[entityIndex];
+    updateEntity(entityIndex, {
+      ...entity,
+      fields: entity.fields.map((f, i) => i === fieldIndex ? { ...f, ...changes } : f),
+    });
+  };
+
+  const addEntity = () => onChange([
+    ...entities,
+    { name: '', fields: [{ name: 'id', type: 'uuid', nullable: false, primaryKey: true }] },
+  ]);
+
+  return (
+    <div className="space-y-3">
+      {entities.map((entity, entityIndex) => (
+        <div key={entityIndex} className="border border-emerald-200 rounded-lg overflow-hidden">
+          <div className="flex items-center gap-2 bg-emerald-50 px-3 py-2">
+            <input
+              value={entity.name}
+              onChange={e => updateEntity(entityIndex, { ...entity, name: e.target.value })}
+              placeholder="EntityName"
+              className="flex-1 bg-transparent font-bold text-emerald-900 outline-none placeholder:text-emerald-300"
+            />
+            <button
+              onClick={() => onChange(entities.filter((_, i) => i !== entityIndex))}
+              className="p-1 text-emerald-700 hover:text-red-600"
+              title="Remove entity"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-400 uppercase text-[10px] tracking-wider">
+                <th className="text-left font-semibold px-2 pt-2">Field</th>
+                <th className="text-left font-semibold px-1 pt-2">Type</th>
+                <th className="font-semibold px-1 pt-2" title="Primary key">Key</th>
+                <th className="font-semibold px-1 pt-2">Null</th>
+                <th className="font-semibold px-1 pt-2">Unique</th>
+                <th className="text-left font-semibold px-1 pt-2">References</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {entity.fields.map((field, fieldIndex) => (
+                <tr key={fieldIndex}>
+                  <td className="px-2 py-1">
+                    <input
+                      value={field.name}
+                      onChange={e => updateField(entityIndex, fieldIndex, { name: e.target.value })}
+                      placeholder="fieldName"
+                      className="w-full border border-slate-200 rounded px-1.5 py-1 font-mono outline-none focus:ring-1 focus:ring-indigo-500"
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <select
+                      value={field.type}
+                      onChange={e => updateField(entityIndex, fieldIndex, { type: e.target.value as DataFieldType })}
+                      className="border border-slate-200 rounded px-1 py-1 bg-white outline-none"
+                    >
+                      {DATA_FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-1 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!field.primaryKey}
+                      onChange={e => updateField(entityIndex, fieldIndex, { primaryKey: e.target.checked, ...(e.target.checked ? { nullable: false } : {}) })}
+                      className="accent-indigo-600"
+                    />
+                  </td>
+                  <td className="px-1 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={field.nullable}
+                      disabled={!!field.primaryKey}
+                      onChange={e => updateField(entityIndex, fieldIndex, { nullable: e.target.checked })}
+                      className="accent-indigo-600"
+                    />
+                  </td>
+                  <td className="px-1 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!field.unique}
+                      disabled={!!field.primaryKey}
+                      onChange={e => updateField(entityIndex, fieldIndex, { unique: e.target.checked })}
+                      className="accent-indigo-600"
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <select
+                      value={field.references ?? ''}
+                      onChange={e => updateField(entityIndex, fieldIndex, { references: e.target.value || undefined })}
+                      className="w-full border border-slate-200 rounded px-1 py-1 bg-white outline-none"
+                    >
+                      <option value="">—</option>
+                      {targets.map(name => <option key={name} value={name}>{name}</option>)}
+                      {field.references && !targets.includes(field.references) && (
+                        <option value={field.references}>{field.references} (missing)</option>
+                      )}
+                    </select>
+                  </td>
+                  <td className="px-1 py-1">
+                    <button
+                      onClick={() => updateEntity(entityIndex, { ...entity, fields: entity.fields.filter((_, i) => i !== fieldIndex) })}
+                      className="p-1 text-slate-400 hover:text-red-600"
+                      title="Remove field"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="px-2 py-2 flex items-center justify-between">
+            <button
+              onClick={() => updateEntity(entityIndex, { ...entity, fields: [...entity.fields, newField()] })}
+              className="text-xs text-indigo-600 font-semibold flex items-center gap-1 hover:underline"
+            >
+              <Plus size={12} /> Add field
+            </button>
+            {!entity.fields.some(f => f.primaryKey) && (
+              <span className="text-[11px] text-amber-600 flex items-center gap-1"><KeyRound size={11} /> No primary key</span>
+            )}
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={addEntity}
+        className="w-full py-2 border border-dashed border-emerald-300 text-emerald-700 rounded-lg text-sm font-semibold hover:bg-emerald-50 flex items-center justify-center gap-1"
+      >
+        <Plus size={14} /> Add entity
+      </button>
+    </div>
+  );
+};
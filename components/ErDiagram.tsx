@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { NodeEntity, entityRelations } from '../services/dataModel';
+
+interface ErDiagramProps {
+  items: NodeEntity[];
+}
+
+const BOX_WIDTH = 230;
+const HEADER_HEIGHT = 40;
+const ROW_HEIGHT = 20;
+const GAP_X = 90;
+const GAP_Y = 50;
+
+// Entities on a grid, tallest row decides the row height; relations are drawn
+// from the foreign key row to the referenced entity's header
+export const ErDiagram: React.FC<ErDiagramProps> = ({ items }) => {
+  const layout = useMemo(() => {
+    const columns = Math.max(1, Math.ceil(Math.sqrt(items.length)));
+    const rowHeights: number[] = [];
+    items.forEach((item, i) => {
+      const row = Math.floor(i / columns);
+      rowHeights[row] = Math.max(rowHeights[row] ?? 0, HEADER_HEIGHT + item.entity.fields.length * ROW_HEIGHT + 8);
+    });
+    const rowTops = rowHeights.map((_, row) => rowHeights.slice(0, row).reduce((sum, h) => sum + h + GAP_Y, 0));
+    const boxes = items.map((item, i) => {
+      const row = Math.floor(i / columns);
+      return {
+        ...item,
+        x: (i % columns) * (BOX_WIDTH + GAP_X) + 20,
+        y: rowTops[row] + 20,
+        height: HEADER_HEIGHT + item.entity.fields.length * ROW_HEIGHT + 8,
+      };
+    });
+    const width = Math.min(items.length, columns) * (BOX_WIDTH + GAP_X) - GAP_X + 40;
+    const height = rowHeights.reduce((sum, h) => sum + h + GAP_Y, 0) - GAP_Y + 40;
+    return { boxes, width, height };
+  }, [items]);
+
+  const relations = useMemo(() => entityRelations(items.map(item => item.entity)), [items]);
+
+  if (items.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-slate-400 p-8 text-center">
+        No entities yet. Edit a database node to add some, or infer them with AI.
+      </div>
+    );
+  }
+
+  const boxOf = (name: string) => layout.boxes.find(b => b.entity.name === name);
+
+  return (
+    <svg width={layout.width} height={layout.height} className="font-sans">
+      <defs>
+        <marker id="er-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+        </marker>
+      </defs>
+
+      {relations.map((relation, i) => {
+        const from = boxOf(relation.from);
+        const to = boxOf(relation.to);
+        if (!from || !to) return null;
+        const row = from.entity.fields.findIndex(f => f.name === relation.field);
+        const y1 = from.y + HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2;
+        const y2 = to.y + HEADER_HEIGHT / 2;
+        if (from === to) {
+          // Self reference loops out of the right edge
+          const x = from.x + BOX_WIDTH;
+          return (
+            <g key={i}>
+              <path d={`M ${x} ${y1} C ${x + 50} ${y1}, ${x + 50} ${y2}, ${x} ${y2}`} fill="none" stroke="#64748b" strokeWidth={1.5} markerEnd="url(#er-arrow)" />
+              <text x={x + 30} y={(y1 + y2) / 2} fontSize={10} fill="#475569">{relation.kind === 'one-to-one' ? '1:1' : 'N:1'}</text>
+            </g>
+          );
+        }
+        const rightward = to.x >= from.x + BOX_WIDTH / 2;
+        const leftward = to.x + BOX_WIDTH / 2 <= from.x;
+        const x1 = leftward ? from.x : from.x + BOX_WIDTH;
+        const x2 = rightward ? to.x : to.x + BOX_WIDTH;
+        // Boxes in the same column connect right edge to right edge
+        const sameColumn = !rightward && !leftward;
+        const bend = sameColumn ? 50 : (x2 - x1) / 2;
+        const path = `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${sameColumn ? x2 + bend : x2 - bend} ${y2}, ${x2} ${y2}`;
+        return (
+          <g key={i}>
+            <path d={path} fill="none" stroke="#64748b" strokeWidth={1.5} markerEnd="url(#er-arrow)" />
+            <text x={x1 + (leftward ? -14 : 4)} y={y1 - 4} fontSize={10} fontWeight={700} fill="#475569">
+              {relation.kind === 'one-to-one' ? '1' : 'N'}
+            </text>
+            <text x={x2 + (rightward ? -12 : 4)} y={y2 - 4} fontSize={10} fontWeight={700} fill="#475569">1</text>
+          </g>
+        );
+      })}
+
+      {layout.boxes.map(box => (
+        <g key={`${box.nodeId}-${box.entity.name}`}>
+          <rect x={box.x} y={box.y} width={BOX_WIDTH} height={box.height} rx={8} fill="#ffffff" stroke="#10b981" strokeWidth={1.5} />
+          <path
+            d={`M ${box.x} ${box.y + HEADER_HEIGHT} V ${box.y + 8} Q ${box.x} ${box.y} ${box.x + 8} ${box.y} H ${box.x + BOX_WIDTH - 8} Q ${box.x + BOX_WIDTH} ${box.y} ${box.x + BOX_WIDTH} ${box.y + 8} V ${box.y + HEADER_HEIGHT} Z`}
+            fill="#ecfdf5"
+          />
+          <text x={box.x + 10} y={box.y + 18} fontSize={13} fontWeight={700} fill="#064e3b">{box.entity.name}</text>
+          <text x={box.x + 10} y={box.y + 32} fontSize={10} fill="#059669">{box.nodeLabel}</text>
+          {box.entity.fields.map((field, i) => {
+            const y = box.y + HEADER_HEIGHT + i * ROW_HEIGHT + 14;
+            const marker = [field.primaryKey ? 'PK' : '', field.references ? 'FK' : ''].filter(Boolean).join(' ');
+            return (
+              <g key={i}>
+                <text x={box.x + 10} y={y} fontSize={10} fontWeight={700} fill="#b45309">{marker}</text>
+                <text x={box.x + 44} y={y} fontSize={11} fontFamily="monospace" fill="#1e293b" fontWeight={field.primaryKey ? 700 : 400}>
+                  {field.name}{field.nullable ? '?' : ''}
+                </text>
+                <text x={box.x + BOX_WIDTH - 10} y={y} fontSize={10} textAnchor="end" fill="#64748b">{field.type}</text>
+              </g>
+            );
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+};
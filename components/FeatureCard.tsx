@@ -1,32 +1,90 @@
 import React, { useState } from 'react';
-import { Check, Plus, Trash2, Edit2, X, Save } from 'lucide-react';
-import { AppFeature } from '../types';
+import { Check, Plus, Trash2, Edit2, X, Save, Sparkles, ChevronDown, ChevronUp, AlertTriangle, Wand2, Loader2, GripVertical } from 'lucide-react';
+import { AppFeature, FeatureSize, FeatureSpec, MoscowCategory, ReleaseId, RiceInputs } from '../types';
+import { FEATURE_SIZES, SIZE_POINTS, formatScenario, formatStory, parseGherkin, parseStories } from '../services/featureSpecs';
+import { isStubFeature } from '../services/featureExpansion';
+import { FeaturePriority, MOSCOW_CATEGORIES, RELEASES, RICE_IMPACTS, formatRiceScore, riceScore, sanitizeRice } from '../services/prioritization';
 
 interface FeatureCardProps {
   feature: AppFeature;
   onToggle: (id: string) => void;
   onDelete?: (id: string) => void;
-  onEdit?: (id: string, newTitle: string, newDesc: string) => void;
+  onEdit?: (id: string, newTitle: string, newDesc: string, spec?: FeatureSpec) => void;
+  // Writes user stories and acceptance criteria with AI
+  onGenerateSpec?: (id: string) => void;
+  // Writes a description for a feature that only has a title
+  onExpand?: (id: string) => void;
+  isExpanding?: boolean;
+  // Sets the given prioritization fields; undefined clears one
+  onPrioritize?: (id: string, priority: FeaturePriority) => void;
+  // Moves the dragged feature to this one's position
+  onReorder?: (fromId: string, toId: string) => void;
   custom?: boolean;
 }
 
-export const FeatureCard: React.FC<FeatureCardProps> = ({ feature, onToggle, onDelete, onEdit, custom }) => {
+const DRAG_TYPE = 'application/x-feature-id';
+
+type RiceText = Record<keyof RiceInputs, string>;
+
+const riceText = (rice?: RiceInputs): RiceText => ({
+  reach: rice ? String(rice.reach) : '',
+  impact: String(rice?.impact ?? 1),
+  confidence: rice ? String(rice.confidence) : '',
+  effort: rice ? String(rice.effort) : '',
+});
+
+// Blank reach and effort mean no RICE score
+const parseRiceText = (value: RiceText) => {
+  if (!value.reach.trim() && !value.effort.trim()) return { rice: undefined, valid: true };
+  const issues: string[] = [];
+  const rice = sanitizeRice({ ...value, confidence: value.confidence.trim() || '50' }, 'RICE', issues);
+  return { rice, valid: !!rice };
+};
+
+const storiesText = (spec?: FeatureSpec) => (spec?.stories ?? []).map(formatStory).join('\n');
+
+const gherkinText = (spec?: FeatureSpec) => (spec?.criteria ?? []).map(c => formatScenario(c)).join('\n\n');
+
+export const FeatureCard: React.FC<FeatureCardProps> = ({ feature, onToggle, onDelete, onEdit, onGenerateSpec, onExpand, isExpanding, onPrioritize, onReorder, custom }) => {
   const [isEditing, setIsEditing] = useState(false);
+  const [showSpec, setShowSpec] = useState(false);
   const [editTitle, setEditTitle] = useState(feature.title);
   const [editDesc, setEditDesc] = useState(feature.description);
+  const [editStories, setEditStories] = useState(storiesText(feature.spec));
+  const [editCriteria, setEditCriteria] = useState(gherkinText(feature.spec));
+  const [editSize, setEditSize] = useState<FeatureSize>(feature.spec?.size ?? 'M');
+  const [editRice, setEditRice] = useState<RiceText>(riceText(feature.rice));
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const parsedStories = parseStories(editStories);
+  const parsedCriteria = parseGherkin(editCriteria);
+  const invalidLines = [...parsedStories.invalid, ...parsedCriteria.invalid];
+  const parsedRice = parseRiceText(editRice);
+
+  const startEditing = () => {
+    setEditTitle(feature.title);
+    setEditDesc(feature.description);
+    setEditStories(storiesText(feature.spec));
+    setEditCriteria(gherkinText(feature.spec));
+    setEditSize(feature.spec?.size ?? 'M');
+    setEditRice(riceText(feature.rice));
+    setIsEditing(true);
+  };
 
   const handleSave = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onEdit) {
-      onEdit(feature.id, editTitle, editDesc);
+      const hasSpec = parsedStories.items.length > 0 || parsedCriteria.items.length > 0;
+      onEdit(feature.id, editTitle, editDesc, hasSpec
+        ? { stories: parsedStories.items, criteria: parsedCriteria.items, size: editSize }
+        : undefined);
     }
+    if (onPrioritize && parsedRice.valid) onPrioritize(feature.id, { rice: parsedRice.rice });
     setIsEditing(false);
   };
 
   const handleCancel = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setEditTitle(feature.title);
-    setEditDesc(feature.description);
     setIsEditing(false);
   };
 
@@ -48,6 +106,76 @@ export const FeatureCard: React.FC<FeatureCardProps> = ({ feature, onToggle, onD
             className="w-full text-sm text-slate-600 leading-relaxed border border-slate-200 rounded p-2 focus:border-indigo-500 outline-none resize-none h-24"
             onClick={(e) => e.stopPropagation()}
           />
+          <div className="flex items-center justify-between mt-2 mb-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">User Stories</label>
+            <select
+              value={editSize}
+              onChange={(e) => setEditSize(e.target.value as FeatureSize)}
+              onClick={(e) => e.stopPropagation()}
+              className="text-xs bg-slate-50 border border-slate-200 rounded px-1 py-0.5 outline-none"
+              title="Size estimate"
+            >
+              {FEATURE_SIZES.map(size => <option key={size} value={size}>{size} · {SIZE_POINTS[size]} pts</option>)}
+            </select>
+          </div>
+          <textarea
+            value={editStories}
+            onChange={(e) => setEditStories(e.target.value)}
+            placeholder="As a shopper, I want to save items so that I can buy them later."
+            className="w-full text-xs text-slate-600 border border-slate-200 rounded p-2 focus:border-indigo-500 outline-none resize-y h-20"
+            onClick={(e) => e.stopPropagation()}
+          />
+          <label className="block text-xs font-bold text-slate-500 uppercase mt-2 mb-1">Acceptance Criteria</label>
+          <textarea
+            value={editCriteria}
+            onChange={(e) => setEditCriteria(e.target.value)}
+            placeholder={'Scenario: Save an item\n  Given I am signed in\n  When I tap the heart\n  Then the item is in my wishlist'}
+            className="w-full text-xs font-mono text-slate-600 border border-slate-200 rounded p-2 focus:border-indigo-500 outline-none resize-y h-32"
+            onClick={(e) => e.stopPropagation()}
+          />
+          {onPrioritize && (
+            <>
+              <div className="flex items-center justify-between mt-2 mb-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">RICE</label>
+                {parsedRice.rice && <span className="text-xs text-slate-500">Score {formatRiceScore(riceScore(parsedRice.rice))}</span>}
+              </div>
+              <div className="grid grid-cols-4 gap-1.5" onClick={(e) => e.stopPropagation()}>
+                {([['reach', 'Reach / qtr'], ['confidence', 'Confidence %'], ['effort', 'Effort (pm)']] as [keyof RiceInputs, string][]).map(([key, label]) => (
+                  <input
+                    key={key}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={editRice[key]}
+                    onChange={(e) => setEditRice({ ...editRice, [key]: e.target.value })}
+                    placeholder={label}
+                    title={label}
+                    className="w-full text-xs border border-slate-200 rounded px-1.5 py-1 focus:border-indigo-500 outline-none"
+                  />
+                ))}
+                <select
+                  value={editRice.impact}
+                  onChange={(e) => setEditRice({ ...editRice, impact: e.target.value })}
+                  title="Impact"
+                  className="w-full text-xs bg-slate-50 border border-slate-200 rounded px-1 py-1 outline-none"
+                >
+                  {RICE_IMPACTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </div>
+              {!parsedRice.valid && (
+                <p className="flex items-start gap-1 text-xs text-amber-700 mt-1">
+                  <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+                  RICE needs a reach of 0 or more and an effort above 0; the current score is kept.
+                </p>
+              )}
+            </>
+          )}
+          {invalidLines.length > 0 && (
+            <p className="flex items-start gap-1 text-xs text-amber-700 mt-1" title={invalidLines.join('\n')}>
+              <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+              {invalidLines.length} {invalidLines.length === 1 ? 'line is' : 'lines are'} not a story or Gherkin step and will be dropped.
+            </p>
+          )}
         </div>
         <div className="flex justify-end gap-2 mt-2">
           <button
@@ -72,16 +200,35 @@ export const FeatureCard: React.FC<FeatureCardProps> = ({ feature, onToggle, onD
   return (
     <div 
       onClick={() => onToggle(feature.id)}
+      draggable={!!onReorder}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, feature.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragOver={(e) => {
+        if (!onReorder || !e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const id = e.dataTransfer.getData(DRAG_TYPE);
+        if (onReorder && id && id !== feature.id) onReorder(id, feature.id);
+      }}
       className={`
         relative group cursor-pointer p-5 rounded-xl border-2 transition-all duration-200
         ${feature.selected 
           ? 'border-indigo-500 bg-indigo-50/50 shadow-md' 
           : 'border-slate-200 bg-white hover:border-indigo-300 hover:shadow-sm'
         }
+        ${isDragOver ? 'ring-2 ring-indigo-300 ring-offset-2' : ''}
       `}
     >
       <div className="flex justify-between items-start mb-2">
-        <h3 className={`font-bold ${feature.selected ? 'text-indigo-900' : 'text-slate-800'}`}>
+        <h3 className={`font-bold flex items-start gap-1 ${feature.selected ? 'text-indigo-900' : 'text-slate-800'}`}>
+          {onReorder && <GripVertical size={16} className="mt-0.5 -ml-2 flex-shrink-0 text-slate-300 cursor-grab" />}
           {feature.title}
         </h3>
         <div className={`
@@ -91,17 +238,106 @@ export const FeatureCard: React.FC<FeatureCardProps> = ({ feature, onToggle, onD
           <Check size={14} strokeWidth={3} />
         </div>
       </div>
-      <p className="text-sm text-slate-600 leading-relaxed pr-6">
-        {feature.description}
-      </p>
+      {isExpanding ? (
+        <p className="flex items-center gap-2 text-sm text-slate-400 italic">
+          <Loader2 size={14} className="animate-spin" /> Writing a description...
+        </p>
+      ) : (
+        <p className="text-sm text-slate-600 leading-relaxed pr-6">
+          {feature.description}
+        </p>
+      )}
+
+      {onPrioritize && (
+        <div className={`mt-3 flex flex-wrap items-center gap-1.5 ${feature.spec ? '' : 'pb-6'}`} onClick={(e) => e.stopPropagation()}>
+          <select
+            value={feature.moscow ?? ''}
+            onChange={(e) => onPrioritize(feature.id, { moscow: (e.target.value || undefined) as MoscowCategory | undefined })}
+            className={`text-xs font-semibold border rounded px-1 py-0.5 outline-none ${feature.moscow ? MOSCOW_CATEGORIES[feature.moscow].className : 'bg-white text-slate-400 border-slate-200'}`}
+            title="MoSCoW priority"
+          >
+            <option value="">Priority</option>
+            {(Object.keys(MOSCOW_CATEGORIES) as MoscowCategory[]).map(key => <option key={key} value={key}>{MOSCOW_CATEGORIES[key].label}</option>)}
+          </select>
+          <select
+            value={feature.release ?? ''}
+            onChange={(e) => onPrioritize(feature.id, { release: (e.target.value || undefined) as ReleaseId | undefined })}
+            className={`text-xs font-semibold border rounded px-1 py-0.5 outline-none ${feature.release ? 'bg-indigo-100 text-indigo-700 border-indigo-200' : 'bg-white text-slate-400 border-slate-200'}`}
+            title="Release"
+          >
+            <option value="">Unplanned</option>
+            {(Object.keys(RELEASES) as ReleaseId[]).map(key => <option key={key} value={key}>{RELEASES[key].label}</option>)}
+          </select>
+          {feature.rice && (
+            <span
+              className="text-xs font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-600"
+              title={`Reach ${feature.rice.reach}, impact ${feature.rice.impact}, confidence ${feature.rice.confidence}%, effort ${feature.rice.effort} person-months`}
+            >
+              RICE {formatRiceScore(riceScore(feature.rice))}
+            </span>
+          )}
+        </div>
+      )}
+
+      {feature.spec && (
+        <div className="mt-3 pb-6">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowSpec(!showSpec);
+            }}
+            className="flex items-center gap-2 text-xs text-slate-500 hover:text-indigo-600"
+          >
+            <span className="font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{feature.spec.size} · {SIZE_POINTS[feature.spec.size]} pts</span>
+            {feature.spec.stories.length} {feature.spec.stories.length === 1 ? 'story' : 'stories'}, {feature.spec.criteria.length} {feature.spec.criteria.length === 1 ? 'scenario' : 'scenarios'}
+            {showSpec ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+          {showSpec && (
+            <div className="mt-2 space-y-2 cursor-auto" onClick={(e) => e.stopPropagation()}>
+              <ul className="text-xs text-slate-600 list-disc pl-4 space-y-1">
+                {feature.spec.stories.map((story, i) => <li key={i}>{formatStory(story)}</li>)}
+              </ul>
+              {feature.spec.criteria.length > 0 && (
+                <pre className="text-[11px] leading-relaxed bg-slate-900 text-slate-100 rounded p-2 overflow-x-auto whitespace-pre-wrap">
+                  {gherkinText(feature.spec)}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Action Buttons */}
       <div className="absolute bottom-3 right-3 flex gap-1 opacity-0 group-hover:opacity-100 transition-all">
+        {onExpand && !isExpanding && isStubFeature(feature) && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onExpand(feature.id);
+            }}
+            className="p-1.5 text-slate-400 hover:text-purple-600 hover:bg-purple-50 rounded-full transition-all"
+            title="Write a description with AI"
+          >
+            <Wand2 size={16} />
+          </button>
+        )}
+        {onGenerateSpec && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onGenerateSpec(feature.id);
+            }}
+            className="p-1.5 text-slate-400 hover:text-purple-600 hover:bg-purple-50 rounded-full transition-all"
+            title={feature.spec ? 'Rewrite user stories with AI' : 'Write user stories with AI'}
+          >
+            <Sparkles size={16} />
+          </button>
+        )}
         {onEdit && (
           <button 
             onClick={(e) => {
               e.stopPropagation();
-              setIsEditing(true);
+              startEditing();
             }}
             className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-all"
             title="Edit Feature"
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, X, Send, Loader2, Trash2, Plus, Minus, Edit2, Check } from 'lucide-react';
+import { AppFeature, FeatureChange, FeatureChatMessage } from '../types';
+import { AiResponseError, AiService, isAbortError } from '../services/geminiService';
+import { createChatMessage } from '../services/featureChat';
+import { useAiRequest } from '../hooks/useAiRequest';
+
+interface FeatureChatPanelProps {
+  idea: string;
+  features: AppFeature[];
+  messages: FeatureChatMessage[];
+  aiService: AiService;
+  // Updates run against the latest history, since replies arrive later
+  onMessagesChange: (update: (messages: FeatureChatMessage[]) => FeatureChatMessage[]) => void;
+  onApplyChanges: (changes: FeatureChange[]) => void;
+  onClose: () => void;
+}
+
+const EXAMPLES = ['Make it more B2B', 'Split onboarding into two features', 'What is missing for an MVP?'];
+
+const ChangeSummary: React.FC<{ change: FeatureChange; features: AppFeature[] }> = ({ change, features }) => {
+  const current = change.op === 'add' ? undefined : features.find(f => f.id === change.featureId);
+  if (change.op === 'add') {
+    return (
+      <span><Plus size={12} className="inline text-emerald-600 mr-1" /><strong>{change.title}</strong>{change.description && <span className="text-slate-500"> — {change.description}</span>}</span>
+    );
+  }
+  if (change.op === 'remove') {
+    return (
+      <span><Minus size={12} className="inline text-red-600 mr-1" />Remove <strong className={current ? '' : 'line-through'}>{current?.title ?? 'a deleted feature'}</strong></span>
+    );
+  }
+  return (
+    <span>
+      <Edit2 size={12} className="inline text-amber-600 mr-1" />
+      {current && current.title !== change.title ? <><span className="line-through text-slate-400">{current.title}</span> → </> : null}
+      <strong>{change.title}</strong>
+      {(!current || current.description !== change.description) && <span className="text-slate-500"> — {change.description}</span>}
+    </span>
+  );
+};
+
+export const FeatureChatPanel: React.FC<FeatureChatPanelProps> = ({ idea, features, messages, aiService, onMessagesChange, onApplyChanges, onClose }) => {
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const aiRequest = useAiRequest();
+  const { cancel } = aiRequest;
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => cancel, [cancel]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, isSending]);
+
+  const send = async (text: string = input) => {
+    const content = text.trim();
+    if (!content || isSending) return;
+    const history = messages;
+    setInput('');
+    setError(null);
+    setIsSending(true);
+    onMessagesChange(m => [...m, createChatMessage('user', content)]);
+    const options = aiRequest.start();
+    try {
+      const { reply, changes, fixes } = await aiService.chatAboutFeatures(idea, features, history, content, options);
+      onMessagesChange(m => [...m, createChatMessage('assistant', reply, changes, fixes)]);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Feature chat failed", err);
+      setError(err instanceof AiResponseError
+        ? `${err.message} The model kept returning output that could not be used.`
+        : 'The AI request failed. Try again or rephrase your message.');
+    } finally {
+      if (aiRequest.finish(options)) setIsSending(false);
+    }
+  };
+
+  const cancelSend = () => {
+    cancel();
+    setIsSending(false);
+  };
+
+  const updateProposals = (messageId: string, update: (message: FeatureChatMessage) => FeatureChatMessage) =>
+    onMessagesChange(m => m.map(message => message.id === messageId ? update(message) : message));
+
+  const toggleProposal = (messageId: string, index: number) => updateProposals(messageId, message => ({
+    ...message,
+    proposals: message.proposals?.map((p, i) => i === index ? { ...p, accepted: !p.accepted } : p),
+  }));
+
+  // Ticked proposals are applied, the rest of the pending ones are dismissed
+  const resolveProposals = (message: FeatureChatMessage, apply: boolean) => {
+    const pending = message.proposals?.filter(p => p.status === 'pending') ?? [];
+    if (apply) onApplyChanges(pending.filter(p => p.accepted).map(p => p.change));
+    updateProposals(message.id, m => ({
+      ...m,
+      proposals: m.proposals?.map(p => p.status !== 'pending' ? p : { ...p, status: apply && p.accepted ? 'applied' : 'dismissed' }),
+    }));
+  };
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-full sm:w-[26rem] bg-white shadow-2xl border-l border-slate-200 z-40 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between p-4 border-b border-slate-100">
+        <div className="flex items-center gap-2 text-indigo-700 font-semibold">
+          <MessageSquare size={18} /> Refine Features
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onMessagesChange(() => [])}
+            disabled={messages.length === 0 || isSending}
+            className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-40 rounded-full transition-colors"
+            title="Clear conversation"
+          >
+            <Trash2 size={16} />
+          </button>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-slate-50">
+        {messages.length === 0 && (
+          <div className="text-sm text-slate-500 space-y-3">
+            <p>Ask for changes to the feature list. Suggested changes appear here for you to review before they are applied.</p>
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLES.map(example => (
+                <button key={example} onClick={() => send(example)} className="text-xs px-2 py-1 rounded-full border border-indigo-200 text-indigo-700 bg-white hover:bg-indigo-50">
+                  {example}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => {
+          const pending = message.proposals?.filter(p => p.status === 'pending') ?? [];
+          return (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[90%] rounded-xl px-3 py-2 text-sm ${message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-700'}`}>
+                <p className="whitespace-pre-wrap">{message.content}</p>
+                {message.repairs && message.repairs.length > 0 && (
+                  <details className="mt-2 text-xs text-amber-700">
+                    <summary className="cursor-pointer">{message.repairs.length} suggested change(s) needed fixes</summary>
+                    <ul className="list-disc pl-4 mt-1 space-y-0.5">
+                      {message.repairs.map((repair, i) => <li key={i}>{repair}</li>)}
+                    </ul>
+                  </details>
+                )}
+                {message.proposals && message.proposals.length > 0 && (
+                  <div className="mt-2 space-y-1.5">
+                    {message.proposals.map((proposal, i) => (
+                      <label
+                        key={i}
+                        className={`flex items-start gap-2 text-xs rounded-lg border px-2 py-1.5 ${proposal.status === 'pending' ? 'border-slate-200 cursor-pointer' : 'border-transparent bg-slate-50'} ${proposal.status === 'dismissed' ? 'opacity-50' : ''}`}
+                      >
+                        {proposal.status === 'pending' ? (
+                          <input type="checkbox" checked={proposal.accepted} onChange={() => toggleProposal(message.id, i)} className="mt-0.5 accent-indigo-600" />
+                        ) : proposal.status === 'applied' ? (
+                          <Check size={14} className="text-emerald-600 flex-shrink-0" />
+                        ) : (
+                          <X size={14} className="text-slate-400 flex-shrink-0" />
+                        )}
+                        <ChangeSummary change={proposal.change} features={features} />
+                      </label>
+                    ))}
+                    {pending.length > 0 && (
+                      <div className="flex justify-end gap-2 pt-1">
+                        <button onClick={() => resolveProposals(message, false)} className="text-xs font-semibold px-2 py-1 text-slate-600 hover:bg-slate-100 rounded">
+                          Dismiss
+                        </button>
+                        <button
+                          onClick={() => resolveProposals(message, true)}
+                          disabled={!pending.some(p => p.accepted)}
+                          className="text-xs font-semibold px-2 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:bg-slate-300"
+                        >
+                          Apply {pending.filter(p => p.accepted).length} of {pending.length}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {isSending && (
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {aiRequest.progress && aiRequest.progress.attempt > 1
+              ? `Retrying — attempt ${aiRequest.progress.attempt} of ${aiRequest.progress.maxAttempts}...`
+              : 'Thinking...'}
+            <button onClick={cancelSend} className="text-red-600 font-semibold hover:underline">Cancel</button>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="p-3 border-t border-slate-100 flex gap-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          placeholder="e.g. Make it more B2B"
+          rows={2}
+          className="flex-1 text-sm border border-slate-300 rounded-lg p-2 focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+        />
+        <button
+          onClick={() => send()}
+          disabled={!input.trim() || isSending}
+          className="self-end p-2.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-lg transition-colors"
+          title="Send"
+        >
+          <Send size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
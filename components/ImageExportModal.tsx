@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { ImageDown, X, Download, Loader2, AlertTriangle } from 'lucide-react';
+import { rasterizeSvg, renderDiagramSvg } from '../services/diagramSvg';
+import { downloadFile } from '../services/fileUtils';
+
+interface ImageExportModalProps {
+  nodes: any[];
+  edges: any[];
+  onClose: () => void;
+}
+
+type ImageFormat = 'png' | 'svg';
+
+const SCALES = [1, 2, 3, 4];
+
+// Browsers refuse to allocate canvases much larger than this on a side
+const MAX_CANVAS_SIDE = 16384;
+
+// Checkerboard so a transparent preview is visibly transparent
+const TRANSPARENT_PREVIEW: React.CSSProperties = {
+  backgroundImage: 'linear-gradient(45deg, #e2e8f0 25%, transparent 25%), linear-gradient(-45deg, #e2e8f0 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #e2e8f0 75%), linear-gradient(-45deg, transparent 75%, #e2e8f0 75%)',
+  backgroundSize: '16px 16px',
+  backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0',
+};
+
+export const ImageExportModal: React.FC<ImageExportModalProps> = ({ nodes, edges, onClose }) => {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [legend, setLegend] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const diagram = useMemo(
+    () => renderDiagramSvg(nodes, edges, { background: transparent ? null : '#ffffff', legend }),
+    [nodes, edges, transparent, legend]
+  );
+  const previewUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`, [diagram]);
+  const fits = (s: number) => Math.max(diagram.width, diagram.height) * s <= MAX_CANVAS_SIDE;
+  const outputScale = format === 'svg' ? 1 : scale;
+
+  const handleDownload = async () => {
+    setError(null);
+    if (format === 'svg') {
+      downloadFile('workflow.svg', diagram.svg, 'image/svg+xml');
+      onClose();
+      return;
+    }
+    setIsExporting(true);
+    try {
+      downloadFile('workflow.png', await rasterizeSvg(diagram, scale, 'image/png'));
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'The image could not be created.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-[60] p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-slate-100" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 text-indigo-600">
+            <ImageDown className="w-6 h-6" />
+            <h2 className="text-xl font-bold text-slate-800">Export Image</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-4">
+          <div
+            className="border border-slate-200 rounded-lg h-72 flex items-center justify-center overflow-hidden"
+            style={transparent ? TRANSPARENT_PREVIEW : { backgroundColor: '#f8fafc' }}
+          >
+            <img src={previewUrl} alt="Diagram preview" className="max-w-full max-h-full object-contain" />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Format</span>
+              <select value={format} onChange={e => setFormat(e.target.value as ImageFormat)} className="w-full p-2 border border-slate-300 rounded bg-white">
+                <option value="png">PNG</option>
+                <option value="svg">SVG</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Scale</span>
+              <select
+                value={scale}
+                onChange={e => setScale(Number(e.target.value))}
+                disabled={format === 'svg'}
+                className="w-full p-2 border border-slate-300 rounded bg-white disabled:bg-slate-100 disabled:text-slate-400"
+              >
+                {SCALES.map(s => <option key={s} value={s} disabled={!fits(s)}>{s}×</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Background</span>
+              <select value={transparent ? 'transparent' : 'white'} onChange={e => setTransparent(e.target.value === 'transparent')} className="w-full p-2 border border-slate-300 rounded bg-white">
+                <option value="white">White</option>
+                <option value="transparent">Transparent</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 md:mt-5 cursor-pointer">
+              <input type="checkbox" checked={legend} onChange={e => setLegend(e.target.checked)} className="accent-indigo-600" />
+              <span className="text-slate-700">Include legend</span>
+            </label>
+          </div>
+
+          <p className="text-xs text-slate-400">
+            Exports all {nodes.length} components, not just the visible area: {Math.round(diagram.width * outputScale)} × {Math.round(diagram.height * outputScale)} px.
+          </p>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" /> {error}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 font-semibold hover:bg-slate-100 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={isExporting || (format === 'png' && !fits(scale))}
+            className="flex items-center gap-2 px-5 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-slate-300 transition-colors"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download {format.toUpperCase()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 import React from 'react';
-import { Sparkles, BrainCircuit } from 'lucide-react';
+import { Sparkles, BrainCircuit, RotateCw } from 'lucide-react';
 
 interface LoadingOverlayProps {
   message?: string;
+  attempt?: number;
+  maxAttempts?: number;
+  onCancel?: () => void;
 }
 
-export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ message = "AI is thinking..." }) => {
+export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ message = "AI is thinking...", attempt, maxAttempts, onCancel }) => {
   return (
     <div className="fixed inset-0 z-[100] bg-white/80 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-300">
       <div className="flex flex-col items-center gap-6 p-8 rounded-2xl">
@@ -22,8 +25,22 @@ export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ message = "AI is
         <div className="text-center">
           <h3 className="text-2xl font-bold text-slate-800 mb-2">Generating</h3>
           <p className="text-slate-500 font-medium animate-pulse">{message}</p>
+          {attempt !== undefined && attempt > 1 && (
+            <p className="mt-2 text-sm text-amber-600 font-medium flex items-center justify-center gap-1">
+              <RotateCw size={14} /> Retrying — attempt {attempt}{maxAttempts ? ` of ${maxAttempts}` : ''}
+            </p>
+          )}
         </div>
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-semibold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
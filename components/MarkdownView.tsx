@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { Eye, Code, ListTree } from 'lucide-react';
+import { MarkdownBlock, MarkdownInline, TOC_MIN_HEADINGS, markdownOutline, parseMarkdown } from '../services/markdown';
+
+interface MarkdownViewProps {
+  source: string;
+  streaming?: boolean;
+}
+
+// Heading ids are prefixed so model-written slugs cannot collide with the app's own ids
+const ID_PREFIX = 'summary-';
+
+const scrollToHeading = (id: string) => {
+  document.getElementById(`${ID_PREFIX}${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold text-slate-900 mt-8 mb-4',
+  2: 'text-xl font-bold text-slate-900 mt-8 mb-3 pb-2 border-b border-slate-200',
+  3: 'text-lg font-semibold text-slate-900 mt-6 mb-2',
+  4: 'font-semibold text-slate-900 mt-4 mb-2',
+  5: 'font-semibold text-slate-700 mt-4 mb-2',
+  6: 'font-semibold text-slate-500 mt-4 mb-2',
+};
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return node.text;
+      case 'break': return <br key={i} />;
+      case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-100 text-slate-800 font-mono text-[0.9em]">{node.text}</code>;
+      case 'strong': return <strong key={i} className="font-semibold text-slate-900">{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'strike': return <del key={i}>{renderInline(node.children)}</del>;
+      case 'link':
+        if (node.href.startsWith('#')) {
+          return (
+            <a key={i} href={node.href} onClick={e => { e.preventDefault(); scrollToHeading(node.href.slice(1)); }} className="text-indigo-600 underline hover:text-indigo-800">
+              {renderInline(node.children)}
+            </a>
+          );
+        }
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline hover:text-indigo-800">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={i} id={`${ID_PREFIX}${block.id}`} className={`${HEADING_CLASSES[block.level]} first:mt-0 scroll-mt-24`}>{renderInline(block.children)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={i} className="my-4 first:mt-0 leading-relaxed">{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, j) => (
+          <li key={j} className="pl-1">
+            {/* Tight items are a single paragraph; render them inline */}
+            {item.length === 1 && item[0].type === 'paragraph' ? renderInline(item[0].children) : renderBlocks(item)}
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-6 my-4 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc pl-6 my-4 space-y-1">{items}</ul>;
+      }
+      case 'code':
+        return (
+          <pre key={i} className="my-4 p-4 rounded-lg bg-slate-900 text-slate-100 text-sm font-mono overflow-x-auto">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return <blockquote key={i} className="my-4 pl-4 border-l-4 border-slate-300 text-slate-600 italic">{renderBlocks(block.children)}</blockquote>;
+      case 'table':
+        return (
+          <div key={i} className="my-4 overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} style={{ textAlign: block.align[c] ?? 'left' }} className="px-3 py-2 bg-slate-50 border border-slate-200 font-semibold text-slate-800">
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td key={c} style={{ textAlign: block.align[c] ?? undefined }} className="px-3 py-2 border border-slate-200 align-top">
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={i} className="my-8 border-slate-200" />;
+    }
+  });
+
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ source, streaming = false }) => {
+  const [showSource, setShowSource] = useState(false);
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const outline = useMemo(() => markdownOutline(blocks).filter(h => h.level <= 3), [blocks]);
+  const minLevel = Math.min(...outline.map(h => h.level));
+  const cursor = streaming && <span className="inline-block w-2 h-5 ml-0.5 align-text-bottom bg-indigo-500 animate-pulse" />;
+
+  if (!source) return cursor || null;
+
+  return (
+    <div className="text-slate-700">
+      <div className="flex justify-end mb-4">
+        <div className="inline-flex rounded-lg border border-slate-200 p-0.5 text-xs font-medium">
+          <button
+            onClick={() => setShowSource(false)}
+            className={`flex items-center gap-1 px-2.5 py-1 rounded-md transition-colors ${!showSource ? 'bg-slate-100 text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            <Eye className="w-3.5 h-3.5" /> Formatted
+          </button>
+          <button
+            onClick={() => setShowSource(true)}
+            className={`flex items-center gap-1 px-2.5 py-1 rounded-md transition-colors ${showSource ? 'bg-slate-100 text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            <Code className="w-3.5 h-3.5" /> Markdown
+          </button>
+        </div>
+      </div>
+
+      {showSource ? (
+        <pre className="whitespace-pre-wrap break-words font-mono text-sm leading-relaxed bg-slate-50 border border-slate-200 rounded-lg p-4">
+          {source}
+          {cursor}
+        </pre>
+      ) : (
+        <>
+          {outline.length >= TOC_MIN_HEADINGS && (
+            <nav className="mb-8 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+              <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">
+                <ListTree className="w-4 h-4" /> Contents
+              </div>
+              <ul className="space-y-1 text-sm">
+                {outline.map(heading => (
+                  <li key={heading.id} style={{ paddingLeft: `${heading.level - minLevel}rem` }}>
+                    <a
+                      href={`#${ID_PREFIX}${heading.id}`}
+                      onClick={e => { e.preventDefault(); scrollToHeading(heading.id); }}
+                      className="text-indigo-600 hover:text-indigo-800 hover:underline"
+                    >
+                      {heading.text}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </nav>
+          )}
+          {renderBlocks(blocks)}
+          {cursor}
+        </>
+      )}
+    </div>
+  );
+};
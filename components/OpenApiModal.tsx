@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileJson, X, Download, Sparkles, Loader2, RotateCcw, CheckCircle2, AlertTriangle, Wrench } from 'lucide-react';
+import { ApiDesign } from '../types';
+import { AiResponseError, AiService, isAbortError } from '../services/geminiService';
+import { OPENAPI_FORMATS, OpenApiFormat, buildOpenApiDocument, serializeOpenApi, validateOpenApiDocument } from '../services/openApi';
+import { downloadFile, slugify } from '../services/fileUtils';
+import { useAiRequest } from '../hooks/useAiRequest';
+
+interface OpenApiModalProps {
+  title: string;
+  nodes: any[];
+  edges: any[];
+  // Without a service only the skeleton from the diagram is available
+  aiService: AiService | null;
+  onClose: () => void;
+}
+
+export const OpenApiModal: React.FC<OpenApiModalProps> = ({ title, nodes, edges, aiService, onClose }) => {
+  const [format, setFormat] = useState<OpenApiFormat>('yaml');
+  const [design, setDesign] = useState<ApiDesign | null>(null);
+  const [fixes, setFixes] = useState<string[]>([]);
+  const [isDesigning, setIsDesigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const aiRequest = useAiRequest();
+  const { cancel } = aiRequest;
+
+  useEffect(() => cancel, [cancel]);
+
+  const spec = useMemo(() => buildOpenApiDocument(title, nodes, edges, design ?? undefined), [title, nodes, edges, design]);
+  const issues = useMemo(() => validateOpenApiDocument(spec), [spec]);
+  const output = useMemo(() => serializeOpenApi(spec, format), [spec, format]);
+  const operationCount = Object.values(spec.paths as Record<string, object>).reduce((sum, item) => sum + Object.keys(item).length, 0);
+  const schemaCount = Object.keys(spec.components.schemas).length;
+
+  const designWithAi = async () => {
+    if (!aiService) return;
+    setError(null);
+    setIsDesigning(true);
+    const options = aiRequest.start();
+    try {
+      const result = await aiService.generateApiDesign(title, nodes, edges, options);
+      setDesign(result.design);
+      setFixes(result.fixes);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Failed to design the API", err);
+      setError(err instanceof AiResponseError
+        ? `${err.message} The model kept returning output that could not be used.`
+        : 'The AI request failed. The skeleton from the diagram is still available.');
+    } finally {
+      if (aiRequest.finish(options)) setIsDesigning(false);
+    }
+  };
+
+  const cancelDesign = () => {
+    cancel();
+    setIsDesigning(false);
+  };
+
+  const resetDesign = () => {
+    setDesign(null);
+    setFixes([]);
+  };
+
+  const handleDownload = (target: OpenApiFormat) => {
+    const { extension, mimeType } = OPENAPI_FORMATS[target];
+    downloadFile(`${slugify(title, 'api')}.openapi${extension}`, serializeOpenApi(spec, target), mimeType);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col border border-slate-100" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 text-indigo-600">
+            <FileJson className="w-6 h-6" />
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">API Specification</h2>
+              <p className="text-sm text-slate-500">OpenAPI 3.1, {operationCount} operations and {schemaCount} schemas</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-100 space-y-3">
+          <div className="flex items-center gap-3 flex-wrap">
+            <span className={`text-xs font-bold uppercase px-2 py-1 rounded ${design ? 'bg-purple-100 text-purple-700' : 'bg-slate-100 text-slate-500'}`}>
+              {design ? 'Fields designed by AI' : 'Skeleton from the diagram'}
+            </span>
+            {isDesigning ? (
+              <>
+                <span className="flex items-center gap-2 text-sm text-slate-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {aiRequest.progress && aiRequest.progress.attempt > 1
+                    ? `Retrying — attempt ${aiRequest.progress.attempt} of ${aiRequest.progress.maxAttempts}...`
+                    : 'Designing endpoints and schemas...'}
+                </span>
+                <button onClick={cancelDesign} className="text-sm text-red-600 font-semibold px-3 py-1.5 hover:bg-red-50 rounded-lg transition-colors">
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                {aiService && (
+                  <button
+                    onClick={designWithAi}
+                    className="flex items-center gap-2 text-sm font-semibold px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                  >
+                    <Sparkles className="w-4 h-4" /> {design ? 'Redesign with AI' : 'Design with AI'}
+                  </button>
+                )}
+                {design && (
+                  <button onClick={resetDesign} className="flex items-center gap-2 text-sm font-semibold px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+                    <RotateCcw className="w-4 h-4" /> Back to skeleton
+                  </button>
+                )}
+              </>
+            )}
+            <div className="ml-auto flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+              {(Object.keys(OPENAPI_FORMATS) as OpenApiFormat[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFormat(f)}
+                  className={`px-3 py-1.5 font-semibold ${format === f ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {OPENAPI_FORMATS[f].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" /> {error}
+            </div>
+          )}
+
+          {issues.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle2 className="w-4 h-4" /> The document passes validation.
+            </p>
+          ) : (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 max-h-32 overflow-y-auto">
+              <p className="flex items-center gap-2 font-semibold mb-1">
+                <AlertTriangle className="w-4 h-4" /> {issues.length} validation {issues.length === 1 ? 'error' : 'errors'}
+              </p>
+              <ul className="space-y-0.5">
+                {issues.map((issue, i) => (
+                  <li key={i}><code className="text-xs bg-red-100 px-1 rounded">{issue.location}</code> {issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {fixes.length > 0 && (
+            <details className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <summary className="flex items-center gap-2 cursor-pointer font-semibold">
+                <Wrench className="w-4 h-4" /> {fixes.length} {fixes.length === 1 ? 'fix' : 'fixes'} applied to the AI response
+              </summary>
+              <ul className="mt-2 list-disc pl-5 space-y-0.5 max-h-24 overflow-y-auto">
+                {fixes.map((fix, i) => <li key={i}>{fix}</li>)}
+              </ul>
+            </details>
+          )}
+        </div>
+
+        <pre className="flex-1 overflow-auto p-4 bg-slate-900 text-slate-100 text-xs font-mono leading-relaxed min-h-0">
+          {output}
+        </pre>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-400">Routes match the code scaffold, served under /api. Logic nodes are operations; database nodes are schemas.</p>
+          <div className="flex gap-3 flex-shrink-0">
+            {(Object.keys(OPENAPI_FORMATS) as OpenApiFormat[]).map(f => (
+              <button
+                key={f}
+                onClick={() => handleDownload(f)}
+                className={`flex items-center gap-2 px-5 py-2 rounded-lg font-semibold transition-colors ${f === format ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'text-slate-700 border border-slate-300 hover:bg-slate-100'}`}
+              >
+                <Download className="w-4 h-4" /> {OPENAPI_FORMATS[f].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
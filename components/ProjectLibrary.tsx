@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { FolderOpen, Copy, Trash2, Edit2, X, Check } from 'lucide-react';
+import { SavedProject } from '../types';
+import { getProjectName } from '../services/projectStorage';
+
+interface ProjectLibraryProps {
+  projects: SavedProject[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const formatUpdated = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects,
+  currentProjectId,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onRename,
+  onClose
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const startRename = (project: SavedProject) => {
+    setRenamingId(project.id);
+    setRenameValue(getProjectName(project));
+  };
+
+  const commitRename = () => {
+    if (renamingId) onRename(renamingId, renameValue);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col border border-slate-100" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 text-indigo-600">
+            <FolderOpen className="w-6 h-6" />
+            <h2 className="text-xl font-bold text-slate-800">Project Library</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {projects.length === 0 ? (
+            <p className="text-center text-slate-400 py-12">
+              No saved projects yet. Projects are saved automatically as you work.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {projects.map(project => {
+                const isCurrent = project.id === currentProjectId;
+                return (
+                  <li
+                    key={project.id}
+                    className={`group flex items-center gap-3 p-3 rounded-xl border transition-colors
+                      ${isCurrent ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 hover:border-indigo-200'}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      {renamingId === project.id ? (
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitRename();
+                              if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                            className="flex-1 px-2 py-1 text-sm border border-indigo-300 rounded focus:border-indigo-500 outline-none"
+                            autoFocus
+                          />
+                          <button onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded-full" title="Save name">
+                            <Check size={16} />
+                          </button>
+                        </div>
+                      ) : (
+                        <button onClick={() => onOpen(project.id)} className="block w-full text-left">
+                          <span className="font-semibold text-slate-800 truncate block">
+                            {getProjectName(project)}
+                            {isCurrent && <span className="ml-2 text-xs font-medium text-indigo-600">(current)</span>}
+                          </span>
+                          <span className="text-xs text-slate-400">
+                            Updated {formatUpdated(project.updatedAt)} · {project.snapshot.features.length} features · {project.snapshot.graph.nodes.length} nodes
+                          </span>
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => startRename(project)} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full" title="Rename">
+                        <Edit2 size={16} />
+                      </button>
+                      <button onClick={() => onDuplicate(project.id)} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full" title="Duplicate">
+                        <Copy size={16} />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Delete "${getProjectName(project)}"? This cannot be undone.`)) onDelete(project.id);
+                        }}
+                        className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
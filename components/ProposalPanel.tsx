@@ -0,0 +1,132 @@
+import React from 'react';
+import { Check, X, AlertTriangle, GitPullRequest } from 'lucide-react';
+import { WorkflowOperation, WorkflowProposal } from '../types';
+import { getOperationBlocker, willApply } from '../services/workflowProposal';
+
+interface ProposalPanelProps {
+  proposal: WorkflowProposal;
+  nodeLabels: Record<string, string>;
+  edges: any[];
+  onToggle: (index: number) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  onApply: () => void;
+}
+
+const OPERATION_BADGES: Record<WorkflowOperation['op'], { label: string; className: string }> = {
+  addNode: { label: 'Add', className: 'bg-emerald-100 text-emerald-700' },
+  updateNode: { label: 'Edit', className: 'bg-amber-100 text-amber-700' },
+  deleteNode: { label: 'Remove', className: 'bg-red-100 text-red-700' },
+  addEdge: { label: 'Link', className: 'bg-emerald-100 text-emerald-700' },
+  updateEdge: { label: 'Relink', className: 'bg-amber-100 text-amber-700' },
+  deleteEdge: { label: 'Unlink', className: 'bg-red-100 text-red-700' },
+};
+
+export const ProposalPanel: React.FC<ProposalPanelProps> = ({
+  proposal,
+  nodeLabels,
+  edges,
+  onToggle,
+  onAcceptAll,
+  onRejectAll,
+  onApply
+}) => {
+  const applyCount = proposal.operations.filter((_, i) => willApply(proposal, i)).length;
+
+  const labelFor = (id?: string) => {
+    if (!id) return '?';
+    if (nodeLabels[id]) return nodeLabels[id];
+    const added = proposal.operations.find(item => item.operation.op === 'addNode' && item.operation.id === id);
+    return added?.operation.label || id;
+  };
+
+  const describe = (op: WorkflowOperation) => {
+    const edge = edges.find(e => e.id === op.id);
+    switch (op.op) {
+      case 'addNode':
+        return <><span className="font-medium text-slate-800">{op.label || op.id}</span> <span className="text-[10px] uppercase tracking-wider text-slate-400">{op.type || 'logic'}</span></>;
+      case 'updateNode':
+        return <>
+          <span className="font-medium text-slate-800">{labelFor(op.id)}</span>
+          {op.label !== undefined && op.label !== nodeLabels[op.id] && <span className="text-slate-500"> → "{op.label}"</span>}
+          {op.details !== undefined && <span className="block text-xs text-slate-400 truncate">{op.details}</span>}
+        </>;
+      case 'deleteNode':
+        return <span className="font-medium text-slate-800 line-through">{labelFor(op.id)}</span>;
+      case 'addEdge':
+        return <>{labelFor(op.source)} → {labelFor(op.target)}{op.label && <span className="text-slate-400"> ({op.label})</span>}</>;
+      case 'updateEdge':
+      case 'deleteEdge':
+        return <>
+          {labelFor(op.source ?? edge?.source)} → {labelFor(op.target ?? edge?.target)}
+          {(op.label ?? edge?.label) && <span className="text-slate-400"> ({op.label ?? edge?.label})</span>}
+        </>;
+    }
+  };
+
+  return (
+    <div className="flex flex-col max-h-[calc(100vh-12rem)]">
+      <div className="flex items-center gap-2 text-indigo-700 font-semibold mb-1">
+        <GitPullRequest size={16} />
+        <span>Review Proposal</span>
+      </div>
+      <p className="text-xs text-slate-500 mb-3 line-clamp-2" title={proposal.request}>"{proposal.request}"</p>
+
+      {proposal.repairs.length > 0 && (
+        <details className="mb-3 text-xs bg-amber-50 border border-amber-200 rounded p-2 text-amber-800">
+          <summary className="cursor-pointer font-medium">Repaired {proposal.repairs.length} problem(s) in the AI response</summary>
+          <ul className="mt-1 space-y-0.5 font-mono">
+            {proposal.repairs.map((fix, i) => <li key={i}>{fix}</li>)}
+          </ul>
+        </details>
+      )}
+
+      <ul className="flex-1 overflow-y-auto -mx-1 px-1 space-y-1 min-h-0">
+        {proposal.operations.map(({ operation, accepted, issue }, index) => {
+          const blocker = issue ? undefined : getOperationBlocker(proposal, index);
+          const badge = OPERATION_BADGES[operation.op];
+          return (
+            <li key={index}>
+              <label className={`flex items-start gap-2 p-1.5 rounded text-sm ${issue ? 'opacity-60' : 'hover:bg-slate-50 cursor-pointer'}`}>
+                <input
+                  type="checkbox"
+                  checked={accepted && !issue}
+                  disabled={!!issue}
+                  onChange={() => onToggle(index)}
+                  className="mt-0.5 accent-indigo-600"
+                />
+                <span className={`mt-0.5 px-1.5 rounded text-[10px] font-bold uppercase ${badge.className}`}>{badge.label}</span>
+                <span className="flex-1 min-w-0 text-slate-700">
+                  {describe(operation)}
+                  {operation.reason && <span className="block text-xs text-slate-400 italic">{operation.reason}</span>}
+                  {issue && (
+                    <span className="flex items-center gap-1 text-xs text-red-600"><AlertTriangle size={10} /> {issue}</span>
+                  )}
+                  {accepted && blocker && (
+                    <span className="flex items-center gap-1 text-xs text-amber-600"><AlertTriangle size={10} /> {blocker}</span>
+                  )}
+                </span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2 mt-3">
+        <button onClick={onRejectAll} className="py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded flex items-center justify-center gap-1">
+          <X size={14} /> Reject All
+        </button>
+        <button onClick={onAcceptAll} className="py-2 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded flex items-center justify-center gap-1">
+          <Check size={14} /> Accept All
+        </button>
+      </div>
+      <button
+        onClick={onApply}
+        disabled={applyCount === 0}
+        className="mt-2 w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white py-2 px-4 rounded text-sm font-medium"
+      >
+        Apply {applyCount} Selected
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, X } from 'lucide-react';
+
+interface ReportModalProps {
+  title: string;
+  summary: string;
+  items: string[];
+  onClose: () => void;
+}
+
+export const ReportModal: React.FC<ReportModalProps> = ({ title, summary, items, onClose }) => {
+  const hasIssues = items.length > 0;
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-[60] p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col border border-slate-100" onClick={e => e.stopPropagation()}>
+        <div className="flex items-start justify-between p-6 pb-4">
+          <div className="flex items-center gap-3">
+            {hasIssues
+              ? <AlertTriangle className="w-6 h-6 text-amber-500 flex-shrink-0" />
+              : <CheckCircle className="w-6 h-6 text-emerald-500 flex-shrink-0" />}
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">{title}</h2>
+              <p className="text-sm text-slate-500">{summary}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+        {hasIssues && (
+          <ul className="flex-1 overflow-y-auto mx-6 mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs font-mono text-amber-900 space-y-1">
+            {items.map((item, i) => <li key={i}>{item}</li>)}
+          </ul>
+        )}
+        <div className="px-6 pb-6 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors">
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { Package, X, Download, FileCode } from 'lucide-react';
+import { buildScaffold } from '../services/scaffold';
+import { createZip } from '../services/zipWriter';
+import { downloadFile } from '../services/fileUtils';
+
+interface ScaffoldModalProps {
+  projectName: string;
+  nodes: any[];
+  edges: any[];
+  onClose: () => void;
+}
+
+export const ScaffoldModal: React.FC<ScaffoldModalProps> = ({ projectName, nodes, edges, onClose }) => {
+  const scaffold = useMemo(() => buildScaffold(projectName, nodes, edges), [projectName, nodes, edges]);
+  const [selectedPath, setSelectedPath] = useState(() => scaffold.files.find(f => f.path.endsWith('/README.md'))?.path ?? scaffold.files[0]?.path);
+  const selected = scaffold.files.find(f => f.path === selectedPath);
+  const prefix = `${scaffold.name}/`;
+
+  const handleDownload = () => {
+    downloadFile(`${scaffold.name}.zip`, createZip(scaffold.files));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col border border-slate-100" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 text-indigo-600">
+            <Package className="w-6 h-6" />
+            <div>
+              <h2 className="text-xl font-bold text-slate-800">Code Scaffold</h2>
+              <p className="text-sm text-slate-500">Vite + React client and Express API in TypeScript, {scaffold.files.length} files</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <ul className="w-64 flex-shrink-0 border-r border-slate-100 overflow-y-auto py-2 text-sm">
+            {scaffold.files.map(file => (
+              <li key={file.path}>
+                <button
+                  onClick={() => setSelectedPath(file.path)}
+                  className={`w-full text-left px-4 py-1.5 flex items-center gap-2 font-mono text-xs truncate ${file.path === selectedPath ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50'}`}
+                  title={file.path}
+                >
+                  <FileCode className="w-3.5 h-3.5 flex-shrink-0" />
+                  <span className="truncate">{file.path.slice(prefix.length)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <pre className="flex-1 overflow-auto p-4 bg-slate-900 text-slate-100 text-xs font-mono leading-relaxed">
+            {selected?.content}
+          </pre>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-400">Each stub carries its component's details and TODOs. Nothing is sent anywhere; the archive is built in your browser.</p>
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-2 px-5 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors flex-shrink-0"
+          >
+            <Download className="w-4 h-4" /> Download .zip
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
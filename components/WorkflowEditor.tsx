@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactFlow, { 
   addEdge, 
   Background, 
@@ -6,17 +6,34 @@ import ReactFlow, {
   Connection, 
   Edge, 
   Node,
+  NodeChange,
+  EdgeChange,
   useNodesState, 
   useEdgesState,
   ReactFlowProvider,
   Panel,
-  MarkerType
+  MarkerType,
+  ReactFlowInstance
 } from 'reactflow';
 import { WorkflowNode } from './CustomNodes';
-import { Wand2, Plus, Loader2, Save, Maximize2, Minimize2, Trash2, Edit2, ZoomIn } from 'lucide-react';
-import { WorkflowNodeData, NodeType, GenerationConfig } from '../types';
-import { AiService } from '../services/geminiService';
+import { Wand2, Plus, Loader2, Save, Maximize2, Minimize2, Trash2, Edit2, ZoomIn, Undo2, Redo2, LayoutGrid, Copy, Check, Download, ImageDown, Database, Tags } from 'lucide-react';
+import { WorkflowNodeData, NodeType, GenerationConfig, WorkflowProposal, AppFeature, DataEntity } from '../types';
+import { AiResponseError, AiService, isAbortError } from '../services/geminiService';
 import { LoadingOverlay } from './LoadingOverlay';
+import { useUndoRedo } from '../hooks/useUndoRedo';
+import { useAiRequest } from '../hooks/useAiRequest';
+import { ProposalPanel } from './ProposalPanel';
+import { applyProposal, buildProposal, getProposalPreview } from '../services/workflowProposal';
+import { LayoutDirection, detectDirection, layoutGraph, placeNewNodes } from '../services/graphLayout';
+import { GraphValidationError, validateWorkflowOperations } from '../services/graphValidation';
+import { ReportModal } from './ReportModal';
+import { DIAGRAM_FORMATS, DiagramFormat, exportDiagram } from '../services/diagramExport';
+import { downloadFile } from '../services/fileUtils';
+import { ImageExportModal } from './ImageExportModal';
+import { EntityEditor } from './EntityEditor';
+import { DataModelModal } from './DataModelModal';
+import { collectEntities, sanitizeEntities } from '../services/dataModel';
+import { featureCoverage, featureTags } from '../services/featureCoverage';
 
 const nodeTypes = {
   view: WorkflowNode,
@@ -29,6 +46,12 @@ interface WorkflowEditorProps {
   initialNodes: any[];
   initialEdges: any[];
   geminiService: AiService;
+  // Context for inferring the data model and checking feature coverage
+  idea: string;
+  features: AppFeature[];
+  // Changes prepared outside the editor, opened for review on mount
+  initialProposal?: WorkflowProposal;
+  onInitialProposalResolved?: (applied: boolean) => void;
   onSave: (nodes: Node[], edges: Edge[], summaryLength: GenerationConfig['summaryLength']) => void;
   onGraphUpdate: (nodes: Node[], edges: Edge[]) => void;
 }
@@ -37,6 +60,10 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
   initialNodes, 
   initialEdges, 
   geminiService,
+  idea,
+  features,
+  initialProposal,
+  onInitialProposalResolved,
   onSave,
   onGraphUpdate
 }) => {
@@ -44,23 +71,88 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const [prompt, setPrompt] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const aiRequest = useAiRequest();
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [summaryLength, setSummaryLength] = useState<GenerationConfig['summaryLength']>('short');
+  const [exportFormat, setExportFormat] = useState<DiagramFormat>('mermaid');
+  const [copiedExport, setCopiedExport] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+  const [isDataModelOpen, setIsDataModelOpen] = useState(false);
+  const [isCoverageOpen, setIsCoverageOpen] = useState(false);
+  const [highlightedFeature, setHighlightedFeature] = useState<string | null>(null);
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>(() => detectDirection(initialNodes));
+  const [flowInstance, setFlowInstance] = useState<ReactFlowInstance | null>(null);
   
   // Selection & Editing State
   const [selectedElement, setSelectedElement] = useState<{id: string, type: 'node' | 'edge'} | null>(null);
   const [editingNode, setEditingNode] = useState<Node | null>(null);
   const [editingEdge, setEditingEdge] = useState<Edge | null>(null);
+  const [draftEntities, setDraftEntities] = useState<DataEntity[]>([]);
+  const [draftFeatureIds, setDraftFeatureIds] = useState<string[]>([]);
+
+  // Pending AI extension, shown as a ghost overlay until reviewed
+  const [proposal, setProposal] = useState<WorkflowProposal | null>(initialProposal ?? null);
+  const isInitialProposal = useRef(!!initialProposal);
+  const [editorError, setEditorError] = useState<{ title: string; summary: string } | null>(null);
+
+  const { undo, redo, takeSnapshot, canUndo, canRedo } = useUndoRedo(nodes, edges, setNodes, setEdges);
+
+  // React Flow measures ghost nodes like any other; keep their sizes so ghost edges can render
+  const [ghostSizes, setGhostSizes] = useState<Record<string, { width: number; height: number }>>({});
+
+  const preview = useMemo(() => {
+    if (!proposal) return { nodes, edges };
+    const result = getProposalPreview(proposal, nodes, edges);
+    return {
+      nodes: result.nodes.map(n => n.data.pendingChange === 'add' && ghostSizes[n.id] ? { ...n, ...ghostSizes[n.id] } : n),
+      edges: result.edges,
+    };
+  }, [nodes, edges, proposal, ghostSizes]);
+
+  const tags = useMemo(() => featureTags(features), [features]);
+  const coverage = useMemo(() => featureCoverage(features, nodes), [features, nodes]);
+
+  // Feature tags and highlighting are derived for display and never stored
+  const displayNodes = useMemo(() => preview.nodes.map(n => {
+    const linked: string[] = (n.data.featureIds ?? []).filter((id: string) => tags[id]);
+    const highlight = highlightedFeature ? (linked.includes(highlightedFeature) ? 'match' : 'dim') : undefined;
+    if (linked.length === 0 && !highlight) return n;
+    return { ...n, data: { ...n.data, featureTags: linked.map(id => tags[id]), ...(highlight ? { highlight } : {}) } };
+  }), [preview.nodes, tags, highlightedFeature]);
 
   // Sync internal state to parent on change
   useEffect(() => {
     onGraphUpdate(nodes, edges);
   }, [nodes, edges, onGraphUpdate]);
 
-  const onConnect = useCallback((params: Connection) => setEdges((eds) => addEdge({
-    ...params,
-    markerEnd: { type: MarkerType.ArrowClosed }
-  }, eds)), [setEdges]);
+  const onConnect = useCallback((params: Connection) => {
+    takeSnapshot();
+    setEdges((eds) => addEdge({
+      ...params,
+      markerEnd: { type: MarkerType.ArrowClosed }
+    }, eds));
+  }, [setEdges, takeSnapshot]);
+
+  // Keyboard deletes arrive as change events; record history before they apply
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    const ghostIds = new Set(
+      proposal?.operations.filter(item => item.operation.op === 'addNode').map(item => item.operation.id) || []
+    );
+    changes.forEach(c => {
+      if (c.type === 'dimensions' && c.dimensions && ghostIds.has(c.id)) {
+        const { width, height } = c.dimensions;
+        setGhostSizes(sizes => ({ ...sizes, [c.id]: { width, height } }));
+      }
+    });
+    const graphChanges = changes.filter(c => !('id' in c) || !ghostIds.has(c.id));
+    if (graphChanges.some(c => c.type === 'remove')) takeSnapshot();
+    onNodesChange(graphChanges);
+  }, [onNodesChange, takeSnapshot, proposal]);
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    if (changes.some(c => c.type === 'remove')) takeSnapshot();
+    onEdgesChange(changes);
+  }, [onEdgesChange, takeSnapshot]);
 
   const onSelectionChange = useCallback(({ nodes, edges }: { nodes: Node[], edges: Edge[] }) => {
     if (nodes.length > 0) {
@@ -74,6 +166,7 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
 
   const deleteSelected = useCallback(() => {
     if (!selectedElement) return;
+    takeSnapshot();
     if (selectedElement.type === 'node') {
       setNodes((nds) => nds.filter((n) => n.id !== selectedElement.id));
       setSelectedElement(null);
@@ -81,10 +174,13 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
       setEdges((eds) => eds.filter((e) => e.id !== selectedElement.id));
       setSelectedElement(null);
     }
-  }, [selectedElement, setNodes, setEdges]);
+  }, [selectedElement, setNodes, setEdges, takeSnapshot]);
 
   const handleNodeDoubleClick = (event: React.MouseEvent, node: Node) => {
+    if (node.data.pendingChange === 'add') return;
     setEditingNode(node);
+    setDraftEntities(node.data.entities ?? []);
+    setDraftFeatureIds(node.data.featureIds ?? []);
   };
 
   const handleEdgeClick = (event: React.MouseEvent, edge: Edge) => {
@@ -94,17 +190,55 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
 
   const saveNodeEdit = (label: string, details: string) => {
     if (!editingNode) return;
+    // Unnamed rows are dropped and names normalised the same way as imported entities
+    const entities = editingNode.data.type === 'database' ? sanitizeEntities(draftEntities, 'entities', []) : [];
+    takeSnapshot();
     setNodes((nds) => nds.map((n) => {
       if (n.id === editingNode.id) {
-        return { ...n, data: { ...n.data, label, details } };
+        const { entities: _previous, featureIds: _linked, ...data } = n.data;
+        return {
+          ...n,
+          data: {
+            ...data,
+            label,
+            details,
+            ...(entities.length > 0 ? { entities } : {}),
+            ...(draftFeatureIds.length > 0 ? { featureIds: draftFeatureIds } : {}),
+          },
+        };
       }
       return n;
     }));
     setEditingNode(null);
   };
 
+  const toggleDraftFeature = (id: string) =>
+    setDraftFeatureIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+
+  // Highlights a feature's nodes and frames them; clicking it again clears the highlight
+  const focusFeature = (id: string) => {
+    if (highlightedFeature === id) {
+      setHighlightedFeature(null);
+      return;
+    }
+    setHighlightedFeature(id);
+    const ids = coverage.nodesByFeature[id] ?? [];
+    if (ids.length > 0) flowInstance?.fitView({ nodes: ids.map(nodeId => ({ id: nodeId })), duration: 300, padding: 0.3, maxZoom: 1.2 });
+  };
+
+  const focusNode = (id: string) => {
+    setHighlightedFeature(null);
+    flowInstance?.fitView({ nodes: [{ id }], duration: 300, padding: 0.5, maxZoom: 1.2 });
+  };
+
+  const applyDataModel = (entities: Record<string, DataEntity[]>) => {
+    takeSnapshot();
+    setNodes((nds) => nds.map(n => entities[n.id] ? { ...n, data: { ...n.data, entities: entities[n.id] } } : n));
+  };
+
   const saveEdgeEdit = (label: string) => {
     if (!editingEdge) return;
+    takeSnapshot();
     setEdges((eds) => eds.map((e) => {
       if (e.id === editingEdge.id) {
         return { ...e, label };
@@ -119,52 +253,122 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
     const newNode: Node = {
       id,
       type,
-      position: { x: Math.random() * 400 + 50, y: Math.random() * 400 + 50 },
+      position: { x: 0, y: 0 },
       data: { 
         label: 'New Node', 
         details: 'Double click to edit', 
         type 
       },
     };
-    setNodes((nds) => nds.concat(newNode));
+    takeSnapshot();
+    setNodes((nds) => placeNewNodes(nds.concat(newNode), edges, new Set([id]), { direction: layoutDirection }));
+  };
+
+  const tidyUp = (direction: LayoutDirection) => {
+    takeSnapshot();
+    setLayoutDirection(direction);
+    setNodes((nds) => layoutGraph(nds, edges, { direction }));
+    // Wait for React Flow to pick up the new positions before framing them
+    setTimeout(() => flowInstance?.fitView({ duration: 300 }), 50);
   };
 
   const handleAIAssist = async () => {
     if (!prompt.trim()) return;
     setIsProcessing(true);
+    const options = aiRequest.start();
     try {
-      const result = await geminiService.extendWorkflow(nodes, edges, prompt);
-      
-      const newNodes = result.nodes.map((n: any) => ({
-        ...n,
-        position: { x: n.x, y: n.y },
-        data: { ...n, type: n.type || 'logic', isNew: true },
-      }));
-
-      const newEdges = result.edges.map((e: any) => ({
-        ...e,
-        markerEnd: { type: MarkerType.ArrowClosed }
-      }));
-
-      setNodes((prev) => [...prev, ...newNodes]);
-      setEdges((prev) => [...prev, ...newEdges]);
+      const result = await geminiService.extendWorkflow(nodes, edges, prompt, features, options);
+      const { operations, fixes } = validateWorkflowOperations(result, features);
+      if (operations.length === 0) {
+        setEditorError({ title: "Could not update the workflow", summary: "The AI did not propose any changes. Try rephrasing the request." });
+        return;
+      }
+      setProposal(buildProposal(operations, nodes, edges, prompt, fixes));
       setPrompt('');
-      
-      setTimeout(() => {
-        setNodes((nds) => nds.map(n => ({
-          ...n,
-          data: { ...n.data, isNew: false }
-        })));
-      }, 3000);
-
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to extend workflow", error);
-      alert("AI failed to generate changes. Try a simpler request.");
+      setEditorError({
+        title: "Could not update the workflow",
+        summary: error instanceof GraphValidationError || error instanceof AiResponseError
+          ? `${error.message} Try a simpler request.`
+          : "AI failed to generate changes. Try a simpler request.",
+      });
     } finally {
-      setIsProcessing(false);
+      if (aiRequest.finish(options)) setIsProcessing(false);
     }
   };
 
+  const cancelAIAssist = () => {
+    aiRequest.cancel();
+    setIsProcessing(false);
+  };
+
+  // --- Diagram Export ---
+
+  const copyDiagram = async () => {
+    try {
+      await navigator.clipboard.writeText(exportDiagram(exportFormat, nodes, edges));
+      setCopiedExport(true);
+      setTimeout(() => setCopiedExport(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy diagram", error);
+      setEditorError({ title: "Could not copy the diagram", summary: "The browser blocked clipboard access. Use the download button instead." });
+    }
+  };
+
+  const downloadDiagram = () => {
+    const { extension, mimeType } = DIAGRAM_FORMATS[exportFormat];
+    downloadFile(`workflow${extension}`, exportDiagram(exportFormat, nodes, edges), mimeType);
+  };
+
+  const toggleProposedOperation = (index: number) => {
+    setProposal(p => p && {
+      ...p,
+      operations: p.operations.map((item, i) => i === index ? { ...item, accepted: !item.accepted } : item)
+    });
+  };
+
+  const resolveInitialProposal = (applied: boolean) => {
+    if (!isInitialProposal.current) return;
+    isInitialProposal.current = false;
+    onInitialProposalResolved?.(applied);
+  };
+
+  const commitProposal = (accepted: WorkflowProposal) => {
+    const result = applyProposal(accepted, nodes, edges);
+    // Existing nodes stay pinned; only the additions get positioned around them
+    const existingIds = new Set(nodes.map(n => n.id));
+    const addedIds = new Set(result.nodes.filter(n => !existingIds.has(n.id)).map(n => n.id));
+    // The whole extension is one history entry
+    takeSnapshot();
+    setNodes(placeNewNodes(result.nodes, result.edges, addedIds, { direction: layoutDirection }));
+    setEdges(result.edges);
+    setProposal(null);
+    setGhostSizes({});
+    resolveInitialProposal(true);
+
+    setTimeout(() => {
+      setNodes((nds) => nds.map(n => ({
+        ...n,
+        data: { ...n.data, isNew: false }
+      })));
+    }, 3000);
+  };
+
+  const acceptAllProposed = () => {
+    if (!proposal) return;
+    commitProposal({
+      ...proposal,
+      operations: proposal.operations.map(item => ({ ...item, accepted: true })),
+    });
+  };
+
+  const nodeLabels = useMemo(
+    () => Object.fromEntries(nodes.map(n => [n.id, n.data?.label || n.id])),
+    [nodes]
+  );
+
   return (
     <div className={`
       border border-slate-200 bg-slate-50 relative overflow-hidden shadow-inner transition-all duration-300
@@ -173,20 +377,53 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
         : 'w-full h-[600px] rounded-xl'
       }
     `}>
-      {isProcessing && <LoadingOverlay message="Updating Workflow..." />}
+      {isProcessing && (
+        <LoadingOverlay
+          message="Updating Workflow..."
+          attempt={aiRequest.progress?.attempt}
+          maxAttempts={aiRequest.progress?.maxAttempts}
+          onCancel={cancelAIAssist}
+        />
+      )}
+      {isImageExportOpen && (
+        <ImageExportModal nodes={nodes} edges={edges} onClose={() => setIsImageExportOpen(false)} />
+      )}
+      {isDataModelOpen && (
+        <DataModelModal
+          idea={idea}
+          features={features}
+          nodes={nodes}
+          edges={edges}
+          aiService={geminiService}
+          onApply={applyDataModel}
+          onClose={() => setIsDataModelOpen(false)}
+        />
+      )}
+      {editorError && (
+        <ReportModal
+          title={editorError.title}
+          summary={editorError.summary}
+          items={[]}
+          onClose={() => setEditorError(null)}
+        />
+      )}
 
       <ReactFlowProvider>
         <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
+          nodes={displayNodes}
+          edges={preview.edges}
+          onNodesChange={handleNodesChange}
+          onEdgesChange={handleEdgesChange}
           onConnect={onConnect}
+          onNodeDragStart={takeSnapshot}
+          onSelectionDragStart={takeSnapshot}
           nodeTypes={nodeTypes}
           onSelectionChange={onSelectionChange}
           onNodeDoubleClick={handleNodeDoubleClick}
           onEdgeClick={handleEdgeClick}
+          onPaneClick={() => setHighlightedFeature(null)}
           deleteKeyCode={["Backspace", "Delete"]}
+          onInit={setFlowInstance}
           fitView
           attributionPosition="bottom-right"
         >
@@ -198,12 +435,72 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
             <div className="bg-white p-2 rounded-lg shadow-lg border border-slate-200">
               <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Tools</div>
               <div className="flex flex-col gap-2">
+                 <div className="grid grid-cols-2 gap-2">
+                   <button
+                     onClick={undo}
+                     disabled={!canUndo}
+                     title="Undo (Ctrl+Z)"
+                     className="p-2 text-xs bg-slate-50 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-slate-50 text-slate-700 rounded border border-slate-200 flex items-center justify-center gap-1"
+                   >
+                     <Undo2 size={12} /> Undo
+                   </button>
+                   <button
+                     onClick={redo}
+                     disabled={!canRedo}
+                     title="Redo (Ctrl+Shift+Z)"
+                     className="p-2 text-xs bg-slate-50 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-slate-50 text-slate-700 rounded border border-slate-200 flex items-center justify-center gap-1"
+                   >
+                     <Redo2 size={12} /> Redo
+                   </button>
+                 </div>
                  <div className="grid grid-cols-2 gap-2">
                    <button onClick={() => addManualNode('view')} className="p-2 text-xs bg-blue-50 hover:bg-blue-100 text-blue-700 rounded border border-blue-200">View</button>
                    <button onClick={() => addManualNode('logic')} className="p-2 text-xs bg-amber-50 hover:bg-amber-100 text-amber-700 rounded border border-amber-200">Logic</button>
                    <button onClick={() => addManualNode('database')} className="p-2 text-xs bg-emerald-50 hover:bg-emerald-100 text-emerald-700 rounded border border-emerald-200">Data</button>
                    <button onClick={() => addManualNode('userAction')} className="p-2 text-xs bg-purple-50 hover:bg-purple-100 text-purple-700 rounded border border-purple-200">Action</button>
                  </div>
+                 <div className="flex gap-1">
+                   <button
+                     onClick={() => tidyUp(layoutDirection)}
+                     disabled={nodes.length === 0}
+                     title="Auto-arrange the whole diagram"
+                     className="flex-1 p-2 text-xs bg-slate-50 hover:bg-slate-100 disabled:opacity-40 text-slate-700 rounded border border-slate-200 flex items-center justify-center gap-1"
+                   >
+                     <LayoutGrid size={12} /> Tidy up
+                   </button>
+                   <select
+                     value={layoutDirection}
+                     onChange={(e) => tidyUp(e.target.value as LayoutDirection)}
+                     disabled={nodes.length === 0}
+                     title="Layout direction"
+                     className="text-xs bg-slate-50 border border-slate-200 rounded px-1 outline-none text-slate-700"
+                   >
+                     <option value="TB">↓ Top-down</option>
+                     <option value="LR">→ Left-right</option>
+                   </select>
+                 </div>
+                 <button
+                   onClick={() => setIsDataModelOpen(true)}
+                   title="Entities, ER diagram and schema exports"
+                   className="w-full p-2 text-xs bg-emerald-50 hover:bg-emerald-100 text-emerald-700 rounded border border-emerald-200 flex items-center justify-center gap-1"
+                 >
+                   <Database size={12} /> Data Model
+                 </button>
+                 <button
+                   onClick={() => {
+                     setIsCoverageOpen(!isCoverageOpen);
+                     setHighlightedFeature(null);
+                   }}
+                   title="Which nodes implement which features"
+                   className={`w-full p-2 text-xs rounded border flex items-center justify-center gap-1 ${isCoverageOpen ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border-indigo-200'}`}
+                 >
+                   <Tags size={12} /> Coverage
+                   {coverage.uncoveredFeatures.length > 0 && (
+                     <span className={`ml-1 px-1 rounded-full text-[10px] font-bold ${isCoverageOpen ? 'bg-white text-indigo-700' : 'bg-red-100 text-red-700'}`}>
+                       {coverage.uncoveredFeatures.length}
+                     </span>
+                   )}
+                 </button>
                  {selectedElement && (
                    <button 
                      onClick={deleteSelected}
@@ -214,6 +511,52 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
                  )}
               </div>
             </div>
+
+            {isCoverageOpen && (
+              <div className="bg-white p-2 rounded-lg shadow-lg border border-slate-200 w-56 max-h-80 overflow-y-auto">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Coverage</span>
+                  <span className="text-xs text-slate-400">{features.length - coverage.uncoveredFeatures.length} of {features.length} features</span>
+                </div>
+                {features.length === 0 ? (
+                  <p className="text-xs text-slate-400">No features selected.</p>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {features.map(feature => {
+                      const count = coverage.nodesByFeature[feature.id].length;
+                      return (
+                        <li key={feature.id}>
+                          <button
+                            onClick={() => focusFeature(feature.id)}
+                            disabled={count === 0}
+                            className={`w-full flex items-center gap-2 text-left text-xs px-1.5 py-1 rounded ${highlightedFeature === feature.id ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-700 hover:bg-slate-50'}`}
+                          >
+                            <span className={`w-2.5 h-2.5 rounded-full border flex-shrink-0 ${tags[feature.id].color}`} />
+                            <span className="flex-1 truncate">{feature.title}</span>
+                            <span className={count === 0 ? 'text-red-600 font-semibold' : 'text-slate-400'}>{count === 0 ? 'no nodes' : count}</span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {coverage.unlinkedNodes.length > 0 && (
+                  <>
+                    <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mt-3 mb-1">Nodes without a feature</div>
+                    <ul className="space-y-0.5">
+                      {coverage.unlinkedNodes.map(node => (
+                        <li key={node.id}>
+                          <button onClick={() => focusNode(node.id)} className="w-full text-left text-xs px-1.5 py-1 rounded text-slate-600 hover:bg-slate-50 truncate">
+                            {node.data?.label || node.id}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                <p className="text-[11px] text-slate-400 mt-2">Double-click a node to change the features it implements.</p>
+              </div>
+            )}
           </Panel>
 
           {/* AI Assistant */}
@@ -231,24 +574,63 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
                  {isFullScreen ? <Minimize2 size={16} /> : <Maximize2 size={16} />}
                </button>
              </div>
-             <textarea 
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                placeholder="e.g., 'Add a user authentication step before the dashboard'"
-                className="w-full p-2 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-indigo-500 outline-none mb-2 h-20 resize-none"
-             />
-             <button 
-                onClick={handleAIAssist}
-                disabled={isProcessing || !prompt}
-                className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white py-2 px-4 rounded text-sm font-medium flex items-center justify-center gap-2"
-             >
-                {isProcessing ? <Loader2 className="animate-spin w-4 h-4" /> : <Plus className="w-4 h-4" />}
-                Add to Workflow
-             </button>
+             {proposal ? (
+               <ProposalPanel
+                 proposal={proposal}
+                 nodeLabels={nodeLabels}
+                 edges={edges}
+                 onToggle={toggleProposedOperation}
+                 onAcceptAll={acceptAllProposed}
+                 onRejectAll={() => {
+                   setProposal(null);
+                   setGhostSizes({});
+                   resolveInitialProposal(false);
+                 }}
+                 onApply={() => commitProposal(proposal)}
+               />
+             ) : (
+               <>
+                 <textarea 
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    placeholder="e.g., 'Add a user authentication step before the dashboard'"
+                    className="w-full p-2 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-indigo-500 outline-none mb-2 h-20 resize-none"
+                 />
+                 <button 
+                    onClick={handleAIAssist}
+                    disabled={isProcessing || !prompt}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white py-2 px-4 rounded text-sm font-medium flex items-center justify-center gap-2"
+                 >
+                    {isProcessing ? <Loader2 className="animate-spin w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                    Add to Workflow
+                 </button>
+               </>
+             )}
           </Panel>
           
           {/* Bottom Save Bar */}
           <Panel position="bottom-center" className="bg-white p-2 rounded-full shadow-xl border border-slate-200 mb-4 flex items-center gap-3">
+             <div className="flex items-center gap-1 px-2 border-r border-slate-200">
+               <span className="text-xs font-semibold text-slate-500">Export:</span>
+               <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as DiagramFormat)}
+                className="text-sm bg-transparent outline-none font-medium text-slate-700"
+               >
+                 {(Object.keys(DIAGRAM_FORMATS) as DiagramFormat[]).map(format => (
+                   <option key={format} value={format}>{DIAGRAM_FORMATS[format].label}</option>
+                 ))}
+               </select>
+               <button onClick={copyDiagram} disabled={nodes.length === 0} className="p-1.5 rounded-full text-slate-600 hover:bg-slate-100 disabled:opacity-40" title="Copy to clipboard">
+                 {copiedExport ? <Check size={16} className="text-emerald-600" /> : <Copy size={16} />}
+               </button>
+               <button onClick={downloadDiagram} disabled={nodes.length === 0} className="p-1.5 rounded-full text-slate-600 hover:bg-slate-100 disabled:opacity-40" title="Download file">
+                 <Download size={16} />
+               </button>
+               <button onClick={() => setIsImageExportOpen(true)} disabled={nodes.length === 0} className="p-1.5 rounded-full text-slate-600 hover:bg-slate-100 disabled:opacity-40" title="Export as PNG or SVG image">
+                 <ImageDown size={16} />
+               </button>
+             </div>
              <div className="flex items-center gap-2 px-2 border-r border-slate-200">
                <span className="text-xs font-semibold text-slate-500">Summary:</span>
                <select 
@@ -273,7 +655,10 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
         {/* Edit Node Modal */}
         {editingNode && (
           <div className="absolute inset-0 bg-black/40 flex items-center justify-center z-50 p-4" onClick={() => setEditingNode(null)}>
-            <div className="bg-white p-6 rounded-xl shadow-2xl w-full max-w-sm" onClick={e => e.stopPropagation()}>
+            <div
+              className={`bg-white p-6 rounded-xl shadow-2xl w-full ${editingNode.data.type === 'database' ? 'max-w-3xl max-h-full overflow-y-auto' : 'max-w-sm'}`}
+              onClick={e => e.stopPropagation()}
+            >
               <h3 className="text-lg font-bold mb-4">Edit Component</h3>
               <div className="mb-4">
                 <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Label</label>
@@ -292,6 +677,37 @@ export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
                   className="w-full border border-slate-300 rounded p-2 h-24 focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
                 />
               </div>
+              {features.length > 0 && (
+                <div className="mb-6">
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Implements</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {features.map(feature => (
+                      <label
+                        key={feature.id}
+                        className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full border cursor-pointer ${draftFeatureIds.includes(feature.id) ? tags[feature.id].color : 'bg-white text-slate-500 border-slate-200'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={draftFeatureIds.includes(feature.id)}
+                          onChange={() => toggleDraftFeature(feature.id)}
+                          className="accent-indigo-600"
+                        />
+                        {feature.title}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {editingNode.data.type === 'database' && (
+                <div className="mb-6">
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Entities</label>
+                  <EntityEditor
+                    entities={draftEntities}
+                    otherEntityNames={collectEntities(nodes.filter(n => n.id !== editingNode.id)).map(item => item.entity.name)}
+                    onChange={setDraftEntities}
+                  />
+                </div>
+              )}
               <div className="flex justify-end gap-2">
                 <button onClick={() => setEditingNode(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">Cancel</button>
                 <button 
@@ -0,0 +1,34 @@
+import { GenerationConfig, GraphData, NodeType, RetryPolicy } from './types';
+
+export const DEFAULT_CONFIG: GenerationConfig = {
+  featureStyle: 'standard',
+  workflowComplexity: 'simple',
+  workflowType: 'full-stack',
+  summaryLength: 'short',
+  productScope: 'mvp',
+  workflowRelease: 'all',
+};
+
+// Description given to features added by title only, until one is written
+export const CUSTOM_FEATURE_DESCRIPTION = 'User defined feature';
+
+export const createEmptyGraph = (): GraphData => ({
+  nodes: [],
+  edges: [],
+  isGenerated: false,
+  version: 0,
+});
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+};
+
+// Hex versions of the Tailwind colors WorkflowNode uses (50 fill, 400 border,
+// 900 text), for exports that cannot use CSS classes.
+export const NODE_PALETTE: Record<NodeType, { fill: string; stroke: string; text: string }> = {
+  view: { fill: '#eff6ff', stroke: '#60a5fa', text: '#1e3a8a' },
+  database: { fill: '#ecfdf5', stroke: '#34d399', text: '#064e3b' },
+  logic: { fill: '#fffbeb', stroke: '#fbbf24', text: '#78350f' },
+  userAction: { fill: '#faf5ff', stroke: '#c084fc', text: '#581c87' },
+};
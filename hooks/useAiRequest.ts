@@ -0,0 +1,42 @@
+import { useCallback, useRef, useState } from 'react';
+import { AiRequestOptions } from '../types';
+
+export interface AttemptProgress {
+  attempt: number;
+  maxAttempts: number;
+}
+
+// Tracks the in-flight AI request so it can report retry attempts and be cancelled.
+export const useAiRequest = () => {
+  const [progress, setProgress] = useState<AttemptProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback((): AiRequestOptions => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress(null);
+    return {
+      signal: controller.signal,
+      onAttempt: (attempt, maxAttempts) => {
+        if (controllerRef.current === controller) setProgress({ attempt, maxAttempts });
+      },
+    };
+  }, []);
+
+  // Returns false if the request was cancelled or superseded in the meantime
+  const finish = useCallback((options: AiRequestOptions) => {
+    if (controllerRef.current?.signal !== options.signal) return false;
+    controllerRef.current = null;
+    setProgress(null);
+    return true;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  return { progress, start, finish, cancel };
+};
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Edge, Node } from 'reactflow';
+
+interface HistoryEntry {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+interface UseUndoRedoOptions {
+  maxHistorySize?: number;
+  enableShortcuts?: boolean;
+}
+
+const isTextInput = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Snapshot based history for a React Flow graph. Call takeSnapshot() right
+// before any change that should be undoable; everything applied until the next
+// snapshot is undone as a single step.
+export const useUndoRedo = (
+  nodes: Node[],
+  edges: Edge[],
+  setNodes: (nodes: Node[]) => void,
+  setEdges: (edges: Edge[]) => void,
+  { maxHistorySize = 100, enableShortcuts = true }: UseUndoRedoOptions = {}
+) => {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+
+  const takeSnapshot = useCallback(() => {
+    setPast(p => {
+      const last = p[p.length - 1];
+      // One user action can fire several change handlers (deleting a node also removes its edges)
+      if (last && last.nodes === nodes && last.edges === edges) return p;
+      return [...p.slice(Math.max(0, p.length - maxHistorySize + 1)), { nodes, edges }];
+    });
+    setFuture([]);
+  }, [nodes, edges, maxHistorySize]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+    setPast(past.slice(0, -1));
+    setFuture(f => [...f, { nodes, edges }]);
+    setNodes(previous.nodes);
+    setEdges(previous.edges);
+  }, [past, nodes, edges, setNodes, setEdges]);
+
+  const redo = useCallback(() => {
+    const next = future[future.length - 1];
+    if (!next) return;
+    setFuture(future.slice(0, -1));
+    setPast(p => [...p, { nodes, edges }]);
+    setNodes(next.nodes);
+    setEdges(next.edges);
+  }, [future, nodes, edges, setNodes, setEdges]);
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && event.shiftKey) {
+        event.preventDefault();
+        redo();
+      } else if (key === 'z') {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  return {
+    undo,
+    redo,
+    takeSnapshot,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+};
@@ -0,0 +1,316 @@
+import { AppFeature, GenerationConfig } from "../types";
+import { toMermaid } from "./diagramExport";
+import { featuresForRelease } from "./prioritization";
+import { escapeXml, rasterizeSvg, renderDiagramSvg } from "./diagramSvg";
+import { MarkdownBlock, MarkdownInline, TOC_MIN_HEADINGS, markdownOutline, parseMarkdown, renderMarkdownHtml } from "./markdown";
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfTextStyle, PdfWriter } from "./pdfWriter";
+
+// Exports of the finished architecture brief. Everything is generated in the
+// browser; nothing about the project leaves the machine.
+
+export interface ArchitectureBrief {
+  idea: string;
+  config: GenerationConfig;
+  features: AppFeature[];
+  description: string;
+  nodes: any[];
+  edges: any[];
+}
+
+export type BriefFormat = 'markdown' | 'html' | 'pdf';
+
+export const BRIEF_FORMATS: Record<BriefFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: '.md', mimeType: 'text/markdown' },
+  html: { label: 'HTML', extension: '.html', mimeType: 'text/html' },
+  pdf: { label: 'PDF', extension: '.pdf', mimeType: 'application/pdf' },
+};
+
+const CONFIG_LABELS: { [K in keyof GenerationConfig]: [string, Record<GenerationConfig[K], string>] } = {
+  productScope: ['Product scope', { mvp: 'MVP', complete: 'Complete product' }],
+  featureStyle: ['Feature style', { standard: 'Standard', creative: 'Creative' }],
+  workflowComplexity: ['Diagram complexity', { simple: 'Simple', complex: 'Complex' }],
+  workflowType: ['Architecture focus', { 'full-stack': 'Full stack', 'frontend-only': 'Frontend only', 'backend-focus': 'Backend focus' }],
+  summaryLength: ['Summary length', { short: 'Short', detailed: 'Detailed' }],
+  workflowRelease: ['Release', { all: 'All selected features', mvp: 'MVP', v1: 'v1 (with the MVP)', v2: 'v2 (with the MVP and v1)' }],
+};
+
+const configRows = (config: GenerationConfig) =>
+  (Object.keys(CONFIG_LABELS) as (keyof GenerationConfig)[]).map(key => {
+    const [label, values] = CONFIG_LABELS[key];
+    return [label, (values as Record<string, string>)[config[key]] ?? String(config[key])];
+  });
+
+// The features the workflow was generated from
+const selectedFeatures = (brief: ArchitectureBrief) => featuresForRelease(brief.features, brief.config.workflowRelease);
+
+const briefTitle = (brief: ArchitectureBrief) => brief.idea.trim() || 'Untitled project';
+
+const generatedOn = () => new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// --- Markdown ---
+
+const markdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+
+export const buildBriefMarkdown = (brief: ArchitectureBrief) => {
+  const lines = [
+    `# ${briefTitle(brief)}`,
+    '',
+    `_Architecture brief generated on ${generatedOn()}_`,
+    '',
+    '## Configuration',
+    '',
+    '| Setting | Value |',
+    '| --- | --- |',
+    ...configRows(brief.config).map(([label, value]) => `| ${label} | ${markdownCell(value)} |`),
+    '',
+    '## Features',
+    '',
+  ];
+  const features = selectedFeatures(brief);
+  if (features.length === 0) lines.push('_No features selected._');
+  features.forEach(f => lines.push(`- **${f.title.trim()}**${f.description.trim() ? ` — ${f.description.trim()}` : ''}`));
+
+  lines.push('', '## Architecture Diagram', '');
+  if (brief.nodes.length > 0) {
+    lines.push('```mermaid', toMermaid(brief.nodes, brief.edges).trimEnd(), '```');
+  } else {
+    lines.push('_The workflow diagram is empty._');
+  }
+
+  lines.push('', '## Technical Summary', '', brief.description.trim() || '_No summary was generated._', '');
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #334155; background: #f8fafc; margin: 0; }
+  main { max-width: 960px; margin: 0 auto; padding: 48px 24px; }
+  header { background: #0f172a; color: #fff; border-radius: 12px; padding: 32px; margin-bottom: 32px; }
+  header h1 { margin: 0 0 8px; font-size: 28px; }
+  header p { margin: 0; color: #94a3b8; font-size: 14px; }
+  section { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 24px 32px; margin-bottom: 24px; }
+  h2 { color: #0f172a; font-size: 20px; margin-top: 0; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  td { border-bottom: 1px solid #e2e8f0; padding: 8px 0; }
+  td:first-child { color: #64748b; width: 40%; }
+  li { margin-bottom: 8px; line-height: 1.5; }
+  .diagram { overflow-x: auto; }
+  .diagram svg { max-width: 100%; height: auto; }
+  .summary { line-height: 1.7; }
+  .summary h1, .summary h2, .summary h3 { color: #0f172a; margin: 1.6em 0 0.6em; }
+  .summary h2 { font-size: 18px; }
+  .summary h3 { font-size: 16px; }
+  .summary code { background: #f1f5f9; border-radius: 4px; padding: 1px 4px; font-size: 0.9em; }
+  .summary pre { background: #0f172a; color: #f1f5f9; border-radius: 8px; padding: 16px; overflow-x: auto; }
+  .summary pre code { background: none; padding: 0; }
+  .summary blockquote { border-left: 4px solid #cbd5e1; margin-left: 0; padding-left: 16px; color: #475569; }
+  .summary th, .summary td { border: 1px solid #e2e8f0; padding: 6px 10px; width: auto; color: inherit; }
+  .summary th { background: #f8fafc; text-align: left; }
+  .summary a { color: #4f46e5; }
+  .toc { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 16px; }
+  .toc ul { list-style: none; padding-left: 0; margin: 8px 0 0; }
+  .toc li { margin-bottom: 4px; }
+  .toc .toc-2 { padding-left: 16px; }
+  .toc .toc-3 { padding-left: 32px; }
+  .empty { color: #94a3b8; font-style: italic; }
+`;
+
+export const buildBriefHtml = (brief: ArchitectureBrief) => {
+  const title = escapeXml(briefTitle(brief));
+  const features = selectedFeatures(brief);
+  const featureList = features.length > 0
+    ? `<ul>${features.map(f => `<li><strong>${escapeXml(f.title)}</strong>${f.description ? ` — ${escapeXml(f.description)}` : ''}</li>`).join('')}</ul>`
+    : '<p class="empty">No features selected.</p>';
+  const diagram = brief.nodes.length > 0
+    ? `<div class="diagram">${renderDiagramSvg(brief.nodes, brief.edges).svg}</div>`
+    : '<p class="empty">The workflow diagram is empty.</p>';
+  const blocks = parseMarkdown(brief.description.trim());
+  const outline = markdownOutline(blocks).filter(h => h.level <= 3);
+  const contents = outline.length >= TOC_MIN_HEADINGS
+    ? `<nav class="toc"><strong>Contents</strong><ul>${outline.map(h => `<li class="toc-${h.level}"><a href="#summary-${escapeXml(h.id)}">${escapeXml(h.text)}</a></li>`).join('')}</ul></nav>`
+    : '';
+  const summary = blocks.length > 0
+    ? `<div class="summary">${contents}${renderMarkdownHtml(blocks, 'summary-')}</div>`
+    : '<p class="empty">No summary was generated.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title} — Architecture Brief</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${title}</h1>
+<p>Architecture brief generated on ${escapeXml(generatedOn())}</p>
+</header>
+<section>
+<h2>Configuration</h2>
+<table>${configRows(brief.config).map(([label, value]) => `<tr><td>${escapeXml(label)}</td><td>${escapeXml(value)}</td></tr>`).join('')}</table>
+</section>
+<section>
+<h2>Features</h2>
+${featureList}
+</section>
+<section>
+<h2>Architecture Diagram</h2>
+${diagram}
+</section>
+<section>
+<h2>Technical Summary</h2>
+${summary}
+</section>
+</main>
+</body>
+</html>
+`;
+};
+
+// --- PDF ---
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+// Keeps the canvas well inside browser size limits for very large graphs
+const MAX_SNAPSHOT_PIXELS = 4000;
+
+// Links keep their target in print, where they cannot be clicked
+const printableText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    if (node.type !== 'link') return node.type === 'text' || node.type === 'code' ? node.text : node.type === 'break' ? ' ' : printableText(node.children);
+    const label = printableText(node.children);
+    return label === node.href || node.href.startsWith('#') ? label : `${label} (${node.href})`;
+  }).join('');
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+export const buildBriefPdf = async (brief: ArchitectureBrief): Promise<Blob> => {
+  const pdf = new PdfWriter();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PDF_PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const write = (text: string, style: PdfTextStyle & { indent?: number; after?: number } = {}) => {
+    const { indent = 0, after = 4, ...textStyle } = style;
+    const size = textStyle.size ?? 11;
+    const lineHeight = size * 1.4;
+    pdf.wrap(text, CONTENT_WIDTH - indent, textStyle).forEach(line => {
+      ensureSpace(lineHeight);
+      pdf.text(line, MARGIN + indent, y + size, textStyle);
+      y += lineHeight;
+    });
+    y += after;
+  };
+
+  const sectionHeading = (text: string) => {
+    ensureSpace(60);
+    y += 12;
+    write(text, { font: 'bold', size: 15, color: '#0f172a', after: 2 });
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, '#e2e8f0');
+    y += 10;
+  };
+
+  // Title block
+  pdf.rect(0, 0, PDF_PAGE_WIDTH, 110, { fill: '#0f172a' });
+  const titleLines = pdf.wrap(briefTitle(brief), CONTENT_WIDTH, { font: 'bold', size: 20 }).slice(0, 2);
+  titleLines.forEach((line, i) => pdf.text(line, MARGIN, 46 + i * 26, { font: 'bold', size: 20, color: '#ffffff' }));
+  pdf.text(`Architecture brief generated on ${generatedOn()}`, MARGIN, 46 + titleLines.length * 26, { size: 10, color: '#94a3b8' });
+  y = 130;
+
+  sectionHeading('Configuration');
+  configRows(brief.config).forEach(([label, value]) => {
+    ensureSpace(16);
+    pdf.text(label, MARGIN, y + 10, { size: 10, color: '#64748b' });
+    pdf.text(value, MARGIN + 160, y + 10, { size: 10, color: '#334155' });
+    y += 16;
+  });
+
+  sectionHeading('Features');
+  const features = selectedFeatures(brief);
+  if (features.length === 0) write('No features selected.', { color: '#94a3b8' });
+  features.forEach(f => {
+    ensureSpace(32);
+    write(f.title, { font: 'bold', size: 11, color: '#0f172a', after: 0 });
+    if (f.description.trim()) write(f.description.trim(), { size: 10, color: '#475569', indent: 10, after: 6 });
+  });
+
+  sectionHeading('Architecture Diagram');
+  if (brief.nodes.length === 0) {
+    write('The workflow diagram is empty.', { color: '#94a3b8' });
+  } else {
+    const diagram = renderDiagramSvg(brief.nodes, brief.edges);
+    const scale = Math.min(2, MAX_SNAPSHOT_PIXELS / Math.max(diagram.width, diagram.height));
+    const jpeg = await blobBytes(await rasterizeSvg(diagram, scale, 'image/jpeg'));
+    const image = pdf.addJpeg(jpeg, Math.round(diagram.width * scale), Math.round(diagram.height * scale));
+
+    // Fit to the content width, and to one page for tall diagrams
+    const maxHeight = PDF_PAGE_HEIGHT - MARGIN * 2;
+    let width = Math.min(CONTENT_WIDTH, diagram.width);
+    let height = width * diagram.height / diagram.width;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * diagram.width / diagram.height;
+    }
+    ensureSpace(height);
+    pdf.image(image, MARGIN + (CONTENT_WIDTH - width) / 2, y, width, height);
+    pdf.rect(MARGIN + (CONTENT_WIDTH - width) / 2, y, width, height, { stroke: '#e2e8f0' });
+    y += height + 8;
+  }
+
+  sectionHeading('Technical Summary');
+  const summary = parseMarkdown(brief.description.trim());
+  if (summary.length === 0) write('No summary was generated.', { color: '#94a3b8' });
+  const body = { size: 10.5, color: '#334155' };
+  const writeBlocks = (blocks: MarkdownBlock[], indent: number) => blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        ensureSpace(40);
+        y += 6;
+        write(printableText(block.children), { font: 'bold', size: block.level <= 2 ? 13 : 11, color: '#0f172a', indent, after: 4 });
+        break;
+      case 'paragraph':
+        write(printableText(block.children), { ...body, indent, after: 8 });
+        break;
+      case 'list':
+        block.items.forEach((item, i) => {
+          ensureSpace(15);
+          pdf.text(block.ordered ? `${block.start + i}.` : '•', MARGIN + indent + 6, y + body.size, body);
+          const start = y;
+          writeBlocks(item, indent + 22);
+          // Tight items do not need the paragraph gap
+          if (item.length === 1 && item[0].type === 'paragraph' && y > start) y -= 5;
+        });
+        y += 4;
+        break;
+      case 'code':
+        // Non-breaking spaces keep indentation through word wrapping
+        write(block.text.split('\n').map(line => line.replace(/^ +/, m => '\u00a0'.repeat(m.length))).join('\n'),
+          { font: 'mono', size: 9, color: '#1e293b', indent: indent + 10, after: 8 });
+        break;
+      case 'blockquote':
+        writeBlocks(block.children, indent + 14);
+        break;
+      case 'table':
+        write(block.header.map(printableText).join('  |  '), { ...body, font: 'bold', indent, after: 2 });
+        block.rows.forEach(row => write(row.map(printableText).join('  |  '), { ...body, indent, after: 2 }));
+        y += 6;
+        break;
+      case 'rule':
+        ensureSpace(12);
+        pdf.line(MARGIN + indent, y + 4, MARGIN + CONTENT_WIDTH, y + 4, '#e2e8f0');
+        y += 12;
+        break;
+    }
+  });
+  writeBlocks(summary, 0);
+
+  return pdf.toBlob();
+};
@@ -0,0 +1,445 @@
+import { DataEntity, DataField, DataFieldType } from "../types";
+import { pascalCase } from "./scaffold";
+
+// Typed entities on database nodes: cleaning them up wherever they come from
+// (the entity editor, the model, project files), resolving relations, and
+// exporting them as SQL DDL or a Prisma schema. Relations are foreign key
+// fields, so every export can derive them the same way.
+
+export type SqlDialect = 'postgres' | 'sqlite';
+export type DataModelFormat = 'postgres' | 'sqlite' | 'prisma';
+
+export const DATA_MODEL_FORMATS: Record<DataModelFormat, { label: string; extension: string; mimeType: string }> = {
+  postgres: { label: 'PostgreSQL', extension: '.sql', mimeType: 'application/sql' },
+  sqlite: { label: 'SQLite', extension: '.sql', mimeType: 'application/sql' },
+  prisma: { label: 'Prisma', extension: '.prisma', mimeType: 'text/plain' },
+};
+
+export const DATA_FIELD_TYPES: DataFieldType[] = ['string', 'text', 'integer', 'decimal', 'boolean', 'date', 'datetime', 'uuid', 'json'];
+
+// A database node's entities, with the node they belong to
+export interface NodeEntity {
+  nodeId: string;
+  nodeLabel: string;
+  entity: DataEntity;
+}
+
+export interface DataRelation {
+  // Entity holding the foreign key
+  from: string;
+  field: string;
+  // Referenced entity
+  to: string;
+  kind: 'one-to-one' | 'many-to-one';
+}
+
+// Words models and hand-written files use for field types
+const FIELD_TYPE_ALIASES: Record<string, DataFieldType> = {
+  str: 'string', varchar: 'string', char: 'string', email: 'string', url: 'string',
+  int: 'integer', bigint: 'integer', long: 'integer', serial: 'integer',
+  float: 'decimal', double: 'decimal', number: 'decimal', numeric: 'decimal', money: 'decimal', real: 'decimal',
+  bool: 'boolean', timestamp: 'datetime', timestamptz: 'datetime', time: 'datetime',
+  object: 'json', map: 'json', jsonb: 'json', array: 'json',
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Words at least one of the SQL dialects will not take as a bare identifier
+const SQL_RESERVED = new Set([
+  'all', 'and', 'as', 'asc', 'by', 'case', 'check', 'column', 'constraint', 'create', 'default', 'delete', 'desc',
+  'distinct', 'drop', 'else', 'end', 'exists', 'from', 'group', 'having', 'in', 'index', 'insert', 'into', 'is',
+  'join', 'key', 'like', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'primary', 'references', 'select',
+  'set', 'table', 'then', 'to', 'union', 'unique', 'update', 'user', 'using', 'values', 'when', 'where', 'with',
+]);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const camelCase = (value: string) => {
+  const name = pascalCase(value);
+  return name ? name[0].toLowerCase() + name.slice(1) : '';
+};
+
+const snakeCase = (value: string) =>
+  value.replace(/([a-z0-9])([A-Z])/g, '$1_$2').split(/[^A-Za-z0-9]+/).filter(Boolean).join('_').toLowerCase();
+
+const entityName = (value: string) => {
+  const name = pascalCase(value);
+  return /^[0-9]/.test(name) ? `E${name}` : name;
+};
+
+const uniqueIn = (base: string, taken: Set<string>) => {
+  let name = base;
+  for (let i = 2; taken.has(name.toLowerCase()); i++) name = `${base}${i}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+const fieldName = (value: string) => {
+  if (IDENTIFIER.test(value)) return value;
+  const name = camelCase(value);
+  return /^[0-9]/.test(name) ? `f${name}` : name;
+};
+
+// --- Cleanup ---
+
+// Turns anything shaped roughly like DataEntity[] into valid entities. Every
+// change is reported as "<where>...: reason" so callers can show or log it.
+export const sanitizeEntities = (raw: unknown, where: string, issues: string[]): DataEntity[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${where}: expected a list of entities`);
+    return [];
+  }
+  const names = new Set<string>();
+  const entities: DataEntity[] = [];
+  raw.forEach((e: unknown, i: number) => {
+    const path = `${where}[${i}]`;
+    const name = isObject(e) ? entityName(text(e.name)) : '';
+    if (!name) {
+      issues.push(`${path}: entity has no name, dropped`);
+      return;
+    }
+    if (names.has(name.toLowerCase())) {
+      issues.push(`${path}: duplicate entity "${name}", dropped`);
+      return;
+    }
+    names.add(name.toLowerCase());
+    if (name !== text((e as any).name)) issues.push(`${path}.name: "${text((e as any).name)}" renamed to "${name}"`);
+    entities.push({ name, fields: sanitizeFields((e as any).fields, `${path}.fields`, issues) });
+  });
+  return entities;
+};
+
+const sanitizeFields = (raw: unknown, where: string, issues: string[]): DataField[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${where}: expected a list of fields`);
+    return [];
+  }
+  const names = new Set<string>();
+  const fields: DataField[] = [];
+  raw.forEach((f: unknown, i: number) => {
+    const path = `${where}[${i}]`;
+    const name = isObject(f) ? fieldName(text(f.name)) : '';
+    if (!name) {
+      issues.push(`${path}: field has no name, dropped`);
+      return;
+    }
+    if (names.has(name.toLowerCase())) {
+      issues.push(`${path}: duplicate field "${name}", dropped`);
+      return;
+    }
+    names.add(name.toLowerCase());
+    const field = f as Record<string, any>;
+    if (name !== text(field.name)) issues.push(`${path}.name: "${text(field.name)}" renamed to "${name}"`);
+
+    const typeName = text(field.type).toLowerCase().replace(/\(.*\)$/, '');
+    let type = (DATA_FIELD_TYPES.includes(typeName as DataFieldType) ? typeName : FIELD_TYPE_ALIASES[typeName]) as DataFieldType | undefined;
+    if (!type) {
+      type = 'string';
+      issues.push(`${path}.type: unknown type ${JSON.stringify(field.type)}, using "string"`);
+    }
+    const primaryKey = field.primaryKey === true;
+    const references = text(field.references) ? entityName(text(field.references)) : '';
+    fields.push({
+      name,
+      type,
+      // Primary keys can never be null
+      nullable: field.nullable === true && !primaryKey,
+      ...(primaryKey ? { primaryKey } : {}),
+      ...(field.unique === true && !primaryKey ? { unique: true } : {}),
+      ...(references ? { references } : {}),
+    });
+  });
+  return fields;
+};
+
+export interface InferredDataModel {
+  // Entities per database node id
+  entities: Record<string, DataEntity[]>;
+  fixes: string[];
+}
+
+// Validates { stores: [{ nodeId, entities }] } from the model against the graph
+export const validateDataModel = (raw: unknown, nodes: any[]): InferredDataModel => {
+  const stores = Array.isArray(raw) ? raw : isObject(raw) ? raw.stores : undefined;
+  if (!Array.isArray(stores)) throw new Error('Expected a JSON object with a "stores" array.');
+  const fixes: string[] = [];
+  const result: Record<string, DataEntity[]> = {};
+  const taken = new Set<string>();
+
+  stores.forEach((store: unknown, i: number) => {
+    const node = isObject(store) ? nodes.find(n => n.id === text(store.nodeId)) : undefined;
+    const where = node ? `"${node.data?.label || node.id}"` : `Store #${i + 1}`;
+    if (!node || node.data?.type !== 'database') {
+      fixes.push(`${where}: not a database node, dropped`);
+      return;
+    }
+    if (result[node.id]) {
+      fixes.push(`${where}: listed twice, second list dropped`);
+      return;
+    }
+    result[node.id] = sanitizeEntities((store as any).entities, where, fixes).map(entity => {
+      const name = uniqueIn(entity.name, taken);
+      if (name !== entity.name) fixes.push(`${where}: entity "${entity.name}" already exists in another store, renamed to "${name}"`);
+      return { ...entity, name };
+    });
+  });
+
+  const all = Object.values(result).flat();
+  if (all.length === 0) throw new Error('The response did not define any entities.');
+  all.forEach(entity => entity.fields.forEach(field => {
+    if (field.references && !findEntity(all, field.references)) {
+      fixes.push(`${entity.name}.${field.name}: references unknown entity "${field.references}", reference removed`);
+      delete field.references;
+    }
+  }));
+  return { entities: result, fixes };
+};
+
+// --- Relations ---
+
+export const collectEntities = (nodes: any[]): NodeEntity[] =>
+  nodes
+    .filter(n => n.data?.type === 'database' && Array.isArray(n.data.entities))
+    .flatMap(n => (n.data.entities as DataEntity[]).map(entity => ({
+      nodeId: n.id,
+      nodeLabel: String(n.data.label || n.id),
+      entity,
+    })));
+
+const findEntity = (entities: DataEntity[], name: string) =>
+  entities.find(e => e.name.toLowerCase() === name.toLowerCase());
+
+// The single primary key field; composite and missing keys cannot be referenced
+export const primaryKeyOf = (entity: DataEntity) => {
+  const keys = entity.fields.filter(f => f.primaryKey);
+  return keys.length === 1 ? keys[0] : undefined;
+};
+
+export const entityRelations = (entities: DataEntity[]): DataRelation[] =>
+  entities.flatMap(entity => entity.fields.flatMap(field => {
+    const target = field.references ? findEntity(entities, field.references) : undefined;
+    if (!target) return [];
+    // A key of its own, or unique, means at most one row per target
+    const oneToOne = field.unique || primaryKeyOf(entity) === field;
+    return [{ from: entity.name, field: field.name, to: target.name, kind: oneToOne ? 'one-to-one' : 'many-to-one' } as DataRelation];
+  }));
+
+// Problems that make an export wrong or incomplete, as readable sentences
+export const dataModelIssues = (items: NodeEntity[]): string[] => {
+  const issues: string[] = [];
+  const entities = items.map(item => item.entity);
+  const seen = new Map<string, string>();
+  items.forEach(({ nodeLabel, entity }) => {
+    const other = seen.get(entity.name.toLowerCase());
+    if (other !== undefined) issues.push(`${entity.name} is defined in both ${other} and ${nodeLabel}; exports use the first one.`);
+    else seen.set(entity.name.toLowerCase(), nodeLabel);
+    if (entity.fields.length === 0) issues.push(`${entity.name} has no fields.`);
+    if (!entity.fields.some(f => f.primaryKey)) issues.push(`${entity.name} has no primary key.`);
+    entity.fields.filter(f => f.references).forEach(f => {
+      const target = findEntity(entities, f.references!);
+      if (!target) issues.push(`${entity.name}.${f.name} references unknown entity ${f.references}.`);
+      else if (!primaryKeyOf(target)) issues.push(`${entity.name}.${f.name} references ${target.name}, which has no single-field primary key.`);
+    });
+  });
+  return issues;
+};
+
+// First definition wins when two nodes declare the same entity
+const uniqueEntities = (entities: DataEntity[]) =>
+  entities.filter((e, i) => entities.findIndex(other => other.name.toLowerCase() === e.name.toLowerCase()) === i);
+
+// Tables and models need at least one column, so entities without fields are
+// left out and only named in a comment
+const exportableEntities = (all: DataEntity[]) => {
+  const entities = uniqueEntities(all);
+  return {
+    entities: entities.filter(e => e.fields.length > 0),
+    skipped: entities.filter(e => e.fields.length === 0).map(e => e.name),
+  };
+};
+
+// A foreign key takes the type of the key it points at
+const columnType = (field: DataField, entities: DataEntity[]): DataFieldType => {
+  const target = field.references ? findEntity(entities, field.references) : undefined;
+  return (target && primaryKeyOf(target)?.type) || field.type;
+};
+
+// --- SQL ---
+
+const SQL_TYPES: Record<SqlDialect, Record<DataFieldType, string>> = {
+  postgres: {
+    string: 'VARCHAR(255)', text: 'TEXT', integer: 'INTEGER', decimal: 'NUMERIC(12, 2)', boolean: 'BOOLEAN',
+    date: 'DATE', datetime: 'TIMESTAMPTZ', uuid: 'UUID', json: 'JSONB',
+  },
+  // SQLite has type affinities rather than types
+  sqlite: {
+    string: 'TEXT', text: 'TEXT', integer: 'INTEGER', decimal: 'NUMERIC', boolean: 'INTEGER',
+    date: 'TEXT', datetime: 'TEXT', uuid: 'TEXT', json: 'TEXT',
+  },
+};
+
+const sqlName = (value: string) => {
+  const name = snakeCase(value) || 'unnamed';
+  return SQL_RESERVED.has(name) || /^[0-9]/.test(name) ? `"${name}"` : name;
+};
+
+// Constraint and index names are built from the bare names
+const bareName = (value: string) => snakeCase(value) || 'unnamed';
+
+export const buildSqlDdl = (allEntities: DataEntity[], dialect: SqlDialect): string => {
+  const { entities, skipped } = exportableEntities(allEntities);
+  const types = SQL_TYPES[dialect];
+  const statements: string[] = [];
+  const foreignKeys: string[] = [];
+  const indexes: string[] = [];
+
+  entities.forEach(entity => {
+    const table = sqlName(entity.name);
+    const keys = entity.fields.filter(f => f.primaryKey);
+    const single = keys.length === 1 ? keys[0] : undefined;
+
+    const columns = entity.fields.map(field => {
+      const type = columnType(field, entities);
+      const parts = [sqlName(field.name), types[type]];
+      if (field === single) {
+        if (dialect === 'postgres' && type === 'integer' && !field.references) parts.push('GENERATED BY DEFAULT AS IDENTITY');
+        parts.push('PRIMARY KEY');
+        if (dialect === 'postgres' && type === 'uuid' && !field.references) parts.push('DEFAULT gen_random_uuid()');
+      } else {
+        if (!field.nullable) parts.push('NOT NULL');
+        if (field.unique) parts.push('UNIQUE');
+      }
+      return `  ${parts.join(' ')}`;
+    });
+    if (keys.length > 1) columns.push(`  PRIMARY KEY (${keys.map(k => sqlName(k.name)).join(', ')})`);
+
+    entity.fields.forEach(field => {
+      const target = field.references ? findEntity(entities, field.references) : undefined;
+      const targetKey = target && primaryKeyOf(target);
+      if (!target || !targetKey) return;
+      const reference = `FOREIGN KEY (${sqlName(field.name)}) REFERENCES ${sqlName(target.name)} (${sqlName(targetKey.name)})`;
+      if (dialect === 'sqlite') {
+        columns.push(`  ${reference}`);
+      } else {
+        // Added after every table exists, so tables can reference each other in any order
+        foreignKeys.push(`ALTER TABLE ${table} ADD CONSTRAINT ${bareName(entity.name)}_${bareName(field.name)}_fkey ${reference};`);
+      }
+      if (!field.unique && !field.primaryKey) {
+        indexes.push(`CREATE INDEX ${bareName(entity.name)}_${bareName(field.name)}_idx ON ${table} (${sqlName(field.name)});`);
+      }
+    });
+
+    statements.push(`CREATE TABLE ${table} (\n${columns.join(',\n')}\n);`);
+  });
+
+  return [
+    `-- ${DATA_MODEL_FORMATS[dialect].label} schema, ${entities.length} ${entities.length === 1 ? 'table' : 'tables'}`
+      + (skipped.length > 0 ? `\n-- Skipped (no fields): ${skipped.join(', ')}` : ''),
+    ...(dialect === 'sqlite' ? ['PRAGMA foreign_keys = ON;'] : []),
+    ...statements,
+    ...foreignKeys,
+    ...indexes,
+  ].join('\n\n') + '\n';
+};
+
+// --- Prisma ---
+
+const PRISMA_TYPES: Record<DataFieldType, string> = {
+  string: 'String', text: 'String', integer: 'Int', decimal: 'Decimal', boolean: 'Boolean',
+  date: 'DateTime', datetime: 'DateTime', uuid: 'String', json: 'Json',
+};
+
+// Native type hints that only PostgreSQL understands
+const PRISMA_POSTGRES_ATTRIBUTES: Partial<Record<DataFieldType, string>> = {
+  text: '@db.Text', date: '@db.Date', uuid: '@db.Uuid',
+};
+
+const plural = (word: string) =>
+  /[^aeiou]y$/i.test(word) ? `${word.slice(0, -1)}ies` : /(s|x|z|ch|sh)$/i.test(word) ? `${word}es` : `${word}s`;
+
+const alignColumns = (rows: string[][]) => {
+  const widths = rows.reduce<number[]>((w, row) => row.map((cell, i) => Math.max(w[i] ?? 0, cell.length)), []);
+  return rows.map(row => `  ${row.map((cell, i) => i < row.length - 1 ? cell.padEnd(widths[i]) : cell).join(' ')}`.trimEnd());
+};
+
+export const buildPrismaSchema = (allEntities: DataEntity[], dialect: SqlDialect): string => {
+  const { entities, skipped } = exportableEntities(allEntities);
+  const relations = entityRelations(entities).filter(r => {
+    const target = findEntity(entities, r.to)!;
+    return !!primaryKeyOf(target);
+  });
+
+  // Prisma needs a name on every relation between the same two models
+  const pairCount = new Map<string, number>();
+  const pairOf = (r: DataRelation) => [r.from, r.to].sort().join('|');
+  relations.forEach(r => pairCount.set(pairOf(r), (pairCount.get(pairOf(r)) ?? 0) + 1));
+  const relationName = (r: DataRelation) => pairCount.get(pairOf(r))! > 1 || r.from === r.to ? `"${r.from}${pascalCase(r.field)}"` : '';
+
+  const takenNames = new Map(entities.map(e => [e.name, new Set(e.fields.map(f => f.name.toLowerCase()))]));
+  const rows = new Map<string, string[][]>(entities.map(e => [e.name, []]));
+  // Block attributes and notes that go below the fields
+  const footers = new Map<string, string[]>(entities.map(e => [e.name, []]));
+
+  entities.forEach(entity => {
+    const keys = entity.fields.filter(f => f.primaryKey);
+    entity.fields.forEach(field => {
+      const type = columnType(field, entities);
+      const attributes: string[] = [];
+      if (field.primaryKey && keys.length === 1) {
+        attributes.push('@id');
+        // Keys copied from another table are never generated
+        if (type === 'uuid' && !field.references) attributes.push('@default(uuid())');
+        if (type === 'integer' && !field.references) attributes.push('@default(autoincrement())');
+      }
+      if (field.unique) attributes.push('@unique');
+      if (dialect === 'postgres' && PRISMA_POSTGRES_ATTRIBUTES[type]) attributes.push(PRISMA_POSTGRES_ATTRIBUTES[type]!);
+      const prismaType = dialect === 'sqlite' && type === 'json' ? 'String' : PRISMA_TYPES[type];
+      rows.get(entity.name)!.push([field.name, `${prismaType}${field.nullable ? '?' : ''}`, ...(attributes.length > 0 ? [attributes.join(' ')] : [])]);
+      if (field.references && !relations.some(r => r.from === entity.name && r.field === field.name)) {
+        footers.get(entity.name)!.push(`// ${field.name} references ${field.references}, which cannot be linked without a single-field primary key`);
+      }
+    });
+    if (keys.length > 1) footers.get(entity.name)!.push(`@@id([${keys.map(k => k.name).join(', ')}])`);
+  });
+
+  relations.forEach(relation => {
+    const source = findEntity(entities, relation.from)!;
+    const target = findEntity(entities, relation.to)!;
+    const field = source.fields.find(f => f.name === relation.field)!;
+    const name = relationName(relation);
+
+    const forwardBase = /.(Id|_id|ID)$/.test(field.name) ? field.name.replace(/_?(Id|id|ID)$/, '') : camelCase(target.name);
+    const forward = uniqueIn(forwardBase, takenNames.get(source.name)!);
+    const args = [...(name ? [name] : []), `fields: [${field.name}]`, `references: [${primaryKeyOf(target)!.name}]`];
+    rows.get(source.name)!.push([forward, `${target.name}${field.nullable ? '?' : ''}`, `@relation(${args.join(', ')})`]);
+
+    const backBase = relation.kind === 'many-to-one' ? plural(camelCase(source.name)) : camelCase(source.name);
+    const back = uniqueIn(name ? `${backBase}By${pascalCase(forward)}` : backBase, takenNames.get(target.name)!);
+    rows.get(target.name)!.push([back, relation.kind === 'many-to-one' ? `${source.name}[]` : `${source.name}?`, ...(name ? [`@relation(${name})`] : [])]);
+  });
+
+  const models = entities.map(entity => {
+    const extra = footers.get(entity.name)!;
+    return [
+      `model ${entity.name} {`,
+      ...alignColumns(rows.get(entity.name)!),
+      ...(extra.length > 0 ? ['', ...extra.map(line => `  ${line}`)] : []),
+      `}`,
+    ].join('\n');
+  });
+
+  return [
+    `generator client {\n  provider = "prisma-client-js"\n}`,
+    `datasource db {\n  provider = "${dialect === 'postgres' ? 'postgresql' : 'sqlite'}"\n  url      = env("DATABASE_URL")\n}`,
+    ...(skipped.length > 0 ? [`// Skipped (no fields): ${skipped.join(', ')}`] : []),
+    ...models,
+  ].join('\n\n') + '\n';
+};
+
+export const exportDataModel = (entities: DataEntity[], format: DataModelFormat) =>
+  format === 'prisma' ? buildPrismaSchema(entities, 'postgres') : buildSqlDdl(entities, format);
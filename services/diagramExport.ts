@@ -0,0 +1,203 @@
+import { NodeType } from "../types";
+import { NODE_PALETTE } from "../constants";
+import { detectDirection } from "./graphLayout";
+
+// Text exports of the editor graph for READMEs and wikis. Each format keeps
+// the node type as a shape and style, and keeps edge labels.
+
+export type DiagramFormat = 'mermaid' | 'plantuml' | 'plantuml-activity' | 'dot';
+
+export const DIAGRAM_FORMATS: Record<DiagramFormat, { label: string; extension: string; mimeType: string }> = {
+  mermaid: { label: 'Mermaid', extension: '.mmd', mimeType: 'text/vnd.mermaid' },
+  plantuml: { label: 'PlantUML component', extension: '.puml', mimeType: 'text/plain' },
+  'plantuml-activity': { label: 'PlantUML activity', extension: '.puml', mimeType: 'text/plain' },
+  dot: { label: 'Graphviz DOT', extension: '.dot', mimeType: 'text/vnd.graphviz' },
+};
+
+const NODE_TYPES: NodeType[] = ['view', 'logic', 'database', 'userAction'];
+
+// Keywords that cannot be used as node ids in at least one of the formats
+const RESERVED_IDS = new Set(['end', 'graph', 'subgraph', 'flowchart', 'class', 'classdef', 'style', 'click', 'digraph', 'node', 'edge', 'strict']);
+
+const nodeType = (node: any): NodeType =>
+  NODE_TYPES.includes(node.data?.type) ? node.data.type : 'logic';
+
+const nodeLabel = (node: any): string =>
+  String(node.data?.label || node.id).replace(/\s+/g, ' ').trim();
+
+const edgeLabel = (edge: any): string | undefined =>
+  typeof edge.label === 'string' && edge.label.trim() ? edge.label.replace(/\s+/g, ' ').trim() : undefined;
+
+// Formats only accept simple identifiers; map every node id to a unique one
+const identifiers = (nodes: any[]) => {
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  nodes.forEach(node => {
+    let base = String(node.id).replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=[0-9_])/, 'n') || 'node';
+    if (RESERVED_IDS.has(base.toLowerCase())) base = `n_${base}`;
+    let id = base;
+    for (let i = 2; taken.has(id); i++) id = `${base}_${i}`;
+    taken.add(id);
+    ids.set(node.id, id);
+  });
+  return ids;
+};
+
+// Only edges between exported nodes; the editor may briefly hold dangling ones
+const connectedEdges = (edges: any[], ids: Map<string, string>) =>
+  edges.filter(e => ids.has(e.source) && ids.has(e.target));
+
+// --- Mermaid ---
+
+const MERMAID_SHAPES: Record<NodeType, [string, string]> = {
+  view: ['[', ']'],
+  logic: ['[[', ']]'],
+  database: ['[(', ')]'],
+  userAction: ['([', '])'],
+};
+
+const mermaidText = (value: string) => value.replace(/"/g, '#quot;');
+
+export const toMermaid = (nodes: any[], edges: any[]) => {
+  const ids = identifiers(nodes);
+  const lines = [`flowchart ${detectDirection(nodes)}`];
+  nodes.forEach(node => {
+    const [open, close] = MERMAID_SHAPES[nodeType(node)];
+    lines.push(`  ${ids.get(node.id)}${open}"${mermaidText(nodeLabel(node))}"${close}`);
+  });
+  connectedEdges(edges, ids).forEach(edge => {
+    const label = edgeLabel(edge);
+    lines.push(`  ${ids.get(edge.source)} -->${label ? `|"${mermaidText(label)}"|` : ''} ${ids.get(edge.target)}`);
+  });
+  NODE_TYPES.forEach(type => {
+    const members = nodes.filter(n => nodeType(n) === type).map(n => ids.get(n.id));
+    if (members.length === 0) return;
+    const { fill, stroke, text } = NODE_PALETTE[type];
+    lines.push(`  classDef ${type} fill:${fill},stroke:${stroke},color:${text}`);
+    lines.push(`  class ${members.join(',')} ${type}`);
+  });
+  return lines.join('\n') + '\n';
+};
+
+// --- PlantUML (component diagram) ---
+
+const PLANTUML_ELEMENTS: Record<NodeType, string> = {
+  view: 'rectangle',
+  logic: 'component',
+  database: 'database',
+  userAction: 'usecase',
+};
+
+const plantUmlText = (value: string) => value.replace(/"/g, "'");
+
+export const toPlantUml = (nodes: any[], edges: any[]) => {
+  const ids = identifiers(nodes);
+  const lines = ['@startuml'];
+  if (detectDirection(nodes) === 'LR') lines.push('left to right direction');
+  NODE_TYPES.forEach(type => {
+    const { fill, stroke, text } = NODE_PALETTE[type];
+    lines.push(`skinparam ${PLANTUML_ELEMENTS[type]}<<${type}>> {`, `  BackgroundColor ${fill}`, `  BorderColor ${stroke}`, `  FontColor ${text}`, '}');
+  });
+  nodes.forEach(node => {
+    const type = nodeType(node);
+    lines.push(`${PLANTUML_ELEMENTS[type]} "${plantUmlText(nodeLabel(node))}" as ${ids.get(node.id)} <<${type}>>`);
+  });
+  connectedEdges(edges, ids).forEach(edge => {
+    const label = edgeLabel(edge);
+    lines.push(`${ids.get(edge.source)} --> ${ids.get(edge.target)}${label ? ` : ${label}` : ''}`);
+  });
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+};
+
+// --- PlantUML (activity diagram) ---
+
+// Uses the older activity syntax, which allows arbitrary arrows between
+// activities. Nodes without incoming edges start at (*), nodes without outgoing
+// ones end there. Each activity is declared ("label" as id) where it first
+// appears, so nodes are visited breadth first from the start nodes.
+export const toPlantUmlActivity = (nodes: any[], edges: any[]) => {
+  const ids = identifiers(nodes);
+  const links = connectedEdges(edges, ids);
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const lines = ['@startuml'];
+  if (detectDirection(nodes) === 'LR') lines.push('left to right direction');
+
+  const declared = new Set<string>();
+  const ref = (id: string) => {
+    if (declared.has(id)) return ids.get(id)!;
+    declared.add(id);
+    return `"${plantUmlText(nodeLabel(byId.get(id)))}" as ${ids.get(id)}`;
+  };
+
+  const visited = new Set<string>();
+  const visit = (start: string) => {
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      const outgoing = links.filter(e => e.source === id);
+      if (outgoing.length === 0) lines.push(`${ids.get(id)} --> (*)`);
+      outgoing.forEach(edge => {
+        const label = edgeLabel(edge);
+        lines.push(`${ids.get(id)} -->${label ? `[${plantUmlText(label).replace(/[[\]]/g, '')}]` : ''} ${ref(edge.target)}`);
+        if (!visited.has(edge.target)) {
+          visited.add(edge.target);
+          queue.push(edge.target);
+        }
+      });
+    }
+  };
+  // Nodes only reachable through a cycle start there too
+  const roots = nodes.filter(n => !links.some(e => e.target === n.id));
+  [...roots, ...nodes].forEach(node => {
+    if (visited.has(node.id)) return;
+    lines.push(`(*) --> ${ref(node.id)}`);
+    visit(node.id);
+  });
+
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+};
+
+// --- Graphviz DOT ---
+
+const DOT_SHAPES: Record<NodeType, string> = {
+  view: 'shape=box, style="rounded,filled"',
+  logic: 'shape=box, style=filled',
+  database: 'shape=cylinder, style=filled',
+  userAction: 'shape=ellipse, style=filled',
+};
+
+const dotText = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+export const toDot = (nodes: any[], edges: any[]) => {
+  const ids = identifiers(nodes);
+  const lines = [
+    'digraph Workflow {',
+    `  rankdir=${detectDirection(nodes)};`,
+    '  node [fontname="Helvetica", fontsize=12, penwidth=2];',
+    '  edge [fontname="Helvetica", fontsize=10, color="#64748b"];',
+  ];
+  nodes.forEach(node => {
+    const type = nodeType(node);
+    const { fill, stroke, text } = NODE_PALETTE[type];
+    const details = typeof node.data?.details === 'string' && node.data.details ? `, tooltip="${dotText(node.data.details)}"` : '';
+    lines.push(`  ${ids.get(node.id)} [label="${dotText(nodeLabel(node))}", ${DOT_SHAPES[type]}, fillcolor="${fill}", color="${stroke}", fontcolor="${text}"${details}];`);
+  });
+  connectedEdges(edges, ids).forEach(edge => {
+    const label = edgeLabel(edge);
+    lines.push(`  ${ids.get(edge.source)} -> ${ids.get(edge.target)}${label ? ` [label="${dotText(label)}"]` : ''};`);
+  });
+  lines.push('}');
+  return lines.join('\n') + '\n';
+};
+
+export const exportDiagram = (format: DiagramFormat, nodes: any[], edges: any[]) => {
+  switch (format) {
+    case 'mermaid': return toMermaid(nodes, edges);
+    case 'plantuml': return toPlantUml(nodes, edges);
+    case 'plantuml-activity': return toPlantUmlActivity(nodes, edges);
+    case 'dot': return toDot(nodes, edges);
+  }
+};
@@ -0,0 +1,526 @@
+import { NodeType } from "../types";
+import { LayoutDirection } from "./graphLayout";
+import { resolveNodeType } from "./graphValidation";
+
+// Parsers for existing Mermaid flowcharts and Graphviz DOT files. Shapes and
+// class names map onto node types where they can; otherwise the node's id and
+// label are matched against a naming convention (e.g. "Orders DB" → database).
+
+export type DiagramSource = 'mermaid' | 'dot';
+
+export interface ImportedDiagram {
+  format: DiagramSource;
+  nodes: any[];
+  edges: any[];
+  direction: LayoutDirection;
+  // Things that were skipped or guessed, for the import report
+  warnings: string[];
+}
+
+export class DiagramParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "DiagramParseError";
+    this.line = line;
+  }
+}
+
+interface ParsedNode {
+  id: string;
+  label?: string;
+  details?: string;
+  // Set when a shape, class or attribute decided the type
+  type?: NodeType;
+}
+
+interface ParsedEdge {
+  source: string;
+  target: string;
+  label?: string;
+}
+
+// --- Naming Convention ---
+
+const NAME_RULES: [NodeType, RegExp][] = [
+  ['database', /\b(db|database|datastore|store|storage|table|cache|redis|postgres|mysql|mongo|sql|bucket|s3|queue)\b/],
+  ['logic', /\b(api|service|server|backend|handler|worker|function|lambda|job|auth|validate|validation|process|controller|endpoint)\b/],
+  ['view', /\b(page|screen|view|ui|form|modal|dialog|dashboard|frontend|component|layout|panel)\b/],
+  ['userAction', /\b(click|clicks|tap|taps|press|submit|submits|upload|enter|enters|select|selects|user|action)\b/],
+];
+
+const guessType = (node: ParsedNode): NodeType | undefined => {
+  // Split camelCase and snake_case ids into words as well
+  const words = `${node.id} ${node.label || ''}`
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_\-.]+/g, ' ')
+    .toLowerCase();
+  return NAME_RULES.find(([, pattern]) => pattern.test(words))?.[0];
+};
+
+const cleanLabel = (value: string) =>
+  value
+    .trim()
+    .replace(/^"(.*)"$/, '$1')
+    .replace(/^`(.*)`$/, '$1')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toGraph = (
+  format: DiagramSource,
+  parsed: Map<string, ParsedNode>,
+  parsedEdges: ParsedEdge[],
+  direction: LayoutDirection,
+  warnings: string[],
+  fallbackType: NodeType
+): ImportedDiagram => {
+  if (parsed.size === 0) throw new DiagramParseError("The diagram does not contain any nodes.", 1);
+
+  const nodes = Array.from(parsed.values()).map(node => {
+    let type = node.type || guessType(node);
+    if (!type) {
+      type = fallbackType;
+      warnings.push(`Node "${node.label || node.id}": type could not be inferred, using "${type}"`);
+    }
+    return {
+      id: node.id,
+      type,
+      position: { x: 0, y: 0 },
+      data: { label: node.label || node.id, details: node.details || '', type },
+    };
+  });
+
+  const seen = new Set<string>();
+  const edges: any[] = [];
+  parsedEdges.forEach(({ source, target, label }) => {
+    const key = `${source}->${target}:${label ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    let id = `e-${source}-${target}`;
+    for (let i = 2; edges.some(e => e.id === id); i++) id = `e-${source}-${target}-${i}`;
+    edges.push({ id, source, target, label, animated: true });
+  });
+
+  return { format, nodes, edges, direction, warnings };
+};
+
+// --- Mermaid ---
+
+// Longest delimiters first so "[[" is not read as "["
+const MERMAID_SHAPES: { open: string; close: string; type?: NodeType }[] = [
+  { open: '(((', close: ')))', type: 'userAction' },
+  { open: '([', close: '])', type: 'userAction' },
+  { open: '[[', close: ']]', type: 'logic' },
+  { open: '[(', close: ')]', type: 'database' },
+  { open: '((', close: '))', type: 'userAction' },
+  { open: '{{', close: '}}', type: 'logic' },
+  { open: '[/', close: '/]', type: 'userAction' },
+  { open: '[\\', close: '\\]', type: 'userAction' },
+  { open: '[/', close: '\\]', type: 'userAction' },
+  { open: '[\\', close: '/]', type: 'userAction' },
+  { open: '>', close: ']', type: 'userAction' },
+  { open: '{', close: '}', type: 'logic' },
+  // Plain and rounded rectangles are too common to mean anything; the naming convention decides
+  { open: '(', close: ')' },
+  { open: '[', close: ']' },
+];
+
+const MERMAID_ID = /^[\p{L}\p{N}_$]+/u;
+const MERMAID_LINK_WITH_TEXT = /^(<)?(--|==|-\.)\s+(.+?)\s+(-{2,}>|-{3,}|={2,}>|={3,}|\.+->|\.+-)/;
+// Edge text between pipes may be quoted, which lets it contain "|" itself
+const MERMAID_LINK = /^(<)?(-{2,}>|-{3,}|={2,}>|={3,}|-\.+->|-\.+-|~{3,}|--[ox]|==[ox]|-\.+-[ox])(?:\s*\|\s*("[^"]*"|[^|]*)\|)?/;
+const MERMAID_IGNORED = /^(classDef|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+
+// Splits a line on ";" outside quotes and shape brackets.
+const splitStatements = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let depth = 0;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && '[({'.includes(char)) depth++;
+    if (!quoted && '])}'.includes(char)) depth = Math.max(0, depth - 1);
+    if (char === ';' && !quoted && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+export const parseMermaid = (text: string): ImportedDiagram => {
+  const lines = text.split(/\r?\n/);
+  const nodes = new Map<string, ParsedNode>();
+  const edges: ParsedEdge[] = [];
+  const warnings: string[] = [];
+  let direction: LayoutDirection = 'TB';
+  let headerFound = false;
+
+  const parseNodeRef = (statement: string, lineNo: number) => {
+    const idMatch = statement.match(MERMAID_ID);
+    if (!idMatch) throw new DiagramParseError(`Expected a node id at "${statement.slice(0, 20)}"`, lineNo);
+    const id = idMatch[0];
+    let rest = statement.slice(id.length);
+    const node = nodes.get(id) || { id };
+    nodes.set(id, node);
+
+    const shape = MERMAID_SHAPES.find(s => rest.startsWith(s.open));
+    if (shape) {
+      rest = rest.slice(shape.open.length);
+      let label: string;
+      if (rest.startsWith('"')) {
+        const end = rest.indexOf('"', 1);
+        if (end < 0) throw new DiagramParseError(`Unterminated quoted label for "${id}"`, lineNo);
+        label = rest.slice(1, end);
+        rest = rest.slice(end + 1);
+        if (!rest.startsWith(shape.close)) throw new DiagramParseError(`Expected "${shape.close}" after the label of "${id}"`, lineNo);
+      } else {
+        const end = rest.indexOf(shape.close);
+        if (end < 0) throw new DiagramParseError(`Missing "${shape.close}" to close the label of "${id}"`, lineNo);
+        label = rest.slice(0, end);
+        rest = rest.slice(end);
+      }
+      rest = rest.slice(shape.close.length);
+      node.label = cleanLabel(label);
+      if (shape.type) node.type = shape.type;
+    }
+
+    const classMatch = rest.match(/^:::([\w-]+)/);
+    if (classMatch) {
+      const type = resolveNodeType(classMatch[1]);
+      if (type) node.type = type;
+      rest = rest.slice(classMatch[0].length);
+    }
+    return { id, rest: rest.trimStart() };
+  };
+
+  lines.forEach((rawLine, index) => {
+    const lineNo = index + 1;
+    const line = rawLine.replace(/%%.*$/, '').trim();
+    if (!line) return;
+
+    if (!headerFound) {
+      const header = line.match(/^(flowchart|graph)(?:\s+(TB|TD|BT|LR|RL))?\s*;?$/i);
+      if (!header) {
+        throw new DiagramParseError(`Expected a "flowchart" or "graph" header, found "${line.slice(0, 40)}"`, lineNo);
+      }
+      direction = header[2] && /^(LR|RL)$/i.test(header[2]) ? 'LR' : 'TB';
+      headerFound = true;
+      return;
+    }
+
+    splitStatements(line).forEach(statement => {
+      if (MERMAID_IGNORED.test(statement) || statement === 'end') return;
+      if (/^subgraph\b/.test(statement)) {
+        warnings.push(`Line ${lineNo}: subgraph grouping is not supported, its nodes were imported ungrouped`);
+        return;
+      }
+      const classStatement = statement.match(/^class\s+([\w,\s$]+?)\s+([\w-]+)$/);
+      if (classStatement) {
+        const type = resolveNodeType(classStatement[2]);
+        classStatement[1].split(',').map(id => id.trim()).filter(Boolean).forEach(id => {
+          const node = nodes.get(id) || { id };
+          nodes.set(id, node);
+          if (type) node.type = type;
+        });
+        return;
+      }
+
+      // A chain of node groups joined by links: A & B --> C -- text --> D
+      let rest = statement;
+      let previous: string[] = [];
+      let pendingLink: { label?: string; visible: boolean } | null = null;
+      while (rest) {
+        const group: string[] = [];
+        while (true) {
+          const ref = parseNodeRef(rest, lineNo);
+          group.push(ref.id);
+          rest = ref.rest;
+          if (!rest.startsWith('&')) break;
+          rest = rest.slice(1).trimStart();
+        }
+
+        const link = pendingLink;
+        if (link?.visible) previous.forEach(source => group.forEach(target => edges.push({ source, target, label: link.label })));
+        previous = group;
+        pendingLink = null;
+        if (!rest) break;
+
+        const withText = rest.match(MERMAID_LINK_WITH_TEXT);
+        const plain = withText ? null : rest.match(MERMAID_LINK);
+        if (!withText && !plain) throw new DiagramParseError(`Unexpected "${rest.slice(0, 20)}"`, lineNo);
+        const token = (withText || plain)!;
+        const label = withText ? withText[3] : plain![3];
+        pendingLink = { label: label ? cleanLabel(label) || undefined : undefined, visible: !token[0].startsWith('~') };
+        rest = rest.slice(token[0].length).trimStart();
+        if (!rest) throw new DiagramParseError("A link is missing its target node", lineNo);
+      }
+    });
+  });
+
+  if (!headerFound) throw new DiagramParseError("The diagram is empty.", 1);
+  return toGraph('mermaid', nodes, edges, direction, warnings, 'view');
+};
+
+// --- Graphviz DOT ---
+
+interface DotToken {
+  kind: 'id' | 'string' | 'punct';
+  value: string;
+  line: number;
+}
+
+const DOT_SHAPES: Record<string, NodeType> = {
+  cylinder: 'database',
+  ellipse: 'userAction', oval: 'userAction', circle: 'userAction', doublecircle: 'userAction',
+  parallelogram: 'userAction', invtrapezium: 'userAction',
+  box: 'logic', rect: 'logic', rectangle: 'logic', square: 'logic', component: 'logic',
+  box3d: 'logic', diamond: 'logic', hexagon: 'logic', cds: 'logic',
+  note: 'view', tab: 'view', folder: 'view', underline: 'view', plaintext: 'view', plain: 'view',
+};
+
+const tokenizeDot = (text: string): DotToken[] => {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (text.startsWith('//', i) || (char === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      if (end < 0) throw new DiagramParseError("Unterminated /* comment", line);
+      line += (text.slice(i, end).match(/\n/g) || []).length;
+      i = end + 2;
+    } else if (char === '"') {
+      const start = line;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[i + 1];
+          value += next === 'n' || next === 'l' || next === 'r' ? ' ' : next === '\n' ? '' : next;
+          if (next === '\n') line++;
+          i += 2;
+        } else {
+          if (text[i] === '\n') line++;
+          value += text[i++];
+        }
+      }
+      if (i >= text.length) throw new DiagramParseError("Unterminated string", start);
+      i++;
+      tokens.push({ kind: 'string', value, line: start });
+    } else if (char === '<') {
+      // HTML-like label: keep the text, drop the tags
+      const start = line;
+      let depth = 0;
+      let value = '';
+      do {
+        if (text[i] === '<') depth++;
+        if (text[i] === '>') depth--;
+        if (text[i] === '\n') line++;
+        value += text[i++];
+      } while (i < text.length && depth > 0);
+      if (depth > 0) throw new DiagramParseError("Unterminated HTML label", start);
+      tokens.push({ kind: 'string', value: value.slice(1, -1), line: start });
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ kind: 'punct', value: text.slice(i, i + 2), line });
+      i += 2;
+    } else if ('{}[]=;,:'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char, line });
+      i++;
+    } else {
+      const match = text.slice(i).match(/^(-?(\.\d+|\d+(\.\d*)?)|[\p{L}_][\p{L}\p{N}_]*)/u);
+      if (!match) throw new DiagramParseError(`Unexpected character "${char}"`, line);
+      tokens.push({ kind: 'id', value: match[0], line });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+};
+
+export const parseDot = (text: string): ImportedDiagram => {
+  const tokens = tokenizeDot(text);
+  const nodes = new Map<string, ParsedNode>();
+  const edges: ParsedEdge[] = [];
+  const warnings: string[] = [];
+  let direction: LayoutDirection = 'TB';
+  let pos = 0;
+
+  const lastLine = () => tokens[tokens.length - 1]?.line ?? 1;
+  const peek = (offset = 0) => tokens[pos + offset];
+  const isPunct = (value: string, offset = 0) => peek(offset)?.kind === 'punct' && peek(offset).value === value;
+  const expect = (value: string) => {
+    const token = peek();
+    if (!token || token.kind !== 'punct' || token.value !== value) {
+      throw new DiagramParseError(`Expected "${value}"${token ? ` but found "${token.value}"` : ' before the end of the file'}`, token?.line ?? lastLine());
+    }
+    pos++;
+  };
+  const readId = () => {
+    const token = peek();
+    if (!token || token.kind === 'punct') {
+      throw new DiagramParseError(token ? `Expected a name but found "${token.value}"` : "Unexpected end of file", token?.line ?? lastLine());
+    }
+    pos++;
+    return token.value;
+  };
+
+  const readAttributes = () => {
+    const attrs: Record<string, string> = {};
+    while (isPunct('[')) {
+      pos++;
+      while (!isPunct(']')) {
+        const key = readId();
+        expect('=');
+        attrs[key.toLowerCase()] = readId();
+        if (isPunct(',') || isPunct(';')) pos++;
+      }
+      pos++;
+    }
+    return attrs;
+  };
+
+  // Node defaults set with "node [shape=...]" apply to nodes declared after them
+  let nodeDefaults: Record<string, string> = {};
+
+  const applyNodeAttributes = (node: ParsedNode, attrs: Record<string, string>) => {
+    if (attrs.label !== undefined) node.label = cleanLabel(attrs.label);
+    if (attrs.tooltip !== undefined) node.details = attrs.tooltip;
+    const byClass = attrs.class ? resolveNodeType(attrs.class) : undefined;
+    const shape = attrs.shape?.toLowerCase();
+    // Our own exports mark views as rounded boxes and logic as plain boxes
+    const byShape = shape === 'box' && /rounded/.test(attrs.style || '') ? 'view' : shape ? DOT_SHAPES[shape] : undefined;
+    if (shape && !byShape && !byClass) warnings.push(`Node "${node.id}": shape "${shape}" has no matching type`);
+    node.type = byClass || byShape || node.type;
+  };
+
+  const touchNode = (id: string) => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id };
+      nodes.set(id, node);
+      applyNodeAttributes(node, nodeDefaults);
+    }
+    return node;
+  };
+
+  const readNodeId = () => {
+    const id = readId();
+    // Ports (a:n or a:port:sw) do not matter for the workflow
+    while (isPunct(':')) {
+      pos++;
+      readId();
+    }
+    return id;
+  };
+
+  // An edge endpoint is a node or an anonymous { a b } group
+  const readEndpoint = (): string[] => {
+    if (isPunct('{') || (peek()?.value === 'subgraph' && peek()?.kind === 'id')) return readSubgraph();
+    const id = readNodeId();
+    touchNode(id);
+    return [id];
+  };
+
+  const readSubgraph = (): string[] => {
+    if (peek()?.value === 'subgraph') {
+      pos++;
+      if (!isPunct('{')) readId();
+    }
+    expect('{');
+    const members = readStatements();
+    expect('}');
+    return members;
+  };
+
+  // Returns the ids of every node mentioned, so groups can act as endpoints
+  function readStatements(): string[] {
+    const mentioned = new Set<string>();
+    while (peek() && !isPunct('}')) {
+      const token = peek();
+      if (isPunct(';')) {
+        pos++;
+        continue;
+      }
+      const keyword = token.kind === 'id' ? token.value.toLowerCase() : '';
+      if ((keyword === 'graph' || keyword === 'node' || keyword === 'edge') && isPunct('[', 1)) {
+        pos++;
+        const attrs = readAttributes();
+        if (keyword === 'node') nodeDefaults = { ...nodeDefaults, ...attrs };
+        if (keyword === 'graph' && attrs.rankdir) direction = /^(LR|RL)$/i.test(attrs.rankdir) ? 'LR' : 'TB';
+        continue;
+      }
+      if (token.kind !== 'punct' && isPunct('=', 1)) {
+        const key = readId().toLowerCase();
+        pos++;
+        const value = readId();
+        if (key === 'rankdir') direction = /^(LR|RL)$/i.test(value) ? 'LR' : 'TB';
+        continue;
+      }
+
+      const first = readEndpoint();
+      first.forEach(id => mentioned.add(id));
+      if (isPunct('->') || isPunct('--')) {
+        const chain = [first];
+        while (isPunct('->') || isPunct('--')) {
+          pos++;
+          const next = readEndpoint();
+          next.forEach(id => mentioned.add(id));
+          chain.push(next);
+        }
+        const attrs = readAttributes();
+        const label = attrs.label !== undefined ? cleanLabel(attrs.label) || undefined : undefined;
+        for (let i = 1; i < chain.length; i++) {
+          chain[i - 1].forEach(source => chain[i].forEach(target => edges.push({ source, target, label })));
+        }
+      } else if (first.length === 1 && isPunct('[')) {
+        applyNodeAttributes(touchNode(first[0]), readAttributes());
+      }
+    }
+    return Array.from(mentioned);
+  }
+
+  if (peek()?.value.toLowerCase() === 'strict') pos++;
+  const kind = peek();
+  if (!kind || !/^(di)?graph$/i.test(kind.value)) {
+    throw new DiagramParseError(`Expected "digraph" or "graph"${kind ? ` but found "${kind.value}"` : ''}`, kind?.line ?? 1);
+  }
+  pos++;
+  if (!isPunct('{')) readId();
+  expect('{');
+  readStatements();
+  expect('}');
+  if (peek()) throw new DiagramParseError(`Unexpected "${peek().value}" after the end of the graph`, peek().line);
+
+  return toGraph('dot', nodes, edges, direction, warnings, 'logic');
+};
+
+// --- Entry Point ---
+
+export const detectDiagramFormat = (text: string): DiagramSource | undefined => {
+  const start = text.replace(/^(\s*(%%|\/\/|#).*\n|\s*\/\*[\s\S]*?\*\/)*/, '').trimStart();
+  if (/^(flowchart|graph)\b(\s+(TB|TD|BT|LR|RL))?\s*(;|\n|$)/i.test(start)) return 'mermaid';
+  if (/^(strict\s+)?(di)?graph\b/i.test(start)) return 'dot';
+  return undefined;
+};
+
+export const parseDiagram = (text: string, format?: DiagramSource): ImportedDiagram => {
+  const resolved = format || detectDiagramFormat(text);
+  if (!resolved) throw new DiagramParseError('Could not tell whether this is Mermaid or DOT. Start with "flowchart TD" or "digraph {".', 1);
+  return resolved === 'mermaid' ? parseMermaid(text) : parseDot(text);
+};
@@ -0,0 +1,219 @@
+import { NodeType } from "../types";
+import { NODE_PALETTE } from "../constants";
+
+// Draws the editor graph as a standalone SVG document without React Flow, so
+// it can be saved as an image or embedded in exported briefs. Layout comes
+// from the node positions the user arranged; nodes look like WorkflowNode.
+
+export interface DiagramSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+export interface DiagramSvgOptions {
+  // Fill behind the diagram; null leaves it transparent
+  background?: string | null;
+  // Adds a key of the four node type colors below the diagram
+  legend?: boolean;
+}
+
+const NODE_TYPES: NodeType[] = ['view', 'logic', 'database', 'userAction'];
+const DEFAULT_WIDTH = 260;
+const DEFAULT_HEIGHT = 130;
+const PADDING = 40;
+const FONT = "Helvetica, Arial, sans-serif";
+
+const LEGEND_HEIGHT = 44;
+const LEGEND_ITEM_WIDTH = 120;
+
+const TYPE_LABELS: Record<NodeType, string> = {
+  view: 'View',
+  logic: 'Logic',
+  database: 'Database',
+  userAction: 'User Action',
+};
+
+type Side = 'top' | 'bottom' | 'left' | 'right';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Greedy word wrap by character count; SVG has no text layout of its own
+const wrapText = (text: string, maxChars: number, maxLines: number) => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (current) lines.push(current);
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+    return kept;
+  }
+  return lines;
+};
+
+const boxOf = (node: any): Box => ({
+  x: node.position?.x ?? 0,
+  y: node.position?.y ?? 0,
+  width: node.width || DEFAULT_WIDTH,
+  height: node.height || DEFAULT_HEIGHT,
+});
+
+const anchor = (box: Box, side: Side) => {
+  switch (side) {
+    case 'top': return { x: box.x + box.width / 2, y: box.y };
+    case 'bottom': return { x: box.x + box.width / 2, y: box.y + box.height };
+    case 'left': return { x: box.x, y: box.y + box.height / 2 };
+    case 'right': return { x: box.x + box.width, y: box.y + box.height / 2 };
+  }
+};
+
+const SIDE_VECTORS: Record<Side, [number, number]> = {
+  top: [0, -1],
+  bottom: [0, 1],
+  left: [-1, 0],
+  right: [1, 0],
+};
+
+const renderNode = (node: any, box: Box) => {
+  const type: NodeType = NODE_TYPES.includes(node.data?.type) ? node.data.type : 'logic';
+  const palette = NODE_PALETTE[type];
+  const charsPerLine = Math.max(8, Math.floor((box.width - 32) / 7));
+  const label = wrapText(String(node.data?.label || node.id), Math.floor(charsPerLine * 0.8), 2);
+  const details = wrapText(String(node.data?.details || ''), charsPerLine, 3);
+
+  const parts = [
+    `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="8" fill="${palette.fill}" stroke="${palette.stroke}" stroke-width="2"/>`,
+    `<text x="${box.x + 16}" y="${box.y + 24}" font-size="12" font-weight="bold" letter-spacing="1" fill="${palette.text}" fill-opacity="0.8">${escapeXml(type.toUpperCase())}</text>`,
+    `<line x1="${box.x}" y1="${box.y + 38}" x2="${box.x + box.width}" y2="${box.y + 38}" stroke="#000" stroke-opacity="0.05"/>`,
+  ];
+  let y = box.y + 62;
+  label.forEach(line => {
+    parts.push(`<text x="${box.x + 16}" y="${y}" font-size="17" font-weight="bold" fill="${palette.text}">${escapeXml(line)}</text>`);
+    y += 21;
+  });
+  y -= 3;
+  details.forEach(line => {
+    parts.push(`<text x="${box.x + 16}" y="${y}" font-size="11" fill="${palette.text}" fill-opacity="0.75">${escapeXml(line)}</text>`);
+    y += 15;
+  });
+  return `<g>${parts.join('')}</g>`;
+};
+
+const renderEdge = (edge: any, source: any, target: any, boxes: Map<string, Box>) => {
+  const sourceSide: Side = source.sourcePosition || 'bottom';
+  const targetSide: Side = target.targetPosition || 'top';
+  const from = anchor(boxes.get(source.id)!, sourceSide);
+  const to = anchor(boxes.get(target.id)!, targetSide);
+  const reach = Math.max(40, Math.hypot(to.x - from.x, to.y - from.y) / 3);
+  const c1 = { x: from.x + SIDE_VECTORS[sourceSide][0] * reach, y: from.y + SIDE_VECTORS[sourceSide][1] * reach };
+  const c2 = { x: to.x + SIDE_VECTORS[targetSide][0] * reach, y: to.y + SIDE_VECTORS[targetSide][1] * reach };
+
+  const parts = [
+    `<path d="M${from.x},${from.y} C${c1.x},${c1.y} ${c2.x},${c2.y} ${to.x},${to.y}" fill="none" stroke="#94a3b8" stroke-width="1.5" marker-end="url(#arrow)"/>`,
+  ];
+  const label = typeof edge.label === 'string' ? edge.label.trim() : '';
+  if (label) {
+    // Midpoint of the cubic curve
+    const mid = {
+      x: (from.x + 3 * c1.x + 3 * c2.x + to.x) / 8,
+      y: (from.y + 3 * c1.y + 3 * c2.y + to.y) / 8,
+    };
+    const width = label.length * 6 + 12;
+    parts.push(
+      `<rect x="${mid.x - width / 2}" y="${mid.y - 9}" width="${width}" height="18" rx="3" fill="#ffffff"/>`,
+      `<text x="${mid.x}" y="${mid.y + 4}" font-size="10" text-anchor="middle" fill="#475569">${escapeXml(label)}</text>`
+    );
+  }
+  return `<g>${parts.join('')}</g>`;
+};
+
+const renderLegend = (x: number, y: number) =>
+  `<g>${NODE_TYPES.map((type, i) => {
+    const palette = NODE_PALETTE[type];
+    const left = x + i * LEGEND_ITEM_WIDTH;
+    return `<rect x="${left}" y="${y}" width="14" height="14" rx="3" fill="${palette.fill}" stroke="${palette.stroke}" stroke-width="2"/>` +
+      `<text x="${left + 22}" y="${y + 11}" font-size="12" fill="#475569">${TYPE_LABELS[type]}</text>`;
+  }).join('')}</g>`;
+
+export const renderDiagramSvg = (nodes: any[], edges: any[], { background = '#ffffff', legend = false }: DiagramSvgOptions = {}): DiagramSvg => {
+  const boxes = new Map<string, Box>(nodes.map(n => [n.id, boxOf(n)]));
+  const all = [...boxes.values()];
+  if (all.length === 0) {
+    return {
+      svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${PADDING * 2}" height="${PADDING * 2}"/>`,
+      width: PADDING * 2,
+      height: PADDING * 2,
+    };
+  }
+
+  const minX = Math.min(...all.map(b => b.x)) - PADDING;
+  const minY = Math.min(...all.map(b => b.y)) - PADDING;
+  const graphHeight = Math.ceil(Math.max(...all.map(b => b.y + b.height)) + PADDING - minY);
+  const width = Math.max(
+    Math.ceil(Math.max(...all.map(b => b.x + b.width)) + PADDING - minX),
+    legend ? NODE_TYPES.length * LEGEND_ITEM_WIDTH + PADDING * 2 : 0
+  );
+  const height = graphHeight + (legend ? LEGEND_HEIGHT : 0);
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const edgeMarkup = edges
+    .filter(e => byId.has(e.source) && byId.has(e.target))
+    .map(e => renderEdge(e, byId.get(e.source), byId.get(e.target), boxes));
+  const nodeMarkup = nodes.map(n => renderNode(n, boxes.get(n.id)!));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="${FONT}">`,
+    `<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#94a3b8"/></marker></defs>`,
+    ...(background ? [`<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${background}"/>`] : []),
+    ...edgeMarkup,
+    ...nodeMarkup,
+    ...(legend ? [renderLegend(minX + PADDING, minY + graphHeight)] : []),
+    `</svg>`,
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+// Rasterises the SVG through a canvas. PNG keeps transparency for image
+// exports; JPEG is what the PDF writer can embed without re-compression.
+export const rasterizeSvg = (diagram: DiagramSvg, scale: number, mimeType: 'image/png' | 'image/jpeg'): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([diagram.svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(diagram.width * scale);
+      canvas.height = Math.round(diagram.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error("This browser cannot draw images."));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, diagram.width, diagram.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the diagram image.")), mimeType, 0.92);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the diagram image."));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,186 @@
+import { AppFeature, FeatureChange, FeatureChatMessage, FeatureProposal } from "../types";
+
+// The conversation about the feature list: checking the changes the model
+// proposes against the current features, applying the accepted ones, and
+// cleaning up stored conversations from project files.
+
+// Older turns are dropped from the prompt; the feature list carries the state
+export const CHAT_HISTORY_LIMIT = 12;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const findFeature = (features: AppFeature[], ref: string) =>
+  features.find(f => f.id === ref) ?? features.find(f => f.title.trim().toLowerCase() === ref.toLowerCase());
+
+let messageCounter = 0;
+
+export const createChatMessage = (
+  role: FeatureChatMessage['role'],
+  content: string,
+  changes: FeatureChange[] = [],
+  repairs: string[] = []
+): FeatureChatMessage => ({
+  id: `msg-${Date.now()}-${messageCounter++}`,
+  role,
+  content,
+  ...(changes.length > 0 ? { proposals: changes.map(change => ({ change, accepted: true, status: 'pending' as const })) } : {}),
+  ...(repairs.length > 0 ? { repairs } : {}),
+});
+
+// --- Model Output ---
+
+export interface FeatureChatReply {
+  reply: string;
+  changes: FeatureChange[];
+  fixes: string[];
+}
+
+// Validates { reply, changes: [{ op, featureId?, title?, description? }] }.
+// Edits and removals may name the feature by title; they are resolved to ids.
+export const validateFeatureChatReply = (raw: unknown, features: AppFeature[]): FeatureChatReply => {
+  if (!isObject(raw)) throw new Error('Expected a JSON object with "reply" and "changes".');
+  const reply = text(raw.reply);
+  const rawChanges = raw.changes === undefined ? [] : raw.changes;
+  if (!Array.isArray(rawChanges)) throw new Error('"changes" must be an array.');
+  const fixes: string[] = [];
+  const changes: FeatureChange[] = [];
+  const touched = new Set<string>();
+
+  rawChanges.forEach((c: unknown, i: number) => {
+    const where = `Change #${i + 1}`;
+    if (!isObject(c)) {
+      fixes.push(`${where}: expected an object, dropped`);
+      return;
+    }
+    const op = text(c.op).toLowerCase();
+    const title = text(c.title);
+    const description = text(c.description);
+
+    if (op === 'add') {
+      if (!title) {
+        fixes.push(`${where}: new feature without a title, dropped`);
+        return;
+      }
+      if (findFeature(features, title) || changes.some(other => other.op === 'add' && other.title.toLowerCase() === title.toLowerCase())) {
+        fixes.push(`${where}: "${title}" already exists, dropped`);
+        return;
+      }
+      changes.push({ op: 'add', title, description });
+      return;
+    }
+
+    if (op !== 'edit' && op !== 'remove') {
+      fixes.push(`${where}: unknown operation "${op}", dropped`);
+      return;
+    }
+    const feature = findFeature(features, text(c.featureId));
+    if (!feature) {
+      fixes.push(`${where}: no feature "${text(c.featureId)}" to ${op}, dropped`);
+      return;
+    }
+    if (touched.has(feature.id)) {
+      fixes.push(`${where}: "${feature.title}" is already changed by another proposal, dropped`);
+      return;
+    }
+    if (op === 'remove') {
+      touched.add(feature.id);
+      changes.push({ op: 'remove', featureId: feature.id });
+      return;
+    }
+    const edit = { op: 'edit' as const, featureId: feature.id, title: title || feature.title, description: description || feature.description };
+    if (edit.title === feature.title && edit.description === feature.description) {
+      fixes.push(`${where}: edit of "${feature.title}" changes nothing, dropped`);
+      return;
+    }
+    touched.add(feature.id);
+    changes.push(edit);
+  });
+
+  if (!reply && changes.length === 0) throw new Error('The response had neither a reply nor any changes.');
+  return { reply: reply || 'Here are my suggested changes.', changes, fixes };
+};
+
+// --- Applying ---
+
+// Applies changes in order. Changes whose feature has since been removed are
+// skipped and reported by title.
+export const applyFeatureChanges = (features: AppFeature[], changes: FeatureChange[]) => {
+  let result = [...features];
+  const skipped: string[] = [];
+  changes.forEach((change, i) => {
+    if (change.op === 'add') {
+      result.push({ id: `custom-${Date.now()}-${i}`, title: change.title, description: change.description, selected: true });
+      return;
+    }
+    if (!result.some(f => f.id === change.featureId)) {
+      skipped.push(change.op === 'edit' ? change.title : change.featureId);
+      return;
+    }
+    result = change.op === 'remove'
+      ? result.filter(f => f.id !== change.featureId)
+      : result.map(f => f.id === change.featureId ? { ...f, title: change.title, description: change.description } : f);
+  });
+  return { features: result, skipped };
+};
+
+// What the model sees of earlier turns, including what became of its proposals
+export const chatHistoryForPrompt = (messages: FeatureChatMessage[]) =>
+  messages.slice(-CHAT_HISTORY_LIMIT).map(m => ({
+    role: m.role,
+    content: m.content,
+    ...(m.proposals ? {
+      proposals: m.proposals.map(p => ({ ...p.change, status: p.status })),
+    } : {}),
+  }));
+
+// --- Project Files ---
+
+const sanitizeChange = (raw: unknown): FeatureChange | undefined => {
+  if (!isObject(raw)) return undefined;
+  const title = text(raw.title);
+  const description = typeof raw.description === 'string' ? raw.description : '';
+  const featureId = text(raw.featureId);
+  if (raw.op === 'add' && title) return { op: 'add', title, description };
+  if (raw.op === 'edit' && featureId && title) return { op: 'edit', featureId, title, description };
+  if (raw.op === 'remove' && featureId) return { op: 'remove', featureId };
+  return undefined;
+};
+
+const PROPOSAL_STATUSES: FeatureProposal['status'][] = ['pending', 'applied', 'dismissed'];
+
+export const sanitizeFeatureChat = (raw: unknown, where: string, issues: string[]): FeatureChatMessage[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${where}: expected an array`);
+    return [];
+  }
+  const messages: FeatureChatMessage[] = [];
+  raw.forEach((m, i) => {
+    const path = `${where}[${i}]`;
+    if (!isObject(m) || (m.role !== 'user' && m.role !== 'assistant') || typeof m.content !== 'string') {
+      issues.push(`${path}: not a chat message, dropped`);
+      return;
+    }
+    const proposals: FeatureProposal[] = [];
+    (Array.isArray(m.proposals) ? m.proposals : []).forEach((p: unknown, j: number) => {
+      const change = isObject(p) ? sanitizeChange(p.change) : undefined;
+      if (!isObject(p) || !change) {
+        issues.push(`${path}.proposals[${j}]: not a valid change, dropped`);
+        return;
+      }
+      const status = PROPOSAL_STATUSES.includes(p.status) ? p.status : 'dismissed';
+      proposals.push({ change, accepted: p.accepted !== false, status });
+    });
+    messages.push({
+      id: typeof m.id === 'string' && m.id ? m.id : `msg-${i}`,
+      role: m.role,
+      content: m.content,
+      ...(m.role === 'assistant' && proposals.length > 0 ? { proposals } : {}),
+      ...(m.role === 'assistant' && Array.isArray(m.repairs) ? { repairs: m.repairs.filter((r: unknown): r is string => typeof r === 'string') } : {}),
+    });
+  });
+  return messages;
+};
@@ -0,0 +1,63 @@
+import { AppFeature, FeatureTag } from "../types";
+
+// Which workflow nodes implement which features. Nodes record feature ids in
+// data.featureIds; everything here is derived from that and the feature list.
+
+// Tag colours, assigned by position in the feature list
+const TAG_COLORS = [
+  'bg-rose-100 text-rose-700 border-rose-200',
+  'bg-sky-100 text-sky-700 border-sky-200',
+  'bg-lime-100 text-lime-700 border-lime-200',
+  'bg-fuchsia-100 text-fuchsia-700 border-fuchsia-200',
+  'bg-orange-100 text-orange-700 border-orange-200',
+  'bg-teal-100 text-teal-700 border-teal-200',
+  'bg-violet-100 text-violet-700 border-violet-200',
+  'bg-yellow-100 text-yellow-800 border-yellow-200',
+];
+
+export const featureTags = (features: AppFeature[]): Record<string, FeatureTag> =>
+  Object.fromEntries(features.map((f, i) => [f.id, { id: f.id, title: f.title, color: TAG_COLORS[i % TAG_COLORS.length] }]));
+
+// Resolves model or file values to ids of known features. Models sometimes
+// answer with titles; anything unknown is dropped and reported.
+export const resolveFeatureIds = (raw: unknown, features: AppFeature[], where: string, fixes: string[]): string[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    fixes.push(`${where}: feature ids are not a list, ignored`);
+    return [];
+  }
+  const ids: string[] = [];
+  raw.forEach(value => {
+    const ref = typeof value === 'string' ? value.trim() : '';
+    const feature = features.find(f => f.id === ref) ?? features.find(f => f.title.trim().toLowerCase() === ref.toLowerCase());
+    if (!feature) {
+      fixes.push(`${where}: unknown feature ${JSON.stringify(value)}, unlinked`);
+      return;
+    }
+    if (!ids.includes(feature.id)) ids.push(feature.id);
+  });
+  return ids;
+};
+
+export interface FeatureCoverage {
+  // Node ids per feature id
+  nodesByFeature: Record<string, string[]>;
+  uncoveredFeatures: AppFeature[];
+  // Nodes not linked to any of the features
+  unlinkedNodes: any[];
+}
+
+export const featureCoverage = (features: AppFeature[], nodes: any[]): FeatureCoverage => {
+  const nodesByFeature: Record<string, string[]> = Object.fromEntries(features.map(f => [f.id, []]));
+  const unlinkedNodes: any[] = [];
+  nodes.forEach(n => {
+    const linked = (n.data?.featureIds ?? []).filter((id: string) => nodesByFeature[id]);
+    linked.forEach((id: string) => nodesByFeature[id].push(n.id));
+    if (linked.length === 0) unlinkedNodes.push(n);
+  });
+  return {
+    nodesByFeature,
+    uncoveredFeatures: features.filter(f => nodesByFeature[f.id].length === 0),
+    unlinkedNodes,
+  };
+};
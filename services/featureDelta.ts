@@ -0,0 +1,185 @@
+import { AppFeature, FeatureBasis, GraphData, WorkflowOperation } from "../types";
+
+// Incremental workflow updates: what changed in the feature list since the
+// workflow was built, and keeping the model's operations to that change so
+// hand-made nodes, positions and labels survive.
+
+// Nodes added in the editor; the model never edits or removes them
+export const isManualNode = (node: any) => typeof node?.id === 'string' && node.id.startsWith('manual-');
+
+export const featureBasis = (features: AppFeature[]): FeatureBasis[] =>
+  features.map(({ id, title, description }) => ({ id, title, description }));
+
+export interface FeatureDelta {
+  added: AppFeature[];
+  removed: FeatureBasis[];
+  changed: { before: FeatureBasis; after: AppFeature }[];
+}
+
+// Graphs saved before the basis was recorded only know which features their
+// nodes link to; those count as built and unchanged.
+const basisOf = (graph: GraphData, features: AppFeature[]): FeatureBasis[] => {
+  if (graph.featureBasis) return graph.featureBasis;
+  const linked = new Set<string>(graph.nodes.flatMap(n => n.data?.featureIds ?? []));
+  return Array.from(linked).map(id => {
+    const feature = features.find(f => f.id === id);
+    return feature ? featureBasis([feature])[0] : { id, title: id, description: '' };
+  });
+};
+
+const same = (a: string, b: string) => a.trim() === b.trim();
+
+// Regenerated lists used to reuse ids, so a feature whose title and description
+// both differ from the basis is a different feature under an old id: its nodes
+// go and new ones are built, rather than the old ones being reworded.
+export const computeFeatureDelta = (graph: GraphData, features: AppFeature[]): FeatureDelta => {
+  const basis = basisOf(graph, features);
+  const before = new Map(basis.map(f => [f.id, f]));
+  const isReplaced = (f: AppFeature) => {
+    const old = before.get(f.id);
+    return !!old && !same(old.title, f.title) && !same(old.description, f.description);
+  };
+  const kept = new Set(features.filter(f => before.has(f.id) && !isReplaced(f)).map(f => f.id));
+  return {
+    added: features.filter(f => !kept.has(f.id)),
+    removed: basis.filter(f => !kept.has(f.id)),
+    changed: features
+      .filter(f => kept.has(f.id))
+      .map(f => ({ before: before.get(f.id)!, after: f }))
+      .filter(({ before, after }) => !same(before.title, after.title) || !same(before.description, after.description)),
+  };
+};
+
+export const isEmptyDelta = (delta: FeatureDelta) =>
+  delta.added.length === 0 && delta.removed.length === 0 && delta.changed.length === 0;
+
+export const describeDelta = (delta: FeatureDelta) => [
+  delta.added.length > 0 ? `${delta.added.length} added` : '',
+  delta.removed.length > 0 ? `${delta.removed.length} removed` : '',
+  delta.changed.length > 0 ? `${delta.changed.length} edited` : '',
+].filter(Boolean).join(', ');
+
+export const sanitizeFeatureBasis = (raw: unknown, where: string, issues: string[]): FeatureBasis[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    issues.push(`${where}: expected an array`);
+    return undefined;
+  }
+  return raw.flatMap((f: any, i: number) => {
+    if (typeof f?.id !== 'string' || typeof f.title !== 'string') {
+      issues.push(`${where}[${i}]: not a feature, dropped`);
+      return [];
+    }
+    return [{ id: f.id, title: f.title, description: typeof f.description === 'string' ? f.description : '' }];
+  });
+};
+
+// --- Keeping Edits ---
+
+export interface ConstrainedOperations {
+  operations: WorkflowOperation[];
+  fixes: string[];
+}
+
+// Drops whatever the model wants to do outside the delta: manual nodes and
+// nodes of untouched features stay as they are, existing nodes keep their
+// label, type and position, and connections between kept nodes stay. Nodes
+// still linked to removed features are unlinked, or removed when nothing else
+// needs them. Expects operations from validateWorkflowOperations, with their
+// feature ids already resolved.
+export const constrainFeatureUpdate = (
+  proposed: WorkflowOperation[],
+  nodes: any[],
+  edges: any[],
+  delta: FeatureDelta,
+  features: AppFeature[]
+): ConstrainedOperations => {
+  const fixes: string[] = [];
+  const removedIds = new Set(delta.removed.map(f => f.id));
+  const affectedIds = new Set([...removedIds, ...delta.changed.map(c => c.after.id)]);
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const linkedTo = (node: any): string[] => node?.data?.featureIds ?? [];
+  const isAffected = (node: any) => !!node && !isManualNode(node) && linkedTo(node).some(id => affectedIds.has(id));
+  const labelOf = (id: string) => byId.get(id)?.data?.label ?? id;
+  const edgeTouchesAffected = (id: string) => {
+    const edge = edges.find(e => e.id === id);
+    return !!edge && (isAffected(byId.get(edge.source)) || isAffected(byId.get(edge.target)));
+  };
+
+  let operations: WorkflowOperation[] = [];
+  proposed.forEach(op => {
+    const where = `${op.op} "${op.op.endsWith('Node') ? labelOf(op.id) : op.id}"`;
+    const node = byId.get(op.id);
+
+    switch (op.op) {
+      case 'addNode':
+        if (node) {
+          fixes.push(`${where}: id already in use, dropped`);
+          return;
+        }
+        // New nodes are placed around the existing ones later
+        operations.push({ ...op, x: undefined, y: undefined });
+        return;
+      case 'updateNode':
+      case 'deleteNode': {
+        if (isManualNode(node)) {
+          fixes.push(`${where}: added by hand, kept as it is`);
+          return;
+        }
+        if (node && !isAffected(node)) {
+          fixes.push(`${where}: not part of a changed feature, kept as it is`);
+          return;
+        }
+        if (op.op === 'deleteNode') {
+          const kept = linkedTo(node).filter(id => !affectedIds.has(id) && features.some(f => f.id === id));
+          if (kept.length > 0) {
+            fixes.push(`${where}: still implements ${kept.map(id => `"${features.find(f => f.id === id)!.title}"`).join(', ')}, kept`);
+            return;
+          }
+          operations.push(op);
+          return;
+        }
+        if (op.label !== undefined || op.type !== undefined) fixes.push(`${where}: label and type kept`);
+        if (op.details === undefined && op.featureIds === undefined) return;
+        operations.push({ ...op, label: undefined, type: undefined, x: undefined, y: undefined });
+        return;
+      }
+      case 'updateEdge':
+      case 'deleteEdge':
+        if (edges.some(e => e.id === op.id) && !edgeTouchesAffected(op.id)) {
+          fixes.push(`${where}: connects nodes that are kept, left as it is`);
+          return;
+        }
+        operations.push(op);
+        return;
+      default:
+        operations.push(op);
+    }
+  });
+
+  // Shared nodes the new parts connect to stay, such as the store once every
+  // feature using it was replaced
+  const connected = new Set(operations.flatMap(op => op.op === 'addEdge' || op.op === 'updateEdge' ? [op.source, op.target] : []));
+  operations = operations.map(op => {
+    if (op.op !== 'deleteNode' || !connected.has(op.id) || !byId.has(op.id)) return op;
+    fixes.push(`deleteNode "${labelOf(op.id)}": new nodes connect to it, unlinked instead`);
+    return { op: 'updateNode', id: op.id, featureIds: linkedTo(byId.get(op.id)).filter(id => !removedIds.has(id)), reason: op.reason };
+  });
+
+  // Links to removed features would point at nothing
+  const deleted = new Set(operations.filter(op => op.op === 'deleteNode').map(op => op.id));
+  const relinked = new Set(operations.filter(op => op.op === 'updateNode' && op.featureIds).map(op => op.id));
+  nodes.forEach(node => {
+    const removed = linkedTo(node).filter(id => removedIds.has(id));
+    if (removed.length === 0 || deleted.has(node.id) || relinked.has(node.id)) return;
+    const titles = removed.map(id => `"${delta.removed.find(f => f.id === id)!.title}"`).join(', ');
+    const remaining = linkedTo(node).filter(id => !removedIds.has(id));
+    if (remaining.length === 0 && !isManualNode(node) && !connected.has(node.id)) {
+      operations.push({ op: 'deleteNode', id: node.id, reason: `Only implemented the removed feature ${titles}` });
+    } else {
+      operations.push({ op: 'updateNode', id: node.id, featureIds: remaining, reason: `No longer implements the removed feature ${titles}` });
+    }
+  });
+
+  return { operations, fixes };
+};
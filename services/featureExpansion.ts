@@ -0,0 +1,57 @@
+import { AppFeature } from "../types";
+import { CUSTOM_FEATURE_DESCRIPTION } from "../constants";
+
+// Features added by title alone carry a placeholder description, which gives
+// the workflow prompt nothing to go on. The model writes real ones from the
+// title, the idea and the features around them.
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+export const isStubFeature = (feature: AppFeature) => {
+  const description = feature.description.trim();
+  return !description || description === CUSTOM_FEATURE_DESCRIPTION;
+};
+
+export interface ExpandedFeatures {
+  // New descriptions per feature id
+  descriptions: Record<string, string>;
+  fixes: string[];
+}
+
+// Validates { features: [{ featureId, description }] } against the stubs that were sent
+export const validateExpandedFeatures = (raw: unknown, stubs: AppFeature[]): ExpandedFeatures => {
+  const list = Array.isArray(raw) ? raw : isObject(raw) ? raw.features : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected a JSON object with a "features" array.');
+  const fixes: string[] = [];
+  const descriptions: Record<string, string> = {};
+  const answered = new Set<string>();
+
+  list.forEach((item: unknown, i: number) => {
+    const id = isObject(item) ? text(item.featureId) : '';
+    // Models sometimes answer with the title instead of the id
+    const feature = stubs.find(f => f.id === id) ?? stubs.find(f => f.title.trim().toLowerCase() === id.toLowerCase());
+    const where = feature ? `"${feature.title}"` : `Feature #${i + 1}`;
+    if (!feature) {
+      fixes.push(`${where}: not one of the features to describe, dropped`);
+      return;
+    }
+    answered.add(feature.id);
+    if (descriptions[feature.id]) {
+      fixes.push(`${where}: described twice, second description dropped`);
+      return;
+    }
+    const description = isObject(item) ? text(item.description) : '';
+    if (!description || description === CUSTOM_FEATURE_DESCRIPTION || description.toLowerCase() === feature.title.trim().toLowerCase()) {
+      fixes.push(`${where}: no usable description, dropped`);
+      return;
+    }
+    descriptions[feature.id] = description;
+  });
+
+  if (Object.keys(descriptions).length === 0) throw new Error('The response did not describe any of the features.');
+  stubs.filter(f => !answered.has(f.id)).forEach(f => fixes.push(`"${f.title}": no description returned`));
+  return { descriptions, fixes };
+};
@@ -0,0 +1,279 @@
+import { AcceptanceCriterion, AppFeature, FeatureSize, FeatureSpec, UserStory } from "../types";
+import { MOSCOW_CATEGORIES, RELEASES, formatRiceScore, riceScore } from "./prioritization";
+
+// User stories, Gherkin acceptance criteria and size estimates for features:
+// cleaning them up wherever they come from (the model, the feature card,
+// project files) and exporting them as a backlog to paste into a tracker.
+
+export type BacklogFormat = 'csv' | 'markdown';
+
+export const BACKLOG_FORMATS: Record<BacklogFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: '.csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown', extension: '.md', mimeType: 'text/markdown' },
+};
+
+export const FEATURE_SIZES: FeatureSize[] = ['XS', 'S', 'M', 'L', 'XL'];
+
+// Story points per size on the usual Fibonacci scale
+export const SIZE_POINTS: Record<FeatureSize, number> = { XS: 1, S: 2, M: 3, L: 5, XL: 8 };
+
+const SIZE_ALIASES: Record<string, FeatureSize> = {
+  'extra small': 'XS', 'x-small': 'XS', xsmall: 'XS', tiny: 'XS', small: 'S', medium: 'M',
+  large: 'L', 'extra large': 'XL', 'x-large': 'XL', xlarge: 'XL', huge: 'XL',
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+// The model often repeats the template words it was asked to fill in
+const withoutLead = (value: string, lead: RegExp) => value.replace(lead, '').replace(/[.,;]+$/, '').trim();
+
+const STORY_PATTERN = /^as an?\s+(.+?),?\s+i (?:want|need)\s+(.+?)(?:,?\s+so that\s+(.+?))?\.?$/i;
+
+const toSize = (raw: unknown): FeatureSize | undefined => {
+  if (typeof raw === 'number' && Number.isFinite(raw) && raw > 0) {
+    // Points round up to the next size
+    return FEATURE_SIZES.find(size => SIZE_POINTS[size] >= raw) ?? 'XL';
+  }
+  const value = text(raw);
+  const upper = value.toUpperCase();
+  return FEATURE_SIZES.find(size => size === upper) ?? SIZE_ALIASES[value.toLowerCase()];
+};
+
+const toStory = (raw: unknown): UserStory | undefined => {
+  if (typeof raw === 'string') {
+    const match = text(raw).match(STORY_PATTERN);
+    return match ? { role: match[1], goal: match[2], benefit: match[3] ?? '' } : undefined;
+  }
+  if (!isObject(raw)) return undefined;
+  const role = withoutLead(text(raw.role), /^as an?\s+/i);
+  const goal = withoutLead(text(raw.goal ?? raw.want), /^i (?:want|need)\s+/i);
+  const benefit = withoutLead(text(raw.benefit ?? raw.soThat), /^so that\s+/i);
+  return role && goal ? { role, goal, benefit } : undefined;
+};
+
+const STEP_KEYWORD = /^(given|when|then|and|but)\s+/i;
+
+const toSteps = (raw: unknown): string[] => {
+  const items = typeof raw === 'string' ? raw.split('\n') : Array.isArray(raw) ? raw : [];
+  return items.map(item => withoutLead(text(item), STEP_KEYWORD)).filter(Boolean);
+};
+
+const toCriterion = (raw: unknown): AcceptanceCriterion | undefined => {
+  if (!isObject(raw)) return undefined;
+  const criterion = {
+    scenario: withoutLead(text(raw.scenario ?? raw.title), /^scenario:\s*/i),
+    given: toSteps(raw.given),
+    when: toSteps(raw.when),
+    then: toSteps(raw.then),
+  };
+  return criterion.scenario && criterion.then.length > 0 ? criterion : undefined;
+};
+
+// --- Cleanup ---
+
+// Turns anything shaped roughly like a FeatureSpec into a valid one, or
+// undefined when nothing usable is left. Every change is reported as
+// "<where>...: reason".
+export const sanitizeFeatureSpec = (raw: unknown, where: string, issues: string[]): FeatureSpec | undefined => {
+  if (!isObject(raw)) {
+    issues.push(`${where}: expected an object`);
+    return undefined;
+  }
+  const list = (value: unknown, name: string) => {
+    if (value === undefined) return [];
+    if (Array.isArray(value)) return value;
+    issues.push(`${where}.${name}: expected an array`);
+    return [];
+  };
+
+  const stories: UserStory[] = [];
+  list(raw.stories, 'stories').forEach((s, i) => {
+    const story = toStory(s);
+    if (story) stories.push(story);
+    else issues.push(`${where}.stories[${i}]: not an "As a ..., I want ... so that ..." story, dropped`);
+  });
+
+  const criteria: AcceptanceCriterion[] = [];
+  list(raw.criteria, 'criteria').forEach((c, i) => {
+    const criterion = toCriterion(c);
+    if (criterion) criteria.push(criterion);
+    else issues.push(`${where}.criteria[${i}]: a scenario needs a name and at least one "then" step, dropped`);
+  });
+
+  let size = toSize(raw.size ?? raw.points);
+  if (!size) {
+    issues.push(`${where}.size: missing or unknown size, using M`);
+    size = 'M';
+  }
+
+  if (stories.length === 0 && criteria.length === 0) {
+    issues.push(`${where}: no usable stories or acceptance criteria`);
+    return undefined;
+  }
+  return { stories, criteria, size };
+};
+
+export interface GeneratedFeatureSpecs {
+  // Specs per feature id
+  specs: Record<string, FeatureSpec>;
+  fixes: string[];
+}
+
+// Validates { specs: [{ featureId, stories, criteria, size }] } from the model
+// against the features it was asked about
+export const validateFeatureSpecs = (raw: unknown, features: AppFeature[]): GeneratedFeatureSpecs => {
+  const list = Array.isArray(raw) ? raw : isObject(raw) ? raw.specs : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected a JSON object with a "specs" array.');
+  const fixes: string[] = [];
+  const specs: Record<string, FeatureSpec> = {};
+
+  list.forEach((item: unknown, i: number) => {
+    const id = isObject(item) ? text(item.featureId) : '';
+    // Models sometimes answer with the title instead of the id
+    const feature = features.find(f => f.id === id)
+      ?? features.find(f => f.title.trim().toLowerCase() === id.toLowerCase())
+      ?? (isObject(item) ? features.find(f => f.title.trim().toLowerCase() === text(item.title).toLowerCase()) : undefined);
+    const where = feature ? `"${feature.title}"` : `Spec #${i + 1}`;
+    if (!feature) {
+      fixes.push(`${where}: not one of the requested features, dropped`);
+      return;
+    }
+    if (specs[feature.id]) {
+      fixes.push(`${where}: described twice, second spec dropped`);
+      return;
+    }
+    const spec = sanitizeFeatureSpec(item, where, fixes);
+    if (spec) specs[feature.id] = spec;
+  });
+
+  if (Object.keys(specs).length === 0) throw new Error('The response did not describe any of the requested features.');
+  features.filter(f => !specs[f.id]).forEach(f => fixes.push(`"${f.title}": no spec returned`));
+  return { specs, fixes };
+};
+
+// --- Formatting ---
+
+export const formatStory = (story: UserStory) => {
+  // "an admin", "an unknown visitor", but "a user"
+  const article = /^(?:[aeio]|u(?!s|ni))/i.test(story.role) ? 'an' : 'a';
+  return `As ${article} ${story.role}, I want ${story.goal}${story.benefit ? ` so that ${story.benefit}` : ''}.`;
+};
+
+export const formatScenario = (criterion: AcceptanceCriterion, indent: string = '') => {
+  const steps = (keyword: string, items: string[]) => items.map((step, i) => `${indent}  ${i === 0 ? keyword : 'And'} ${step}`);
+  return [
+    `${indent}Scenario: ${criterion.scenario}`,
+    ...steps('Given', criterion.given),
+    ...steps('When', criterion.when),
+    ...steps('Then', criterion.then),
+  ].join('\n');
+};
+
+export const formatGherkin = (feature: AppFeature) => [
+  `Feature: ${feature.title.trim()}`,
+  ...(feature.spec?.criteria ?? []).flatMap(c => ['', formatScenario(c, '  ')]),
+].join('\n');
+
+// --- Parsing ---
+
+// The card editor works on the formatted text; these read it back. Lines that
+// could not be understood are returned so the editor can point them out.
+export interface ParsedText<T> {
+  items: T[];
+  invalid: string[];
+}
+
+export const parseStories = (value: string): ParsedText<UserStory> => {
+  const items: UserStory[] = [];
+  const invalid: string[] = [];
+  value.split('\n').map(line => line.replace(/^\s*[-*]\s*/, '').trim()).filter(Boolean).forEach(line => {
+    const story = toStory(line);
+    if (story) items.push(story);
+    else invalid.push(line);
+  });
+  return { items, invalid };
+};
+
+export const parseGherkin = (value: string): ParsedText<AcceptanceCriterion> => {
+  const items: AcceptanceCriterion[] = [];
+  const invalid: string[] = [];
+  let current: AcceptanceCriterion | undefined;
+  let section: 'given' | 'when' | 'then' | undefined;
+  value.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#')).forEach(line => {
+    const scenario = line.match(/^scenario(?: outline)?:\s*(.*)$/i);
+    const step = line.match(/^(given|when|then|and|but)\s+(.+)$/i);
+    if (scenario) {
+      current = { scenario: scenario[1].trim(), given: [], when: [], then: [] };
+      section = undefined;
+      items.push(current);
+    } else if (step && current) {
+      const keyword = step[1].toLowerCase();
+      if (keyword === 'given' || keyword === 'when' || keyword === 'then') section = keyword;
+      if (section) current[section].push(step[2].trim());
+      else invalid.push(line);
+    } else if (!/^feature:/i.test(line)) {
+      invalid.push(line);
+    }
+  });
+  // Same rule as sanitizing: a scenario needs a name and an outcome
+  items.filter(c => !c.scenario || c.then.length === 0).forEach(c => invalid.push(`Scenario: ${c.scenario || '(unnamed)'}`));
+  return { items: items.filter(c => c.scenario && c.then.length > 0), invalid };
+};
+
+// --- Export ---
+
+const csvCell = (value: string | number) => {
+  let cell = String(value);
+  // Spreadsheets run cells that start like a formula
+  if (/^[=+\-@]/.test(cell)) cell = `'${cell}`;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+// One row per feature; stories and scenarios share a multi-line cell each
+export const buildBacklogCsv = (features: AppFeature[]) => {
+  const rows = [
+    ['Feature', 'Description', 'Priority', 'Release', 'RICE score', 'Size', 'Story points', 'User stories', 'Acceptance criteria'],
+    ...features.map(f => [
+      f.title.trim(),
+      f.description.trim(),
+      f.moscow ? MOSCOW_CATEGORIES[f.moscow].label : '',
+      f.release ? RELEASES[f.release].label : '',
+      f.rice ? formatRiceScore(riceScore(f.rice)) : '',
+      f.spec?.size ?? '',
+      f.spec ? SIZE_POINTS[f.spec.size] : '',
+      (f.spec?.stories ?? []).map(formatStory).join('\n'),
+      (f.spec?.criteria ?? []).map(c => formatScenario(c)).join('\n\n'),
+    ]),
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+export const buildBacklogMarkdown = (title: string, features: AppFeature[]) => {
+  const lines = [`# ${title.trim() || 'Untitled project'} — Backlog`, ''];
+  if (features.length === 0) lines.push('_No features selected._', '');
+  features.forEach(f => {
+    lines.push(`## ${f.title.trim()}`, '');
+    const planning = [
+      f.moscow ? `**Priority:** ${MOSCOW_CATEGORIES[f.moscow].label}` : '',
+      f.release ? `**Release:** ${RELEASES[f.release].label}` : '',
+      f.rice ? `**RICE:** ${formatRiceScore(riceScore(f.rice))}` : '',
+      f.spec ? `**Size:** ${f.spec.size} (${SIZE_POINTS[f.spec.size]} points)` : '',
+    ].filter(Boolean);
+    if (planning.length > 0) lines.push(planning.join(' · '), '');
+    if (f.description.trim()) lines.push(f.description.trim(), '');
+    if (!f.spec) {
+      lines.push('_No user stories yet._', '');
+      return;
+    }
+    if (f.spec.stories.length > 0) {
+      lines.push('### User Stories', '', ...f.spec.stories.map(s => `- ${formatStory(s)}`), '');
+    }
+    if (f.spec.criteria.length > 0) {
+      lines.push('### Acceptance Criteria', '', '```gherkin', formatGherkin(f), '```', '');
+    }
+  });
+  return lines.join('\n');
+};
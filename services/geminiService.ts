@@ -1,5 +1,20 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AppFeature, GenerationConfig, AiProvider } from "../types";
+import { Type, Schema } from "@google/genai";
+import { AppFeature, FeatureChatMessage, GenerationConfig, AiFixture, AiProvider, AiRequestOptions, FixtureMode, RetryPolicy } from "../types";
+import { DEFAULT_RETRY_POLICY } from "../constants";
+import { validateWorkflowGraph, validateWorkflowOperations } from "./graphValidation";
+import { ValidatedApiDesign, describeApiSurface, validateApiDesign } from "./openApi";
+import { InferredDataModel, validateDataModel } from "./dataModel";
+import { GeneratedFeatureSpecs, validateFeatureSpecs } from "./featureSpecs";
+import { ExpandedFeatures, validateExpandedFeatures } from "./featureExpansion";
+import { SuggestedPriorities, validatePrioritySuggestions } from "./prioritization";
+import { FeatureDelta, isManualNode } from "./featureDelta";
+import { FeatureChatReply, chatHistoryForPrompt, validateFeatureChatReply } from "./featureChat";
+import { AiRequestError, AiResponseError, abortError, isAbortError, throwIfAborted } from "./providers/errors";
+import { createProviderClient } from "./providers/registry";
+import { createRecordingClient, createReplayClient } from "./providers/fixtures";
+import { JsonCall, ProviderClient, ProviderSettings, TextCall } from "./providers/types";
+
+export { AiRequestError, AiResponseError, isAbortError };
 
 // Schema for Feature Generation (Gemini)
 const featureSchema: Schema = {
@@ -27,10 +42,11 @@ const workflowSchema: Schema = {
           type: { type: Type.STRING, enum: ["view", "logic", "database", "userAction"] },
           label: { type: Type.STRING },
           details: { type: Type.STRING },
+          featureIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ids of the features this node implements" },
           x: { type: Type.NUMBER, description: "X coordinate on a grid (0, 300, 600...)" },
           y: { type: Type.NUMBER, description: "Y coordinate on a grid (0, 200, 400...)" },
         },
-        required: ["id", "type", "label", "details", "x", "y"],
+        required: ["id", "type", "label", "details", "featureIds", "x", "y"],
       },
     },
     edges: {
@@ -50,64 +66,406 @@ const workflowSchema: Schema = {
   required: ["nodes", "edges"],
 };
 
+// Schema for Workflow Extension (Gemini). Mirrors the WorkflowOperation type.
+const workflowOperationsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    operations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          op: {
+            type: Type.STRING,
+            enum: ["addNode", "updateNode", "deleteNode", "addEdge", "updateEdge", "deleteEdge"],
+          },
+          id: { type: Type.STRING, description: "Node or edge id. New ids for add operations, existing ids otherwise." },
+          type: { type: Type.STRING, enum: ["view", "logic", "database", "userAction"] },
+          label: { type: Type.STRING },
+          details: { type: Type.STRING },
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER },
+          source: { type: Type.STRING },
+          target: { type: Type.STRING },
+          featureIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ids of the features a new or updated node implements" },
+          reason: { type: Type.STRING, description: "One short sentence explaining the change" },
+        },
+        required: ["op", "id"],
+      },
+    },
+  },
+  required: ["operations"],
+};
+
+// Schema for API Design (Gemini). Mirrors the ApiDesign type.
+const apiFieldSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    type: { type: Type.STRING, enum: ["string", "integer", "number", "boolean", "object"] },
+    format: { type: Type.STRING, description: "e.g. date-time, email, uuid" },
+    ref: { type: Type.STRING, description: "Entity name when the field holds an entity" },
+    list: { type: Type.BOOLEAN },
+    required: { type: Type.BOOLEAN },
+    description: { type: Type.STRING },
+  },
+  required: ["name", "type", "required"],
+};
+
+const apiDesignSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          nodeId: { type: Type.STRING },
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          fields: { type: Type.ARRAY, items: apiFieldSchema },
+        },
+        required: ["nodeId", "name", "fields"],
+      },
+    },
+    operations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          nodeId: { type: Type.STRING },
+          method: { type: Type.STRING, enum: ["get", "post", "put", "patch", "delete"] },
+          path: { type: Type.STRING },
+          summary: { type: Type.STRING },
+          description: { type: Type.STRING },
+          request: { type: Type.ARRAY, items: apiFieldSchema },
+          response: { type: Type.ARRAY, items: apiFieldSchema },
+        },
+        required: ["nodeId", "method", "path", "summary", "request", "response"],
+      },
+    },
+  },
+  required: ["entities", "operations"],
+};
+
+// Schema for Data Model inference (Gemini). Mirrors the DataEntity type.
+const dataModelSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    stores: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          nodeId: { type: Type.STRING },
+          entities: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                fields: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      name: { type: Type.STRING },
+                      type: { type: Type.STRING, enum: ["string", "text", "integer", "decimal", "boolean", "date", "datetime", "uuid", "json"] },
+                      nullable: { type: Type.BOOLEAN },
+                      primaryKey: { type: Type.BOOLEAN },
+                      unique: { type: Type.BOOLEAN },
+                      references: { type: Type.STRING, description: "Name of the entity this foreign key points to" },
+                    },
+                    required: ["name", "type", "nullable"],
+                  },
+                },
+              },
+              required: ["name", "fields"],
+            },
+          },
+        },
+        required: ["nodeId", "entities"],
+      },
+    },
+  },
+  required: ["stores"],
+};
+
+const stepsSchema: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+const featureSpecsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    specs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          featureId: { type: Type.STRING },
+          stories: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                role: { type: Type.STRING },
+                goal: { type: Type.STRING },
+                benefit: { type: Type.STRING },
+              },
+              required: ["role", "goal", "benefit"],
+            },
+          },
+          criteria: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                scenario: { type: Type.STRING },
+                given: stepsSchema,
+                when: stepsSchema,
+                then: stepsSchema,
+              },
+              required: ["scenario", "given", "when", "then"],
+            },
+          },
+          size: { type: Type.STRING, enum: ["XS", "S", "M", "L", "XL"] },
+        },
+        required: ["featureId", "stories", "criteria", "size"],
+      },
+    },
+  },
+  required: ["specs"],
+};
+
+const featureChatSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING },
+    changes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          op: { type: Type.STRING, enum: ["add", "edit", "remove"] },
+          featureId: { type: Type.STRING, description: "Id of the feature to edit or remove" },
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+        },
+        required: ["op"],
+      },
+    },
+  },
+  required: ["reply", "changes"],
+};
+
+const expandFeaturesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    features: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          featureId: { type: Type.STRING },
+          description: { type: Type.STRING },
+        },
+        required: ["featureId", "description"],
+      },
+    },
+  },
+  required: ["features"],
+};
+
+const prioritiesSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    priorities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          featureId: { type: Type.STRING },
+          moscow: { type: Type.STRING, enum: ["must", "should", "could", "wont"] },
+          reach: { type: Type.NUMBER, description: "Users reached per quarter" },
+          impact: { type: Type.NUMBER, description: "One of 0.25, 0.5, 1, 2, 3" },
+          confidence: { type: Type.NUMBER, description: "Percent, 0 to 100" },
+          effort: { type: Type.NUMBER, description: "Person-months" },
+          release: { type: Type.STRING, enum: ["mvp", "v1", "v2", "none"] },
+        },
+        required: ["featureId", "moscow", "reach", "impact", "confidence", "effort", "release"],
+      },
+    },
+  },
+  required: ["priorities"],
+};
+
+const isRetryable = (error: unknown) => {
+  const status = (error as any)?.status;
+  return typeof status === "number" && (status === 429 || status >= 500);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+const backoffDelay = (policy: RetryPolicy, attempt: number, error: unknown) => {
+  const retryAfter = (error as AiRequestError)?.retryAfterMs;
+  if (retryAfter) return retryAfter;
+  // Exponential backoff with a little jitter so parallel tabs do not retry in lockstep
+  return policy.baseDelayMs * 2 ** (attempt - 1) + Math.random() * 250;
+};
+
+// Models sometimes wrap JSON in Markdown fences even when asked not to
+const parseJsonText = (text: string) => {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : text);
+};
+
+// Shared by feature generation and expansion so added features read like the rest
+const styleInstruction = (style: GenerationConfig['featureStyle']) => style === 'creative'
+  ? "Think outside the box. Suggest unique, innovative, and differentiating features that make this app stand out."
+  : "Focus on standard, essential features for this type of app.";
+
+const scopeInstruction = (scope: GenerationConfig['productScope']) => {
+  if (scope === 'mvp') return "Strictly focus on a Minimum Viable Product (MVP). List ONLY the absolute critical core features required to validate the idea. Keep it lean and simple.";
+  if (scope === 'complete') return "Design a complete, production-ready product. Include comprehensive features, including user settings, administration, edge-case handling, and advanced functionality.";
+  return "Create a balanced set of features for a standard release.";
+};
+
+const MAX_ECHOED_RESPONSE = 4000;
+
+// --- Response Validators ---
+
+const validateFeatureList = (data: any): Omit<AppFeature, 'selected' | 'id'>[] => {
+  const list = Array.isArray(data) ? data : data?.features;
+  if (!Array.isArray(list)) throw new Error('Expected a JSON array of features (or an object with a "features" array).');
+  const features = list
+    .filter((f: any) => f && typeof f.title === "string" && f.title.trim())
+    .map((f: any) => ({ title: f.title, description: typeof f.description === "string" ? f.description : "" }));
+  if (features.length === 0) throw new Error('No feature had a "title" string.');
+  return features;
+};
+
+interface JsonRequest<T> extends JsonCall {
+  // Throws with a readable message when the parsed data is unusable
+  validate: (data: any) => T;
+}
+
+export interface FixtureSession {
+  mode: FixtureMode;
+  // Responses to answer with in 'replay' mode
+  fixtures: AiFixture[];
+  // Receives every response in 'record' mode
+  onRecord?: (fixture: AiFixture) => void;
+}
+
 export class AiService {
-  private ai: GoogleGenAI | null = null;
-  private apiKey: string;
-  private modelName: string;
-  private provider: AiProvider;
-
-  constructor(apiKey: string, modelName: string, provider: AiProvider) {
-    this.apiKey = apiKey;
-    this.modelName = modelName;
-    this.provider = provider;
-    
-    if (this.provider === 'gemini') {
-      this.ai = new GoogleGenAI({ apiKey });
+  private client: ProviderClient;
+  private retryPolicy: RetryPolicy;
+
+  constructor(
+    provider: AiProvider,
+    settings: ProviderSettings,
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    session: FixtureSession = { mode: 'off', fixtures: [] }
+  ) {
+    if (session.mode === 'replay') {
+      this.client = createReplayClient(session.fixtures);
+    } else if (session.mode === 'record' && session.onRecord) {
+      this.client = createRecordingClient(createProviderClient(provider, settings), session.onRecord);
+    } else {
+      this.client = createProviderClient(provider, settings);
     }
+    this.retryPolicy = retryPolicy;
   }
 
-  // --- OpenAI Helper ---
-  private async callOpenAI(systemInstruction: string, prompt: string, requireJson: boolean = false): Promise<any> {
-    const messages = [
-      { role: "system", content: systemInstruction },
-      { role: "user", content: prompt }
-    ];
-
-    const body: any = {
-      model: this.modelName,
-      messages: messages,
-    };
+  // --- Retry Policy ---
 
-    if (requireJson) {
-      body.response_format = { type: "json_object" };
+  // Runs a provider call, retrying rate limits and server errors with backoff.
+  private async withRetry<T>(
+    run: (attempt: number) => Promise<T>,
+    options: AiRequestOptions,
+    // Return true to spend another attempt on a response-level failure
+    onFailure?: (error: unknown, attempt: number) => boolean
+  ): Promise<T> {
+    const policy = this.retryPolicy;
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(options.signal);
+      options.onAttempt?.(attempt, policy.maxAttempts);
+      try {
+        return await run(attempt);
+      } catch (error) {
+        if (isAbortError(error) || attempt >= policy.maxAttempts) throw error;
+        if (isRetryable(error)) {
+          await sleep(backoffDelay(policy, attempt, error), options.signal);
+        } else if (!onFailure?.(error, attempt)) {
+          throw error;
+        }
+      }
     }
+  }
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.apiKey}`
-      },
-      body: JSON.stringify(body)
+  // Requests JSON and re-prompts the model with its own output and the error
+  // whenever the response does not parse or fails validation.
+  private async requestJson<T>(request: JsonRequest<T>, options: AiRequestOptions = {}): Promise<T> {
+    const { validate, ...call } = request;
+    let prompt = request.prompt;
+    return this.withRetry(async () => {
+      const text = await this.client.generateJson({ ...call, prompt }, options.signal);
+      let data: any;
+      try {
+        data = parseJsonText(text);
+      } catch (e) {
+        throw new AiResponseError(`The response was not valid JSON (${(e as Error).message}).`, text);
+      }
+      try {
+        return validate(data);
+      } catch (e) {
+        throw new AiResponseError((e as Error).message, text);
+      }
+    }, options, (error) => {
+      if (!(error instanceof AiResponseError)) return false;
+      prompt = `${request.prompt}
+
+    Your previous response could not be used: ${error.message}
+    Previous response:
+    ${error.rawText.slice(0, MAX_ECHOED_RESPONSE)}
+
+    Return the corrected JSON only.`;
+      return true;
     });
+  }
 
-    if (!response.ok) {
-        const err = await response.text();
-        throw new Error(`OpenAI API Error: ${err}`);
-    }
+  private async requestText(call: TextCall, options: AiRequestOptions = {}): Promise<string> {
+    return this.withRetry(() => this.client.generateText(call, options.signal), options);
+  }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    if (requireJson) {
-        try {
-            return JSON.parse(content);
-        } catch (e) {
-            console.error("Failed to parse OpenAI JSON", content);
-            throw new Error("Invalid JSON response from OpenAI");
+  // Streams text chunks. Failures are only retried before the first chunk
+  // arrives; after that a retry would repeat text the caller already shows.
+  private async *streamText(call: TextCall, options: AiRequestOptions = {}): AsyncGenerator<string> {
+    const policy = this.retryPolicy;
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(options.signal);
+      options.onAttempt?.(attempt, policy.maxAttempts);
+      let started = false;
+      try {
+        for await (const chunk of this.client.streamText(call, options.signal)) {
+          started = true;
+          yield chunk;
         }
+        return;
+      } catch (error) {
+        if (started || isAbortError(error) || attempt >= policy.maxAttempts || !isRetryable(error)) throw error;
+        await sleep(backoffDelay(policy, attempt, error), options.signal);
+      }
     }
-    return content;
   }
 
   // --- Public Methods ---
@@ -115,64 +473,43 @@ export class AiService {
   async generateFeatures(
     idea: string, 
     style: GenerationConfig['featureStyle'],
-    scope: GenerationConfig['productScope']
+    scope: GenerationConfig['productScope'],
+    options: AiRequestOptions = {}
   ): Promise<Omit<AppFeature, 'selected' | 'id'>[]> {
-    
-    let styleInstruction = "Focus on standard, essential features for this type of app.";
-    if (style === 'creative') {
-      styleInstruction = "Think outside the box. Suggest unique, innovative, and differentiating features that make this app stand out.";
-    }
-
-    let scopeInstruction = "Create a balanced set of features for a standard release.";
-    if (scope === 'mvp') {
-      scopeInstruction = "Strictly focus on a Minimum Viable Product (MVP). List ONLY the absolute critical core features required to validate the idea. Keep it lean and simple.";
-    } else if (scope === 'complete') {
-      scopeInstruction = "Design a complete, production-ready product. Include comprehensive features, including user settings, administration, edge-case handling, and advanced functionality.";
-    }
-
     const basePrompt = `Generate a list of feature cards for a web/mobile application based on this idea: "${idea}". 
     
-    Style: ${styleInstruction}
-    Scope: ${scopeInstruction}
+    Style: ${styleInstruction(style)}
+    Scope: ${scopeInstruction(scope)}
 
     Focus on interactive and functional features.`;
 
-    // GEMINI IMPLEMENTATION
-    if (this.provider === 'gemini') {
-        if (!this.ai) throw new Error("AI not initialized");
-        const response = await this.ai.models.generateContent({
-          model: this.modelName,
-          contents: basePrompt + " Return a JSON array.",
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: featureSchema,
-            systemInstruction: "You are an expert product manager.",
-          },
-        });
-        const text = response.text;
-        if (!text) return [];
-        return JSON.parse(text);
-    } 
-    
-    // OPENAI IMPLEMENTATION
-    else {
-        const prompt = basePrompt + `
+    // Schema-enforcing providers return the bare array; JSON modes need a top-level object
+    const prompt = this.client.supportsSchema
+      ? basePrompt + " Return a JSON array."
+      : basePrompt + `
         Return a JSON object with a key "features" which is an array of objects.
         Each object must have "title" and "description" fields.
         Example: { "features": [{ "title": "Login", "description": "..." }] }
         `;
-        const result = await this.callOpenAI("You are an expert product manager. Output valid JSON.", prompt, true);
-        return result.features || [];
-    }
+
+    return this.requestJson({
+      task: 'features',
+      systemInstruction: "You are an expert product manager.",
+      prompt,
+      input: { idea, style, scope },
+      schema: featureSchema,
+      validate: validateFeatureList,
+    }, options);
   }
 
   async generateWorkflow(
     idea: string, 
     features: AppFeature[], 
     complexity: GenerationConfig['workflowComplexity'], 
-    type: GenerationConfig['workflowType']
+    type: GenerationConfig['workflowType'],
+    options: AiRequestOptions = {}
   ) {
-    const featureList = features.map(f => `${f.title}: ${f.description}`).join('\n');
+    const featureList = features.map(f => `[${f.id}] ${f.title}: ${f.description}`).join('\n');
     
     let complexityInstruction = "Create a clear, high-level workflow.";
     if (complexity === 'complex') {
@@ -197,84 +534,379 @@ export class AiService {
     Return a JSON structure with 'nodes' and 'edges'. 
     Nodes must have x,y coordinates spaced out logically (approx 250-300px gap) to form a visual flow.
     Node types: 'view' (UI screens), 'logic' (functions/api calls), 'database' (storage), 'userAction' (clicks).
+    Every node lists the ids of the features it helps implement in "featureIds" (the ids in square brackets above).
+    Shared nodes list every feature they serve; use an empty list only for nodes no feature needs.
     
     Structure:
     {
-      "nodes": [{ "id": "1", "type": "view", "label": "Home", "details": "...", "x": 0, "y": 0 }],
+      "nodes": [{ "id": "1", "type": "view", "label": "Home", "details": "...", "featureIds": ["f-0"], "x": 0, "y": 0 }],
       "edges": [{ "id": "e1", "source": "1", "target": "2", "label": "Click" }]
     }
     `;
 
-    // GEMINI
-    if (this.provider === 'gemini') {
-        if (!this.ai) throw new Error("AI not initialized");
-        const response = await this.ai.models.generateContent({
-          model: this.modelName,
-          contents: prompt,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: workflowSchema,
-            systemInstruction: "You are a software architect specializing in React Flow diagrams.",
-          },
-        });
-        const text = response.text;
-        if (!text) throw new Error("No content generated");
-        return JSON.parse(text);
-    }
-    
-    // OPENAI
-    else {
-        const result = await this.callOpenAI("You are a software architect specializing in React Flow diagrams. Output valid JSON.", prompt, true);
-        return result;
-    }
+    return this.requestJson({
+      task: 'workflow',
+      systemInstruction: "You are a software architect specializing in React Flow diagrams.",
+      prompt,
+      input: { idea, features, complexity, type },
+      schema: workflowSchema,
+      // Anything validation can repair is fine here; only unusable graphs are retried
+      validate: (data) => {
+        validateWorkflowGraph(data, features);
+        return data;
+      },
+    }, options);
   }
 
-  async extendWorkflow(currentNodes: any[], currentEdges: any[], request: string) {
-    const context = JSON.stringify({ nodes: currentNodes, edges: currentEdges });
+  async extendWorkflow(currentNodes: any[], currentEdges: any[], request: string, features: AppFeature[], options: AiRequestOptions = {}) {
+    const context = JSON.stringify({
+      nodes: currentNodes.map((n: any) => ({
+        id: n.id, type: n.data?.type || n.type, label: n.data?.label, details: n.data?.details,
+        featureIds: n.data?.featureIds ?? [],
+        x: Math.round(n.position?.x ?? 0), y: Math.round(n.position?.y ?? 0),
+      })),
+      edges: currentEdges.map((e: any) => ({ id: e.id, source: e.source, target: e.target, label: e.label })),
+    });
     
     const prompt = `
-    Existing Workflow JSON: ${context}
+    Existing Workflow JSON (featureIds are the features each node implements): ${context}
+
+    Features (id in brackets):
+    ${features.map(f => `[${f.id}] ${f.title}: ${f.description}`).join('\n    ')}
+    
+    User Request: "${request}"
     
-    User Request: "Add a feature: ${request}"
+    Return the list of operations that changes the existing workflow to satisfy the request.
+    Allowed operations:
+    - addNode: { "op": "addNode", "id", "type", "label", "details", "featureIds", "x", "y" }
+    - updateNode: { "op": "updateNode", "id", and only the fields that change: "label", "details", "type", "featureIds" }
+    - deleteNode: { "op": "deleteNode", "id" } (its connections are removed with it)
+    - addEdge: { "op": "addEdge", "id", "source", "target", "label" }
+    - updateEdge: { "op": "updateEdge", "id", and only the fields that change: "source", "target", "label" }
+    - deleteEdge: { "op": "deleteEdge", "id" }
     
-    Generate ONLY the NEW nodes and NEW edges required to implement this feature into the existing workflow.
-    - Connect new nodes to relevant existing nodes by ID.
-    - Do NOT return the old nodes/edges, only the new ones.
-    - Ensure new nodes have distinct IDs (e.g., prefix with 'new-').
+    Rules:
+    - Reference existing nodes and edges by their exact IDs.
+    - New nodes and edges need distinct IDs (e.g., prefix with 'new-').
+    - Operations are applied in order, so add a node before connecting it.
+    - Merging nodes means updating one and deleting the others, then reconnecting their edges.
     - Place new nodes at x,y coordinates that don't overlap heavily with existing ones.
+    - Give every new node the ids of the features it implements in "featureIds" (an empty list if none).
+    - Add a short "reason" to every operation.
+    - Do NOT repeat unchanged nodes or edges.
     
-    Return JSON format: { "nodes": [...], "edges": [...] }
+    Return JSON format: { "operations": [{ "op": "addNode", "id": "new-1", "type": "view", "label": "...", "details": "...", "featureIds": ["f-1"], "x": 0, "y": 0, "reason": "..." }] }
     `;
 
-    // GEMINI
-    if (this.provider === 'gemini') {
-        if (!this.ai) throw new Error("AI not initialized");
-        const response = await this.ai.models.generateContent({
-          model: this.modelName,
-          contents: prompt,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: workflowSchema,
-          },
-        });
-        const text = response.text;
-        if (!text) throw new Error("No content generated");
-        return JSON.parse(text);
-    } 
-    
-    // OPENAI
-    else {
-        const result = await this.callOpenAI("You are a software architect. Output valid JSON.", prompt, true);
-        return result;
+    return this.requestJson({
+      task: 'extendWorkflow',
+      systemInstruction: "You are a software architect.",
+      prompt,
+      input: { nodes: currentNodes, edges: currentEdges, request, features },
+      schema: workflowOperationsSchema,
+      validate: (data) => {
+        validateWorkflowOperations(data, features);
+        return data;
+      },
+    }, options);
+  }
+
+  // Brings an existing workflow in line with changes to its features, using the
+  // same operations as extendWorkflow. constrainFeatureUpdate then keeps the
+  // result to the delta before anything is shown for review.
+  async updateWorkflowForFeatures(
+    idea: string,
+    currentNodes: any[],
+    currentEdges: any[],
+    delta: FeatureDelta,
+    features: AppFeature[],
+    type: GenerationConfig['workflowType'],
+    options: AiRequestOptions = {}
+  ) {
+    const workflow = {
+      nodes: currentNodes.map((n: any) => ({
+        id: n.id, type: n.data?.type || n.type, label: n.data?.label, details: n.data?.details,
+        featureIds: n.data?.featureIds ?? [], manual: isManualNode(n),
+      })),
+      edges: currentEdges.map((e: any) => ({ id: e.id, source: e.source, target: e.target, label: e.label })),
+    };
+    const changes = {
+      added: delta.added.map(f => ({ featureId: f.id, title: f.title, description: f.description })),
+      removed: delta.removed.map(f => ({ featureId: f.id, title: f.title })),
+      edited: delta.changed.map(c => ({ featureId: c.after.id, before: { title: c.before.title, description: c.before.description }, after: { title: c.after.title, description: c.after.description } })),
+    };
+
+    const prompt = `The feature list of the application "${idea}" changed after its workflow was designed.
+
+    Existing Workflow JSON (featureIds are the features each node implements): ${JSON.stringify(workflow)}
+
+    Feature changes JSON: ${JSON.stringify(changes)}
+
+    Return the operations that update the workflow for these changes only:
+    - addNode: { "op": "addNode", "id", "type", "label", "details", "featureIds" } for what added or edited features need
+    - updateNode: { "op": "updateNode", "id", "details", "featureIds" } for nodes of edited features whose details no longer fit
+    - deleteNode: { "op": "deleteNode", "id" } for nodes that only served removed features
+    - addEdge: { "op": "addEdge", "id", "source", "target", "label" } to connect new nodes to the existing flow
+    - updateEdge / deleteEdge for connections of the nodes above
+
+    Rules:
+    - Leave nodes of unchanged features alone, and never change nodes with "manual": true.
+    - A featureId that is both removed and added names a replaced feature: drop its old nodes and design new ones.
+    - Keep the labels of existing nodes; only their details and featureIds may change.
+    - Reuse existing shared nodes (screens, stores, services) instead of duplicating them, and connect to them.
+    - Node types: 'view', 'logic', ${type === 'frontend-only' ? "and 'userAction' (no database nodes)" : "'database' and 'userAction'"}.
+    - New ids need a 'new-' prefix. Add a node before connecting it. Add a short "reason" to every operation.
+
+    Return JSON format: { "operations": [{ "op": "addNode", "id": "new-1", "type": "view", "label": "...", "details": "...", "featureIds": ["f-3"], "reason": "..." }] }
+    `;
+
+    return this.requestJson({
+      task: 'updateWorkflow',
+      systemInstruction: "You are a software architect.",
+      prompt,
+      input: { idea, nodes: workflow.nodes, edges: workflow.edges, changes, type },
+      schema: workflowOperationsSchema,
+      validate: (data) => {
+        validateWorkflowOperations(data, features);
+        return data;
+      },
+    }, options);
+  }
+
+  // Designs request/response fields and entity schemas for the OpenAPI export.
+  // The result still goes through buildOpenApiDocument, which owns the spec layout.
+  async generateApiDesign(idea: string, nodes: any[], edges: any[], options: AiRequestOptions = {}): Promise<ValidatedApiDesign> {
+    const surface = describeApiSurface(nodes, edges);
+
+    const prompt = `Design the HTTP API for the application "${idea}".
+
+    Endpoints are the logic components of its workflow. "triggers" are the user actions that call an endpoint,
+    "callers" are the screens that call it and "stores" are the ids of the data stores it reads or writes.
+    Data stores that list "entities" already have a data model: reuse those entity names and fields.
+    API Surface JSON: ${JSON.stringify(surface)}
+
+    Return:
+    - One entity per data store: its "nodeId", a singular PascalCase "name" and the record "fields".
+    - One operation per endpoint: its "nodeId", "method" (get, post, put, patch or delete), a REST "path"
+      such as "/orders/{orderId}" without an /api prefix, a short "summary", and the "request" and "response" fields.
+
+    Fields: { "name", "type" (string, integer, number, boolean or object), "format" (optional), "ref" (optional entity name),
+    "list" (true for arrays), "required", "description" }.
+    Path parameters must also appear as required request fields. GET and DELETE requests become query parameters.
+    Use "ref" to return stored records instead of repeating their fields.
+
+    Return JSON format: {
+      "entities": [{ "nodeId": "db-1", "name": "Order", "fields": [{ "name": "id", "type": "string", "format": "uuid", "required": true }] }],
+      "operations": [{ "nodeId": "logic-1", "method": "get", "path": "/orders", "summary": "List orders", "request": [],
+        "response": [{ "name": "items", "type": "object", "ref": "Order", "list": true, "required": true }] }]
     }
+    `;
+
+    return this.requestJson({
+      task: 'apiDesign',
+      systemInstruction: "You are an API designer who writes clean, consistent REST APIs.",
+      prompt,
+      input: { idea, nodes, edges },
+      schema: apiDesignSchema,
+      validate: (data) => validateApiDesign(data, nodes),
+    }, options);
   }
 
-  async generateDescription(
-    idea: string, 
-    nodes: any[], 
-    edges: any[], 
-    length: GenerationConfig['summaryLength']
-  ): Promise<string> {
+  // One turn of the conversation about the feature list. The reply can carry
+  // changes, which the user reviews before anything is applied.
+  async chatAboutFeatures(
+    idea: string,
+    features: AppFeature[],
+    history: FeatureChatMessage[],
+    message: string,
+    options: AiRequestOptions = {}
+  ): Promise<FeatureChatReply> {
+    const list = features.map(f => ({ featureId: f.id, title: f.title, description: f.description, selected: f.selected }));
+    const previous = chatHistoryForPrompt(history);
+
+    const prompt = `You are helping refine the feature list of the application "${idea}".
+
+    Current features JSON: ${JSON.stringify(list)}
+
+    Conversation so far JSON (proposal statuses show what the user applied or dismissed): ${JSON.stringify(previous)}
+
+    User message: "${message}"
+
+    Answer the user in "reply" (a few sentences, plain text). When the message asks for changes to the list,
+    also return them in "changes":
+    - { "op": "add", "title", "description" } for a new feature
+    - { "op": "edit", "featureId", "title", "description" } to rewrite an existing feature
+    - { "op": "remove", "featureId" } to drop a feature
+    Splitting a feature is a remove plus the adds. Use the featureId values from the current list.
+    Return an empty "changes" array when you are only answering a question.
+
+    Return JSON format: { "reply": "...", "changes": [{ "op": "add", "title": "Team Workspaces", "description": "..." }] }
+    `;
+
+    return this.requestJson({
+      task: 'featureChat',
+      systemInstruction: "You are an expert product manager.",
+      prompt,
+      input: { idea, features: list, history: previous, message },
+      schema: featureChatSchema,
+      validate: (data) => validateFeatureChatReply(data, features),
+    }, options);
+  }
+
+  // Writes descriptions for features that were added by title only, in the
+  // voice of the features already on the list
+  async expandFeatures(
+    idea: string,
+    stubs: AppFeature[],
+    siblings: AppFeature[],
+    style: GenerationConfig['featureStyle'],
+    scope: GenerationConfig['productScope'],
+    options: AiRequestOptions = {}
+  ): Promise<ExpandedFeatures> {
+    const list = stubs.map(f => ({ featureId: f.id, title: f.title }));
+    const others = siblings.map(f => ({ title: f.title, description: f.description }));
+
+    const prompt = `Write descriptions for features that were added by title to the application "${idea}".
+
+    Features to describe JSON: ${JSON.stringify(list)}
+
+    The other features on the list JSON: ${JSON.stringify(others)}
+
+    Style: ${styleInstruction(style)}
+    Scope: ${scopeInstruction(scope)}
+
+    Write one or two sentences per feature saying what the user can do and what it covers, matching the length
+    and tone of the other descriptions. Do not repeat what other features already cover and do not rename the features.
+
+    Return JSON format: { "features": [{ "featureId": "custom-1", "description": "..." }] }
+    `;
+
+    return this.requestJson({
+      task: 'expandFeatures',
+      systemInstruction: "You are an expert product manager.",
+      prompt,
+      input: { idea, features: list, siblings: others, style, scope },
+      schema: expandFeaturesSchema,
+      validate: (data) => validateExpandedFeatures(data, stubs),
+    }, options);
+  }
+
+  // Suggests a MoSCoW category, RICE inputs and a release for every feature
+  async suggestPriorities(
+    idea: string,
+    features: AppFeature[],
+    scope: GenerationConfig['productScope'],
+    options: AiRequestOptions = {}
+  ): Promise<SuggestedPriorities> {
+    const list = features.map(f => ({ featureId: f.id, title: f.title, description: f.description }));
+    const scopeHint = scope === 'mvp'
+      ? "The team is building a lean MVP: only what is needed to validate the idea is a Must and goes into the MVP release. Be strict."
+      : "The team is planning a complete product: spread the features over the MVP, v1 and v2 releases, with the core in the MVP.";
+
+    const prompt = `Prioritize the features of the application "${idea}".
+
+    Features JSON: ${JSON.stringify(list)}
+
+    ${scopeHint}
+
+    For every feature return:
+    - "moscow": must, should, could or wont
+    - RICE inputs: "reach" (users per quarter), "impact" (0.25, 0.5, 1, 2 or 3), "confidence" (percent) and "effort" (person-months)
+    - "release": mvp, v1 or v2, or none for wont features. Must features belong in the MVP.
+
+    Return JSON format: { "priorities": [{ "featureId": "f-0", "moscow": "must", "reach": 1000, "impact": 2, "confidence": 80, "effort": 1, "release": "mvp" }] }
+    `;
+
+    return this.requestJson({
+      task: 'priorities',
+      systemInstruction: "You are an expert product manager.",
+      prompt,
+      input: { idea, features: list, scope },
+      schema: prioritiesSchema,
+      validate: (data) => validatePrioritySuggestions(data, features),
+    }, options);
+  }
+
+  // Writes user stories, acceptance criteria and a size for each feature
+  async generateFeatureSpecs(idea: string, features: AppFeature[], options: AiRequestOptions = {}): Promise<GeneratedFeatureSpecs> {
+    const list = features.map(f => ({ featureId: f.id, title: f.title, description: f.description }));
+
+    const prompt = `Write backlog items for these features of the application "${idea}".
+
+    Features JSON: ${JSON.stringify(list)}
+
+    For every feature return:
+    - "stories": 1 to 3 user stories as { "role", "goal", "benefit" }, read as "As a <role>, I want <goal> so that <benefit>".
+      Leave the template words out of the values.
+    - "criteria": 2 to 4 Gherkin scenarios as { "scenario", "given", "when", "then" }, each step list holding
+      plain step texts without the Given/When/Then keyword. Cover the main path and at least one failure or edge case.
+    - "size": a relative estimate, one of XS, S, M, L, XL.
+
+    Return JSON format: { "specs": [{ "featureId": "f-0",
+      "stories": [{ "role": "shopper", "goal": "to save items to a wishlist", "benefit": "I can buy them later" }],
+      "criteria": [{ "scenario": "Add an item", "given": ["I am signed in"], "when": ["I tap the heart on a product"], "then": ["the product appears in my wishlist"] }],
+      "size": "M" }] }
+    `;
+
+    return this.requestJson({
+      task: 'featureSpecs',
+      systemInstruction: "You are an expert product manager who writes clear, testable backlog items.",
+      prompt,
+      input: { idea, features: list },
+      schema: featureSpecsSchema,
+      validate: (data) => validateFeatureSpecs(data, features),
+    }, options);
+  }
+
+  // Infers typed entities for every database node from the features and the
+  // components that read and write each store.
+  async inferDataModel(idea: string, features: AppFeature[], nodes: any[], edges: any[], options: AiRequestOptions = {}): Promise<InferredDataModel> {
+    const labelOf = (id: string) => nodes.find((n: any) => n.id === id)?.data?.label;
+    const stores = nodes.filter((n: any) => n.data?.type === 'database').map((n: any) => ({
+      nodeId: n.id,
+      label: n.data.label,
+      details: n.data.details,
+      usedBy: edges
+        .flatMap((e: any) => e.source === n.id ? [e.target] : e.target === n.id ? [e.source] : [])
+        .map(labelOf)
+        .filter(Boolean),
+      currentEntities: n.data.entities ?? [],
+    }));
+    const featureList = features.map(f => `${f.title}: ${f.description}`).join('\n');
+
+    const prompt = `Design the relational data model for the application "${idea}".
+
+    Features:
+    ${featureList}
+
+    Data stores JSON: ${JSON.stringify(stores)}
+
+    For every data store, list the entities (tables) it holds and their fields.
+    Rules:
+    - Entity names are singular PascalCase and unique across all stores. Field names are camelCase.
+    - Field types: string, text, integer, decimal, boolean, date, datetime, uuid, json.
+    - Every entity has exactly one primary key field, usually "id" of type uuid.
+    - Express relations as foreign key fields named after the target (e.g. "authorId") with "references" set to the target entity name.
+      Mark a foreign key "unique" for one-to-one relations. Model many-to-many relations with a join entity.
+    - Mark optional fields "nullable". Keep existing entities unless the features call for changes.
+
+    Return JSON format: { "stores": [{ "nodeId": "db-1", "entities": [{ "name": "Post", "fields": [
+      { "name": "id", "type": "uuid", "nullable": false, "primaryKey": true },
+      { "name": "authorId", "type": "uuid", "nullable": false, "references": "User" }
+    ] }] }] }
+    `;
+
+    return this.requestJson({
+      task: 'dataModel',
+      systemInstruction: "You are a database architect.",
+      prompt,
+      input: { idea, features, nodes, edges },
+      schema: dataModelSchema,
+      validate: (data) => validateDataModel(data, nodes),
+    }, options);
+  }
+
+  private descriptionPrompt(idea: string, nodes: any[], edges: any[], length: GenerationConfig['summaryLength']) {
     const workflowContext = JSON.stringify({ nodes: nodes.map((n:any) => ({ label: n.data.label, type: n.data.type, details: n.data.details })), edges: edges.length });
     
     let lengthInstruction = "Write a concise 1-paragraph summary abstract.";
@@ -282,7 +914,7 @@ export class AiService {
       lengthInstruction = "Write a comprehensive technical document including architecture overview, user flow breakdown, and data handling details. Use Markdown formatting with headers.";
     }
 
-    const prompt = `Based on the following workflow design, write a professional technical explanation for the application "${idea}".
+    return `Based on the following workflow design, write a professional technical explanation for the application "${idea}".
     
     Workflow Summary: ${workflowContext}
     
@@ -292,20 +924,29 @@ export class AiService {
     1. Summary of the architecture.
     2. Key interactions described in the diagram.
     `;
+  }
 
-    // GEMINI
-    if (this.provider === 'gemini') {
-        if (!this.ai) throw new Error("AI not initialized");
-        const response = await this.ai.models.generateContent({
-          model: this.modelName,
-          contents: prompt,
-        });
-        return response.text || "Could not generate description.";
-    } 
-    
-    // OPENAI
-    else {
-        return await this.callOpenAI("You are a technical writer.", prompt, false);
-    }
+  async generateDescription(
+    idea: string, 
+    nodes: any[], 
+    edges: any[], 
+    length: GenerationConfig['summaryLength'],
+    options: AiRequestOptions = {}
+  ): Promise<string> {
+    const prompt = this.descriptionPrompt(idea, nodes, edges, length);
+    const text = await this.requestText({ task: 'description', systemInstruction: "You are a technical writer.", prompt, input: { idea, nodes, edges, length } }, options);
+    return text || "Could not generate description.";
+  }
+
+  // Same as generateDescription, but yields the text as the model writes it.
+  streamDescription(
+    idea: string, 
+    nodes: any[], 
+    edges: any[], 
+    length: GenerationConfig['summaryLength'],
+    options: AiRequestOptions = {}
+  ): AsyncGenerator<string> {
+    const prompt = this.descriptionPrompt(idea, nodes, edges, length);
+    return this.streamText({ task: 'description', systemInstruction: "You are a technical writer.", prompt, input: { idea, nodes, edges, length } }, options);
   }
-}
\ No newline at end of file
+}
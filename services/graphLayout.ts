@@ -0,0 +1,386 @@
+import { Position } from "reactflow";
+
+// Layered (Sugiyama-style) auto-layout for workflow graphs. Runs entirely in
+// the browser: cycle removal, longest-path layering, dummy nodes for long
+// edges, barycenter crossing reduction and a simple coordinate assignment.
+
+export type LayoutDirection = 'TB' | 'LR';
+
+export interface LayoutOptions {
+  direction?: LayoutDirection;
+  // Gap between consecutive layers along the flow direction
+  rankGap?: number;
+  // Gap between neighbours within a layer
+  nodeGap?: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Matches the rendered WorkflowNode closely enough before React Flow has measured it
+const DEFAULT_NODE_SIZE: Size = { width: 260, height: 130 };
+const DEFAULT_RANK_GAP = 90;
+const DEFAULT_NODE_GAP = 50;
+const ORDERING_SWEEPS = 8;
+const POSITIONING_SWEEPS = 4;
+
+const sizeOf = (node: any): Size => ({
+  width: node.width || DEFAULT_NODE_SIZE.width,
+  height: node.height || DEFAULT_NODE_SIZE.height,
+});
+
+export const handlePositions = (direction: LayoutDirection) => direction === 'LR'
+  ? { sourcePosition: Position.Right, targetPosition: Position.Left }
+  : { sourcePosition: Position.Bottom, targetPosition: Position.Top };
+
+// Best guess at the direction an existing graph was laid out in.
+export const detectDirection = (nodes: any[]): LayoutDirection =>
+  nodes.some(n => n.targetPosition === Position.Left) ? 'LR' : 'TB';
+
+interface LayoutVertex {
+  id: string;
+  // Extent across the layer and along the flow direction
+  breadth: number;
+  depth: number;
+  isDummy: boolean;
+}
+
+const collectEdges = (nodeIds: Set<string>, edges: any[]) => {
+  const seen = new Set<string>();
+  const result: [string, string][] = [];
+  edges.forEach(e => {
+    if (!nodeIds.has(e.source) || !nodeIds.has(e.target) || e.source === e.target) return;
+    const key = `${e.source}->${e.target}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    result.push([e.source, e.target]);
+  });
+  return result;
+};
+
+// Reverses back edges found by a DFS so the graph becomes acyclic.
+const removeCycles = (ids: string[], edges: [string, string][]) => {
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(([s, t]) => outgoing.get(s)!.push(t));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reversed = new Set<string>();
+
+  const visit = (start: string) => {
+    const stack: [string, number][] = [[start, 0]];
+    state.set(start, 'visiting');
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const [id, index] = frame;
+      const targets = outgoing.get(id)!;
+      if (index >= targets.length) {
+        state.set(id, 'done');
+        stack.pop();
+        continue;
+      }
+      frame[1] += 1;
+      const next = targets[index];
+      if (state.get(next) === 'visiting') {
+        reversed.add(`${id}->${next}`);
+      } else if (!state.has(next)) {
+        state.set(next, 'visiting');
+        stack.push([next, 0]);
+      }
+    }
+  };
+  ids.forEach(id => { if (!state.has(id)) visit(id); });
+
+  return edges.map(([s, t]): [string, string] => reversed.has(`${s}->${t}`) ? [t, s] : [s, t]);
+};
+
+// Longest-path layering: every node sits one layer below its deepest predecessor.
+const assignRanks = (ids: string[], edges: [string, string][]) => {
+  const incoming = new Map<string, string[]>(ids.map(id => [id, []]));
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(([s, t]) => {
+    outgoing.get(s)!.push(t);
+    incoming.get(t)!.push(s);
+  });
+  const remaining = new Map(ids.map(id => [id, incoming.get(id)!.length]));
+  const rank = new Map<string, number>();
+  const queue = ids.filter(id => remaining.get(id) === 0);
+  queue.forEach(id => rank.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    outgoing.get(id)!.forEach(t => {
+      rank.set(t, Math.max(rank.get(t) ?? 0, rank.get(id)! + 1));
+      remaining.set(t, remaining.get(t)! - 1);
+      if (remaining.get(t) === 0) queue.push(t);
+    });
+  }
+  return rank;
+};
+
+const countCrossings = (layers: string[][], edgesBetween: Map<string, string[]>) => {
+  let crossings = 0;
+  for (let r = 0; r < layers.length - 1; r++) {
+    const position = new Map(layers[r + 1].map((id, i) => [id, i]));
+    const pairs: [number, number][] = [];
+    layers[r].forEach((id, i) => (edgesBetween.get(id) || []).forEach(t => {
+      if (position.has(t)) pairs.push([i, position.get(t)!]);
+    }));
+    for (let a = 0; a < pairs.length; a++) {
+      for (let b = a + 1; b < pairs.length; b++) {
+        if ((pairs[a][0] - pairs[b][0]) * (pairs[a][1] - pairs[b][1]) < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+};
+
+const orderLayers = (layers: string[][], down: Map<string, string[]>, up: Map<string, string[]>) => {
+  let best = layers.map(l => [...l]);
+  let bestCrossings = countCrossings(best, down);
+  let current = layers.map(l => [...l]);
+
+  const sortByBarycenter = (layer: string[], reference: string[], neighbours: Map<string, string[]>) => {
+    const position = new Map(reference.map((id, i) => [id, i]));
+    const weights = layer.map((id, i) => {
+      const linked = (neighbours.get(id) || []).filter(n => position.has(n)).map(n => position.get(n)!);
+      // Nodes without neighbours in the reference layer keep their current slot
+      return { id, value: linked.length > 0 ? linked.reduce((a, b) => a + b, 0) / linked.length : i };
+    });
+    return weights.sort((a, b) => a.value - b.value).map(w => w.id);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let r = 1; r < current.length; r++) current[r] = sortByBarycenter(current[r], current[r - 1], up);
+    } else {
+      for (let r = current.length - 2; r >= 0; r--) current[r] = sortByBarycenter(current[r], current[r + 1], down);
+    }
+    const crossings = countCrossings(current, down);
+    if (crossings < bestCrossings) {
+      best = current.map(l => [...l]);
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+};
+
+// Places each layer's vertices as close to the average of their neighbours as
+// the ordering allows, alternating between pulling from above and below.
+const assignCrossPositions = (
+  layers: string[][],
+  vertices: Map<string, LayoutVertex>,
+  down: Map<string, string[]>,
+  up: Map<string, string[]>,
+  nodeGap: number
+) => {
+  const center = new Map<string, number>();
+  layers.forEach(layer => {
+    let offset = 0;
+    layer.forEach(id => {
+      const { breadth } = vertices.get(id)!;
+      center.set(id, offset + breadth / 2);
+      offset += breadth + nodeGap;
+    });
+  });
+
+  const place = (layer: string[], neighbours: Map<string, string[]>) => {
+    const desired = layer.map(id => {
+      const linked = (neighbours.get(id) || []).filter(n => center.has(n));
+      return linked.length > 0
+        ? linked.reduce((sum, n) => sum + center.get(n)!, 0) / linked.length
+        : center.get(id)!;
+    });
+    // Resolve overlaps left to right while keeping the order
+    const placed: number[] = [];
+    layer.forEach((id, i) => {
+      const { breadth } = vertices.get(id)!;
+      if (i === 0) {
+        placed.push(desired[i]);
+        return;
+      }
+      const previous = vertices.get(layer[i - 1])!;
+      const minimum = placed[i - 1] + previous.breadth / 2 + nodeGap + breadth / 2;
+      placed.push(Math.max(desired[i], minimum));
+    });
+    // Shift the whole layer back so it is not biased towards the right
+    const drift = placed.reduce((sum, x, i) => sum + (x - desired[i]), 0) / layer.length;
+    layer.forEach((id, i) => center.set(id, placed[i] - Math.max(0, drift)));
+  };
+
+  for (let sweep = 0; sweep < POSITIONING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let r = 1; r < layers.length; r++) place(layers[r], up);
+    } else {
+      for (let r = layers.length - 2; r >= 0; r--) place(layers[r], down);
+    }
+  }
+  return center;
+};
+
+export const layoutGraph = <T extends { id: string; position: { x: number; y: number } }>(
+  nodes: T[],
+  edges: any[],
+  { direction = 'TB', rankGap = DEFAULT_RANK_GAP, nodeGap = DEFAULT_NODE_GAP }: LayoutOptions = {}
+): T[] => {
+  if (nodes.length === 0) return nodes;
+  const horizontal = direction === 'LR';
+  const ids = nodes.map(n => n.id);
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const acyclic = removeCycles(ids, collectEdges(new Set(ids), edges));
+  const rank = assignRanks(ids, acyclic);
+
+  const vertices = new Map<string, LayoutVertex>(nodes.map(n => {
+    const size = sizeOf(n);
+    return [n.id, {
+      id: n.id,
+      breadth: horizontal ? size.height : size.width,
+      depth: horizontal ? size.width : size.height,
+      isDummy: false,
+    }];
+  }));
+
+  // Split long edges into chains of dummy vertices so they take part in ordering
+  const down = new Map<string, string[]>();
+  const up = new Map<string, string[]>();
+  const link = (s: string, t: string) => {
+    down.set(s, [...(down.get(s) || []), t]);
+    up.set(t, [...(up.get(t) || []), s]);
+  };
+  let dummyCount = 0;
+  acyclic.forEach(([s, t]) => {
+    let previous = s;
+    for (let r = rank.get(s)! + 1; r < rank.get(t)!; r++) {
+      const dummy = `__dummy-${dummyCount++}`;
+      vertices.set(dummy, { id: dummy, breadth: 20, depth: 0, isDummy: true });
+      rank.set(dummy, r);
+      link(previous, dummy);
+      previous = dummy;
+    }
+    link(previous, t);
+  });
+
+  const layerCount = Math.max(...Array.from(rank.values())) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  vertices.forEach((_, id) => layers[rank.get(id)!].push(id));
+
+  const ordered = orderLayers(layers, down, up);
+  const cross = assignCrossPositions(ordered, vertices, down, up, nodeGap);
+
+  // Layers are as deep as their deepest real node
+  const layerStart: number[] = [];
+  let offset = 0;
+  ordered.forEach((layer, r) => {
+    layerStart[r] = offset;
+    const depth = Math.max(0, ...layer.map(id => vertices.get(id)!.depth));
+    offset += depth + rankGap;
+  });
+
+  const minCross = Math.min(...ids.map(id => cross.get(id)! - vertices.get(id)!.breadth / 2));
+  const handles = handlePositions(direction);
+
+  return ids.map(id => {
+    const node = nodeById.get(id)!;
+    const vertex = vertices.get(id)!;
+    const along = layerStart[rank.get(id)!];
+    const across = cross.get(id)! - vertex.breadth / 2 - minCross;
+    return {
+      ...node,
+      ...handles,
+      position: horizontal ? { x: along, y: across } : { x: across, y: along },
+    };
+  });
+};
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const overlaps = (a: Rect, b: Rect, margin: number) =>
+  a.x < b.x + b.width + margin && b.x < a.x + a.width + margin &&
+  a.y < b.y + b.height + margin && b.y < a.y + a.height + margin;
+
+// Positions only the nodes in `newIds`, leaving every other node pinned where
+// it is. New nodes go one layer after their placed predecessors (or before
+// their successors) and are nudged sideways until they no longer overlap.
+export const placeNewNodes = <T extends { id: string; position: { x: number; y: number } }>(
+  nodes: T[],
+  edges: any[],
+  newIds: Set<string>,
+  { direction = 'TB', rankGap = DEFAULT_RANK_GAP, nodeGap = DEFAULT_NODE_GAP }: LayoutOptions = {}
+): T[] => {
+  if (newIds.size === 0) return nodes;
+  const horizontal = direction === 'LR';
+  const handles = handlePositions(direction);
+  const placed = new Map<string, Rect>();
+  nodes.forEach(n => {
+    if (!newIds.has(n.id)) placed.set(n.id, { ...n.position, ...sizeOf(n) });
+  });
+
+  const links = collectEdges(new Set(nodes.map(n => n.id)), edges);
+  const predecessors = (id: string) => links.filter(([, t]) => t === id).map(([s]) => s);
+  const successors = (id: string) => links.filter(([s]) => s === id).map(([, t]) => t);
+
+  const bounds = () => {
+    const rects = Array.from(placed.values());
+    if (rects.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    return {
+      x: minX,
+      y: minY,
+      width: Math.max(...rects.map(r => r.x + r.width)) - minX,
+      height: Math.max(...rects.map(r => r.y + r.height)) - minY,
+    };
+  };
+
+  const settle = (id: string, rect: Rect) => {
+    const step = (horizontal ? rect.height : rect.width) + nodeGap;
+    const candidate = { ...rect };
+    // Alternate right/left (or down/up) around the preferred slot
+    for (let attempt = 1; Array.from(placed.values()).some(r => overlaps(candidate, r, nodeGap / 2)); attempt++) {
+      const shift = Math.ceil(attempt / 2) * step * (attempt % 2 === 1 ? 1 : -1);
+      if (horizontal) candidate.y = rect.y + shift;
+      else candidate.x = rect.x + shift;
+    }
+    placed.set(id, candidate);
+  };
+
+  const pending = nodes.filter(n => newIds.has(n.id));
+  while (pending.length > 0) {
+    const index = pending.findIndex(n => [...predecessors(n.id), ...successors(n.id)].some(id => placed.has(id)));
+    const node = pending.splice(index >= 0 ? index : 0, 1)[0];
+    const size = sizeOf(node);
+    const before = predecessors(node.id).map(id => placed.get(id)).filter((r): r is Rect => !!r);
+    const after = successors(node.id).map(id => placed.get(id)).filter((r): r is Rect => !!r);
+    const anchors = before.length > 0 ? before : after;
+
+    if (anchors.length === 0) {
+      // Unconnected to anything placed: start a new row after the current graph
+      const box = bounds();
+      settle(node.id, horizontal
+        ? { x: box.x + box.width + rankGap, y: box.y, ...size }
+        : { x: box.x, y: box.y + box.height + rankGap, ...size });
+      continue;
+    }
+
+    const crossCenter = anchors.reduce((sum, r) => sum + (horizontal ? r.y + r.height / 2 : r.x + r.width / 2), 0) / anchors.length;
+    let along: number;
+    if (before.length > 0) {
+      along = Math.max(...before.map(r => horizontal ? r.x + r.width : r.y + r.height)) + rankGap;
+    } else {
+      along = Math.min(...after.map(r => horizontal ? r.x : r.y)) - rankGap - (horizontal ? size.width : size.height);
+    }
+    settle(node.id, horizontal
+      ? { x: along, y: crossCenter - size.height / 2, ...size }
+      : { x: crossCenter - size.width / 2, y: along, ...size });
+  }
+
+  return nodes.map(n => {
+    if (!newIds.has(n.id)) return n;
+    const rect = placed.get(n.id)!;
+    return { ...n, ...handles, position: { x: rect.x, y: rect.y } };
+  });
+};
@@ -0,0 +1,243 @@
+import { AppFeature, NodeType, WorkflowOperation, WorkflowOperationKind } from "../types";
+import { resolveFeatureIds } from "./featureCoverage";
+
+// Checks model-produced graphs against the shapes React Flow and
+// WorkflowNodeData expect, repairs what can be repaired safely and records a
+// readable line for every fix so the user knows what changed.
+
+export class GraphValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GraphValidationError";
+  }
+}
+
+export interface ValidatedGraph {
+  nodes: any[];
+  edges: any[];
+  fixes: string[];
+}
+
+export interface ValidatedOperations {
+  operations: WorkflowOperation[];
+  fixes: string[];
+}
+
+const NODE_TYPES: NodeType[] = ['view', 'logic', 'database', 'userAction'];
+const OPERATION_KINDS: WorkflowOperationKind[] = ['addNode', 'updateNode', 'deleteNode', 'addEdge', 'updateEdge', 'deleteEdge'];
+
+// Common words models use instead of the four node types
+const TYPE_ALIASES: Record<string, NodeType> = {
+  ui: 'view', screen: 'view', page: 'view', component: 'view', frontend: 'view',
+  api: 'logic', function: 'logic', service: 'logic', backend: 'logic', process: 'logic', server: 'logic',
+  db: 'database', storage: 'database', store: 'database', data: 'database', table: 'database',
+  action: 'userAction', useraction: 'userAction', user_action: 'userAction', click: 'userAction', event: 'userAction', input: 'userAction',
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const asId = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : isFiniteNumber(value) ? String(value) : undefined;
+
+// Returns a valid NodeType for any model value, or undefined if it cannot be guessed.
+export const resolveNodeType = (value: unknown): NodeType | undefined => {
+  if (typeof value !== 'string') return undefined;
+  if (NODE_TYPES.includes(value as NodeType)) return value as NodeType;
+  return TYPE_ALIASES[value.trim().toLowerCase().replace(/[\s-]/g, '')] || TYPE_ALIASES[value.trim().toLowerCase()];
+};
+
+const uniqueId = (base: string, taken: Set<string>) => {
+  let candidate = base;
+  for (let i = 2; taken.has(candidate); i++) candidate = `${base}-${i}`;
+  return candidate;
+};
+
+const describeNode = (raw: any, index: number) =>
+  typeof raw?.label === 'string' && raw.label ? `Node "${raw.label}"` : `Node #${index + 1}`;
+
+// Validates a full { nodes, edges } workflow from generateWorkflow and converts
+// it to React Flow nodes and edges. Feature ids are checked against the
+// features the workflow was generated for.
+export const validateWorkflowGraph = (raw: unknown, features: AppFeature[] = []): ValidatedGraph => {
+  if (!isObject(raw)) throw new GraphValidationError("The model did not return a workflow object.");
+  if (!Array.isArray(raw.nodes)) throw new GraphValidationError("The model response has no list of nodes.");
+
+  const fixes: string[] = [];
+  const nodeIds = new Set<string>();
+  const nodes: any[] = [];
+
+  raw.nodes.forEach((n: unknown, i: number) => {
+    const name = describeNode(n, i);
+    if (!isObject(n)) {
+      fixes.push(`${name}: not an object, dropped`);
+      return;
+    }
+    let id = asId(n.id);
+    if (!id) {
+      id = uniqueId(`node-${i + 1}`, nodeIds);
+      fixes.push(`${name}: missing id, assigned "${id}"`);
+    } else if (nodeIds.has(id)) {
+      const renamed = uniqueId(id, nodeIds);
+      fixes.push(`${name}: duplicate id "${id}", renamed to "${renamed}"`);
+      id = renamed;
+    }
+    nodeIds.add(id);
+
+    let type = resolveNodeType(n.type);
+    if (!type) {
+      type = 'logic';
+      fixes.push(`${name}: unknown type ${JSON.stringify(n.type)}, using "logic"`);
+    } else if (type !== n.type) {
+      fixes.push(`${name}: type "${n.type}" interpreted as "${type}"`);
+    }
+
+    const label = typeof n.label === 'string' && n.label.trim() ? n.label : id;
+    if (label === id && n.label !== id) fixes.push(`${name}: missing label, using its id`);
+    const details = typeof n.details === 'string' ? n.details : '';
+    const featureIds = resolveFeatureIds(n.featureIds, features, name, fixes);
+
+    const hasPosition = isFiniteNumber(n.x) && isFiniteNumber(n.y);
+    if (!hasPosition) fixes.push(`${name}: missing coordinates, placed by auto-layout`);
+
+    nodes.push({
+      id,
+      type,
+      position: hasPosition ? { x: n.x, y: n.y } : { x: 0, y: 0 },
+      data: { label, details, type, ...(featureIds.length > 0 ? { featureIds } : {}) },
+    });
+  });
+
+  if (nodes.length === 0) throw new GraphValidationError("The model returned a workflow without any usable nodes.");
+
+  const edgeIds = new Set<string>();
+  const connections = new Set<string>();
+  const edges: any[] = [];
+  if (raw.edges !== undefined && !Array.isArray(raw.edges)) fixes.push("Edges: not a list, ignored");
+
+  (Array.isArray(raw.edges) ? raw.edges : []).forEach((e: unknown, i: number) => {
+    const name = `Edge #${i + 1}`;
+    if (!isObject(e)) {
+      fixes.push(`${name}: not an object, dropped`);
+      return;
+    }
+    const source = asId(e.source);
+    const target = asId(e.target);
+    const missing = [source, target].filter(id => !id || !nodeIds.has(id));
+    if (missing.length > 0) {
+      fixes.push(`${name}: points to missing node ${missing.map(id => JSON.stringify(id ?? null)).join(' and ')}, dropped`);
+      return;
+    }
+    const label = typeof e.label === 'string' && e.label ? e.label : undefined;
+    const key = `${source}->${target}:${label ?? ''}`;
+    if (connections.has(key)) {
+      fixes.push(`${name}: duplicate of an earlier connection, dropped`);
+      return;
+    }
+    connections.add(key);
+
+    let id = asId(e.id);
+    if (!id || edgeIds.has(id)) {
+      const renamed = uniqueId(id || `e-${source}-${target}`, edgeIds);
+      fixes.push(`${name}: ${id ? `duplicate id "${id}"` : 'missing id'}, using "${renamed}"`);
+      id = renamed;
+    }
+    edgeIds.add(id);
+    edges.push({ id, source, target, label, animated: true });
+  });
+
+  return { nodes, edges, fixes };
+};
+
+// Validates the operation list returned by extendWorkflow. Checks against the
+// current graph happen later when the proposal is built; this only makes sure
+// each operation is well formed and links known features.
+export const validateWorkflowOperations = (raw: unknown, features: AppFeature[] = []): ValidatedOperations => {
+  if (!isObject(raw)) throw new GraphValidationError("The model did not return a JSON object.");
+
+  // Some models still answer with the older additions-only { nodes, edges } shape
+  let list: unknown[];
+  const fixes: string[] = [];
+  if (Array.isArray(raw.operations)) {
+    list = raw.operations;
+  } else if (Array.isArray(raw.nodes) || Array.isArray(raw.edges)) {
+    fixes.push("Response used { nodes, edges } instead of operations; treated everything as additions");
+    list = [
+      ...(Array.isArray(raw.nodes) ? raw.nodes : []).map((n: any) => ({ ...n, op: 'addNode' })),
+      ...(Array.isArray(raw.edges) ? raw.edges : []).map((e: any) => ({ ...e, op: 'addEdge' })),
+    ];
+  } else {
+    throw new GraphValidationError("The model response has no list of operations.");
+  }
+
+  const addedNodeIds = new Set<string>();
+  const addedEdgeIds = new Set<string>();
+  const renamedNodes = new Map<string, string>();
+  const operations: WorkflowOperation[] = [];
+
+  list.forEach((item, i) => {
+    const name = `Operation #${i + 1}`;
+    if (!isObject(item)) {
+      fixes.push(`${name}: not an object, dropped`);
+      return;
+    }
+    if (!OPERATION_KINDS.includes(item.op)) {
+      fixes.push(`${name}: unknown operation ${JSON.stringify(item.op)}, dropped`);
+      return;
+    }
+    const op = item.op as WorkflowOperationKind;
+    let id = asId(item.id);
+    if (!id) {
+      if (op !== 'addNode' && op !== 'addEdge') {
+        fixes.push(`${name} (${op}): missing id, dropped`);
+        return;
+      }
+      id = uniqueId(op === 'addNode' ? 'new-node' : 'new-edge', op === 'addNode' ? addedNodeIds : addedEdgeIds);
+      fixes.push(`${name} (${op}): missing id, assigned "${id}"`);
+    }
+    // Two additions with the same id would collide; later references follow the rename
+    if (op === 'addNode' && addedNodeIds.has(id)) {
+      const renamed = uniqueId(id, addedNodeIds);
+      fixes.push(`${name}: duplicate new node id "${id}", renamed to "${renamed}"`);
+      renamedNodes.set(id, renamed);
+      id = renamed;
+    }
+    if (op === 'addEdge' && addedEdgeIds.has(id)) {
+      const renamed = uniqueId(id, addedEdgeIds);
+      fixes.push(`${name}: duplicate new edge id "${id}", renamed to "${renamed}"`);
+      id = renamed;
+    }
+    if (op === 'addNode') addedNodeIds.add(id);
+    if (op === 'addEdge') addedEdgeIds.add(id);
+
+    let type = resolveNodeType(item.type);
+    if (item.type !== undefined && !type) {
+      fixes.push(`${name}: unknown node type ${JSON.stringify(item.type)}${op === 'addNode' ? ', using "logic"' : ', ignored'}`);
+    }
+    if (op === 'addNode' && !type) type = 'logic';
+
+    const endpoint = (value: unknown) => {
+      const ref = asId(value);
+      return ref ? renamedNodes.get(ref) ?? ref : undefined;
+    };
+
+    operations.push({
+      op,
+      id,
+      type,
+      label: typeof item.label === 'string' ? item.label : undefined,
+      details: typeof item.details === 'string' ? item.details : undefined,
+      x: isFiniteNumber(item.x) ? item.x : undefined,
+      y: isFiniteNumber(item.y) ? item.y : undefined,
+      source: endpoint(item.source),
+      target: endpoint(item.target),
+      featureIds: item.featureIds === undefined ? undefined : resolveFeatureIds(item.featureIds, features, name, fixes),
+      reason: typeof item.reason === 'string' ? item.reason : undefined,
+    });
+  });
+
+  return { operations, fixes };
+};
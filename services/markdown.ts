@@ -0,0 +1,540 @@
+// Small Markdown parser for model-written documents. It produces a tree that
+// callers render themselves, so raw HTML in the source is always shown as text
+// and links only survive if their URL is safe. Covers the CommonMark and GFM
+// subset models actually use: ATX/setext headings, paragraphs, nested lists,
+// block quotes, fenced and indented code, tables, rules and the usual inline
+// markup. Unclosed fences are tolerated so partial, streaming text renders.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+export interface MarkdownHeading {
+  level: number;
+  id: string;
+  text: string;
+}
+
+// --- Links ---
+
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+// Returns the URL if it is safe to put in an href, otherwise undefined.
+// Scheme detection ignores the whitespace and control characters browsers
+// strip, so "java\tscript:" is caught too.
+export const sanitizeUrl = (url: string): string | undefined => {
+  const trimmed = url.trim();
+  if (!trimmed) return undefined;
+  const normalized = trimmed.replace(/[\u0000-\u0020\u007f]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  if (scheme) return SAFE_SCHEMES.includes(`${scheme[1]}:`) ? trimmed : undefined;
+  // Protocol-relative URLs would pick up whatever scheme the page has
+  if (normalized.startsWith('//')) return undefined;
+  return trimmed;
+};
+
+// --- Inline ---
+
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>"\'';
+
+interface ParsedLink {
+  label: string;
+  url: string;
+  end: number;
+}
+
+// Parses "[label](url "title")" starting at the opening bracket
+const parseLink = (text: string, start: number): ParsedLink | undefined => {
+  let depth = 0;
+  let close = -1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) {
+        close = i;
+        break;
+      }
+    }
+  }
+  if (close < 0 || text[close + 1] !== '(') return undefined;
+
+  let i = close + 2;
+  while (text[i] === ' ') i++;
+  let url = '';
+  if (text[i] === '<') {
+    const end = text.indexOf('>', i);
+    if (end < 0) return undefined;
+    url = text.slice(i + 1, end);
+    i = end + 1;
+  } else {
+    let parens = 0;
+    for (; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === ' ' || ch === '\n') break;
+      if (ch === '(') parens++;
+      if (ch === ')') {
+        if (parens === 0) break;
+        parens--;
+      }
+      url += ch;
+    }
+  }
+  while (text[i] === ' ' || text[i] === '\n') i++;
+  // Optional title, which is not rendered
+  const quote = text[i];
+  if (quote === '"' || quote === "'") {
+    const end = text.indexOf(quote, i + 1);
+    if (end < 0) return undefined;
+    i = end + 1;
+    while (text[i] === ' ') i++;
+  }
+  if (text[i] !== ')') return undefined;
+  return { label: text.slice(start + 1, close), url, end: i + 1 };
+};
+
+const isWhitespace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+const isWordChar = (ch: string | undefined) => ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+
+// Finds the closing delimiter for emphasis that opened at `from`
+const findClosing = (text: string, delimiter: string, from: number) => {
+  const char = delimiter[0];
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      // Emphasis never closes inside a code span
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end > 0) i = end + run.length - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i) || isWhitespace(text[i - 1])) continue;
+    // A single "*" must not be half of a "**" run
+    if (delimiter.length === 1 && (text[i + 1] === char || text[i - 1] === char)) continue;
+    if (char === '_' && isWordChar(text[i + delimiter.length])) continue;
+    return i;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const out: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) out.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length) {
+      if (text[i + 1] === '\n') {
+        flush();
+        out.push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (ESCAPABLE.includes(text[i + 1])) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === '\n') {
+      // Two trailing spaces make a hard break; otherwise a newline is a space
+      const hard = buffer.endsWith('  ');
+      buffer = buffer.trimEnd();
+      if (hard) {
+        flush();
+        out.push({ type: 'break' });
+      } else {
+        buffer += ' ';
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end < 0) {
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+      let code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) code = code.slice(1, -1);
+      flush();
+      out.push({ type: 'code', text: code });
+      i = end + run.length;
+      continue;
+    }
+
+    if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+      const image = ch === '!';
+      const link = parseLink(text, image ? i + 1 : i);
+      if (link) {
+        flush();
+        // Images are shown as links to avoid loading remote content
+        const children = image ? [{ type: 'text' as const, text: link.label || link.url }] : parseInline(link.label);
+        const href = sanitizeUrl(link.url);
+        if (href) {
+          out.push({ type: 'link', href, children });
+        } else {
+          out.push(...children);
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const autolink = text.slice(i).match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (autolink) {
+        flush();
+        out.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const run = text.slice(i).match(ch === '*' ? /^\*+/ : ch === '_' ? /^_+/ : /^~+/)![0];
+      const canOpen = !isWhitespace(text[i + run.length]) && !(ch === '_' && isWordChar(text[i - 1]));
+      const delimiters = ch === '~' ? ['~~'] : run.length >= 2 ? [ch + ch, ch] : [ch];
+      let matched = false;
+      if (canOpen && (ch !== '~' || run.length >= 2)) {
+        for (const delimiter of delimiters) {
+          const close = findClosing(text, delimiter, i + delimiter.length + 1);
+          if (close < 0) continue;
+          flush();
+          const type = ch === '~' ? 'strike' : delimiter.length === 2 ? 'strong' : 'em';
+          out.push({ type, children: parseInline(text.slice(i + delimiter.length, close)) });
+          i = close + delimiter.length;
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) {
+        buffer += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return out;
+};
+
+export const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code': return node.text;
+      case 'break': return ' ';
+      default: return inlineText(node.children);
+    }
+  }).join('');
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}>/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const isBlank = (line: string) => !line.trim();
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+
+const splitRow = (line: string) => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '`') {
+      inCode = !inCode;
+      cell += '`';
+    } else if (row[i] === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+// Whether a line ends the paragraph above it without a blank line in between
+const interruptsParagraph = (line: string) =>
+  FENCE.test(line) || ATX_HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line) ||
+  (LIST_ITEM.test(line) && !isBlank(line.replace(LIST_ITEM, '$4')));
+
+const headingSlug = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, '').trim().replace(/\s+/g, '-') || 'section';
+
+const parseBlocks = (lines: string[], slugs: Map<string, number>): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+
+  const heading = (level: number, raw: string): MarkdownBlock => {
+    const children = parseInline(raw.trim());
+    const base = headingSlug(inlineText(children));
+    const seen = slugs.get(base) ?? 0;
+    slugs.set(base, seen + 1);
+    return { type: 'heading', level, id: seen ? `${base}-${seen + 1}` : base, children };
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentOf(line);
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[i])) {
+        body.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2], text: body.join('\n') });
+      continue;
+    }
+
+    const atx = line.match(ATX_HEADING);
+    if (atx) {
+      blocks.push(heading(atx[1].length, atx[2] ?? ''));
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (BLOCKQUOTE.test(lines[i]) || !interruptsParagraph(lines[i]))) {
+        quoted.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, slugs) });
+      continue;
+    }
+
+    if (indentOf(line) >= 4) {
+      const body: string[] = [];
+      while (i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) >= 4)) {
+        body.push(lines[i].slice(4));
+        i++;
+      }
+      while (body.length > 0 && isBlank(body[body.length - 1])) body.pop();
+      blocks.push({ type: 'code', language: '', text: body.join('\n') });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align: TableAlign[] = splitRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      i += 2;
+      const rows: MarkdownInline[][][] = [];
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const delimiter = item[2].slice(-1);
+      const baseIndent = item[1].length;
+      const items: MarkdownBlock[][] = [];
+      const start = ordered ? parseInt(item[2], 10) : 1;
+
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (!current || current[1].length !== baseIndent || /\d/.test(current[2]) !== ordered || current[2].slice(-1) !== delimiter) break;
+        const contentIndent = baseIndent + current[2].length + Math.min(Math.max(current[3].length, 1), 4);
+        const body = [current[4]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            // A blank line only continues the item if indented content follows
+            let j = i + 1;
+            while (j < lines.length && isBlank(lines[j])) j++;
+            if (j < lines.length && indentOf(lines[j]) >= contentIndent) {
+              body.push(...lines.slice(i, j).map(() => ''));
+              i = j;
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) >= contentIndent) {
+            body.push(next.slice(contentIndent));
+          } else if (!LIST_ITEM.test(next) && !interruptsParagraph(next) && !isBlank(body[body.length - 1])) {
+            // Lazy continuation of the item's paragraph
+            body.push(next.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(parseBlocks(body, slugs));
+
+        // Items separated by blank lines still belong to one list
+        let j = i;
+        while (j < lines.length && isBlank(lines[j])) j++;
+        const following = j < lines.length ? lines[j].match(LIST_ITEM) : null;
+        if (j > i && following && following[1].length === baseIndent && /\d/.test(following[2]) === ordered) i = j;
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    // Paragraph, possibly turned into a setext heading by an underline
+    const text: string[] = [line.trimStart()];
+    i++;
+    let setext = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (/^ {0,3}=+[ \t]*$/.test(lines[i])) setext = 1;
+      else if (/^ {0,3}-+[ \t]*$/.test(lines[i])) setext = 2;
+      if (setext) {
+        i++;
+        break;
+      }
+      if (interruptsParagraph(lines[i]) || isTableStart(lines, i)) break;
+      text.push(lines[i].replace(/^ +/, ''));
+      i++;
+    }
+    const raw = text.join('\n');
+    blocks.push(setext ? heading(setext, raw) : { type: 'paragraph', children: parseInline(raw.replace(/[ \t]+$/, '')) });
+  }
+  return blocks;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] =>
+  parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'), new Map());
+
+// Documents with at least this many section headings get a table of contents
+export const TOC_MIN_HEADINGS = 4;
+
+// Headings in document order, for tables of contents
+export const markdownOutline = (blocks: MarkdownBlock[]): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  const visit = (list: MarkdownBlock[]) => list.forEach(block => {
+    if (block.type === 'heading') headings.push({ level: block.level, id: block.id, text: inlineText(block.children) });
+    if (block.type === 'blockquote') visit(block.children);
+    if (block.type === 'list') block.items.forEach(visit);
+  });
+  visit(blocks);
+  return headings;
+};
+
+// --- HTML ---
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// In-document links get the same prefix as heading ids so they still resolve
+const inlineHtml = (nodes: MarkdownInline[], idPrefix: string = ''): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return escapeHtml(node.text);
+      case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+      case 'break': return '<br>';
+      case 'strong': return `<strong>${inlineHtml(node.children, idPrefix)}</strong>`;
+      case 'em': return `<em>${inlineHtml(node.children, idPrefix)}</em>`;
+      case 'strike': return `<del>${inlineHtml(node.children, idPrefix)}</del>`;
+      case 'link': {
+        const external = !node.href.startsWith('#');
+        const href = external ? node.href : `#${idPrefix}${node.href.slice(1)}`;
+        return `<a href="${escapeHtml(href)}"${external ? ' target="_blank" rel="noopener noreferrer"' : ''}>${inlineHtml(node.children, idPrefix)}</a>`;
+      }
+    }
+  }).join('');
+
+// A list item that is a single paragraph renders without the <p> wrapper
+const listItemHtml = (blocks: MarkdownBlock[], idPrefix: string) =>
+  blocks.length === 1 && blocks[0].type === 'paragraph' ? inlineHtml(blocks[0].children, idPrefix) : renderMarkdownHtml(blocks, idPrefix);
+
+export const renderMarkdownHtml = (blocks: MarkdownBlock[], idPrefix: string = ''): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level} id="${escapeHtml(idPrefix + block.id)}">${inlineHtml(block.children, idPrefix)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${inlineHtml(block.children, idPrefix)}</p>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        return `<${tag}${start}>${block.items.map(item => `<li>${listItemHtml(item, idPrefix)}</li>`).join('')}</${tag}>`;
+      }
+      case 'code':
+        return `<pre><code${block.language ? ` class="language-${escapeHtml(block.language)}"` : ''}>${escapeHtml(block.text)}</code></pre>`;
+      case 'blockquote':
+        return `<blockquote>${renderMarkdownHtml(block.children, idPrefix)}</blockquote>`;
+      case 'table': {
+        const cell = (tag: string, content: MarkdownInline[], c: number) =>
+          `<${tag}${block.align[c] ? ` style="text-align:${block.align[c]}"` : ''}>${inlineHtml(content, idPrefix)}</${tag}>`;
+        return `<table><thead><tr>${block.header.map((h, c) => cell('th', h, c)).join('')}</tr></thead>` +
+          `<tbody>${block.rows.map(row => `<tr>${row.map((d, c) => cell('td', d, c)).join('')}</tr>`).join('')}</tbody></table>`;
+      }
+      case 'rule':
+        return '<hr>';
+    }
+  }).join('\n');
@@ -0,0 +1,643 @@
+import { ApiDesign, ApiEntity, ApiField, ApiFieldType, ApiOperation, DataEntity, DataFieldType, HttpMethod, NodeType } from "../types";
+import { slugify } from "./fileUtils";
+import { inferHttpMethod, pascalCase } from "./scaffold";
+import { toYaml } from "./yaml";
+
+// Turns the workflow into an OpenAPI 3.1 document. Logic nodes become
+// operations, the user actions wired into them are recorded as triggers and
+// connected database nodes become component schemas. An ApiDesign from the
+// model supplies methods, paths and fields; without one the graph alone gives
+// a skeleton whose routes match the code scaffold.
+
+export const OPENAPI_VERSION = "3.1.0";
+
+export type OpenApiDocument = Record<string, any>;
+export type OpenApiFormat = 'yaml' | 'json';
+
+export const OPENAPI_FORMATS: Record<OpenApiFormat, { label: string; extension: string; mimeType: string }> = {
+  yaml: { label: 'YAML', extension: '.yaml', mimeType: 'application/yaml' },
+  json: { label: 'JSON', extension: '.json', mimeType: 'application/json' },
+};
+
+export interface OpenApiIssue {
+  // Dotted path into the document, e.g. "paths./orders.post.responses"
+  location: string;
+  message: string;
+}
+
+export interface ValidatedApiDesign {
+  design: ApiDesign;
+  fixes: string[];
+}
+
+// The parts of the graph an API is made of; this is what the model is shown
+export interface ApiSurface {
+  endpoints: {
+    nodeId: string;
+    label: string;
+    details: string;
+    // Labels of user actions with an edge into the endpoint
+    triggers: string[];
+    // Labels of views with an edge into the endpoint
+    callers: string[];
+    // Ids of database nodes connected in either direction
+    stores: string[];
+  }[];
+  // Entities come from the data model, when the node has one
+  stores: { nodeId: string; label: string; details: string; entities?: DataEntity[] }[];
+}
+
+const NODE_TYPES: NodeType[] = ['view', 'logic', 'database', 'userAction'];
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+const FIELD_TYPES: ApiFieldType[] = ['string', 'integer', 'number', 'boolean', 'object'];
+const SCHEMA_TYPES = ['string', 'integer', 'number', 'boolean', 'object', 'array', 'null'];
+const PARAMETER_LOCATIONS = ['query', 'header', 'path', 'cookie'];
+
+// Data model field types as JSON Schema
+const DATA_FIELD_SCHEMAS: Record<DataFieldType, { type: ApiFieldType; format?: string }> = {
+  string: { type: 'string' }, text: { type: 'string' }, integer: { type: 'integer' }, decimal: { type: 'number' },
+  boolean: { type: 'boolean' }, date: { type: 'string', format: 'date' }, datetime: { type: 'string', format: 'date-time' },
+  uuid: { type: 'string', format: 'uuid' }, json: { type: 'object' },
+};
+
+// Shared error body; matches what the scaffold's handlers send on failure
+const ERROR_SCHEMA = 'Error';
+
+// Words models use for field types, mapped to a JSON Schema type and format
+const FIELD_TYPE_ALIASES: Record<string, { type: ApiFieldType; format?: string }> = {
+  int: { type: 'integer' }, int32: { type: 'integer', format: 'int32' }, int64: { type: 'integer', format: 'int64' },
+  long: { type: 'integer', format: 'int64' }, float: { type: 'number' }, double: { type: 'number' },
+  decimal: { type: 'number' }, bool: { type: 'boolean' }, text: { type: 'string' }, str: { type: 'string' },
+  date: { type: 'string', format: 'date' }, datetime: { type: 'string', format: 'date-time' },
+  timestamp: { type: 'string', format: 'date-time' }, uuid: { type: 'string', format: 'uuid' },
+  email: { type: 'string', format: 'email' }, url: { type: 'string', format: 'uri' }, uri: { type: 'string', format: 'uri' },
+  map: { type: 'object' }, json: { type: 'object' }, dict: { type: 'object' },
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const nodeTypeOf = (node: any): NodeType => NODE_TYPES.includes(node.data?.type) ? node.data.type : 'logic';
+
+const labelOf = (node: any) => String(node.data?.label || node.id).trim();
+
+const uniqueName = (base: string, taken: Set<string>) => {
+  let name = base;
+  for (let i = 2; taken.has(name.toLowerCase()); i++) name = `${base}${i}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+// Same naming as the scaffold's models ("Orders Table" -> "Orders")
+const entityBaseName = (label: string) => {
+  const name = pascalCase(label);
+  const stripped = name.replace(/(Db|Database|Table|Store|Storage)$/, '');
+  const result = stripped || name || 'Entity';
+  return /^[0-9]/.test(result) ? `E${result}` : result;
+};
+
+const operationIdOf = (label: string, taken: Set<string>) => {
+  const name = pascalCase(label) || 'Operation';
+  const ident = name[0].toLowerCase() + name.slice(1);
+  return uniqueName(/^[0-9]/.test(ident) ? `op${name}` : ident, taken);
+};
+
+const pathParams = (path: string) => [...path.matchAll(/\{([^}]*)\}/g)].map(m => m[1]);
+
+// --- Graph ---
+
+export const describeApiSurface = (nodes: any[], edges: any[]): ApiSurface => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const ofType = (type: NodeType) => nodes.filter(n => nodeTypeOf(n) === type);
+  const sourcesOf = (id: string, type: NodeType) => edges
+    .filter(e => e.target === id && byId.has(e.source) && nodeTypeOf(byId.get(e.source)) === type)
+    .map(e => labelOf(byId.get(e.source)));
+
+  return {
+    endpoints: ofType('logic').map(node => ({
+      nodeId: node.id,
+      label: labelOf(node),
+      details: String(node.data?.details || '').trim(),
+      triggers: [...new Set(sourcesOf(node.id, 'userAction'))],
+      callers: [...new Set(sourcesOf(node.id, 'view'))],
+      stores: [...new Set(edges.flatMap(e => e.source === node.id ? [e.target] : e.target === node.id ? [e.source] : []))]
+        .filter(id => byId.has(id) && nodeTypeOf(byId.get(id)) === 'database'),
+    })),
+    stores: ofType('database').map(node => ({
+      nodeId: node.id,
+      label: labelOf(node),
+      details: String(node.data?.details || '').trim(),
+      ...(Array.isArray(node.data?.entities) && node.data.entities.length > 0 ? { entities: node.data.entities } : {}),
+    })),
+  };
+};
+
+// --- Model Output ---
+
+// Checks a design returned by the model against the graph, repairs what can be
+// repaired safely and records a readable line for every fix.
+export const validateApiDesign = (raw: unknown, nodes: any[]): ValidatedApiDesign => {
+  if (!isObject(raw)) throw new Error('Expected a JSON object with "entities" and "operations" arrays.');
+  if (!Array.isArray(raw.entities) && !Array.isArray(raw.operations)) {
+    throw new Error('The response has neither an "entities" nor an "operations" array.');
+  }
+  const fixes: string[] = [];
+  const byId = new Map(nodes.map(n => [String(n.id), n]));
+  const isType = (id: string, type: NodeType) => byId.has(id) && nodeTypeOf(byId.get(id)) === type;
+
+  // Names first, so fields can reference entities declared after them
+  const taken = new Set([ERROR_SCHEMA.toLowerCase()]);
+  const entityNames = new Map<string, string>();
+  const seenStores = new Set<string>();
+  const rawEntities: { raw: Record<string, any>; nodeId: string; name: string; where: string }[] = [];
+  (Array.isArray(raw.entities) ? raw.entities : []).forEach((e: unknown, i: number) => {
+    const where = isObject(e) && text(e.name) ? `Entity "${text(e.name)}"` : `Entity #${i + 1}`;
+    if (!isObject(e)) {
+      fixes.push(`${where}: not an object, dropped`);
+      return;
+    }
+    const nodeId = text(e.nodeId);
+    if (!isType(nodeId, 'database')) {
+      fixes.push(`${where}: not linked to a database node, dropped`);
+      return;
+    }
+    if (seenStores.has(nodeId)) {
+      fixes.push(`${where}: second entity for the same database node, dropped`);
+      return;
+    }
+    seenStores.add(nodeId);
+    const base = entityBaseName(text(e.name) || labelOf(byId.get(nodeId)));
+    const name = uniqueName(base, taken);
+    if (name !== base) fixes.push(`${where}: name already taken, renamed to "${name}"`);
+    [text(e.name), name].filter(Boolean).forEach(alias => {
+      if (!entityNames.has(alias.toLowerCase())) entityNames.set(alias.toLowerCase(), name);
+    });
+    rawEntities.push({ raw: e, nodeId, name, where });
+  });
+
+  const entities: ApiEntity[] = rawEntities.map(({ raw: e, nodeId, name, where }) => ({
+    nodeId,
+    name,
+    ...(text(e.description) ? { description: text(e.description) } : {}),
+    fields: validateFields(e.fields, where, entityNames, fixes),
+  }));
+
+  const seenEndpoints = new Set<string>();
+  const routes = new Set<string>();
+  const operations: ApiOperation[] = [];
+  (Array.isArray(raw.operations) ? raw.operations : []).forEach((o: unknown, i: number) => {
+    const where = isObject(o) && text(o.summary) ? `Operation "${text(o.summary)}"` : `Operation #${i + 1}`;
+    if (!isObject(o)) {
+      fixes.push(`${where}: not an object, dropped`);
+      return;
+    }
+    const nodeId = text(o.nodeId);
+    if (!isType(nodeId, 'logic')) {
+      fixes.push(`${where}: not linked to a logic node, dropped`);
+      return;
+    }
+    if (seenEndpoints.has(nodeId)) {
+      fixes.push(`${where}: second operation for the same logic node, dropped`);
+      return;
+    }
+    seenEndpoints.add(nodeId);
+    const label = labelOf(byId.get(nodeId));
+
+    let method = text(o.method).toLowerCase() as HttpMethod;
+    if (!HTTP_METHODS.includes(method)) {
+      method = inferHttpMethod(label);
+      fixes.push(`${where}: unknown method "${text(o.method)}", using ${method.toUpperCase()}`);
+    }
+
+    let path = text(o.path).replace(/\s+/g, '-').replace(/\/{2,}/g, '/');
+    if (!path || path === '/') {
+      path = `/${slugify(label, 'operation')}`;
+      fixes.push(`${where}: missing path, using ${path}`);
+    } else {
+      if (!path.startsWith('/')) path = `/${path}`;
+      // Servers already point at /api; a repeated prefix would double it
+      if (/^\/api(\/|$)/.test(path)) {
+        path = path.slice(4) || `/${slugify(label, 'operation')}`;
+        fixes.push(`${where}: removed the /api prefix from the path`);
+      }
+      if (path.length > 1) path = path.replace(/\/$/, '');
+    }
+    let route = `${method} ${path.replace(/\{[^}]*\}/g, '{}')}`;
+    if (routes.has(route)) {
+      const original = path;
+      for (let n = 2; routes.has(route); n++) {
+        path = `${original}-${n}`;
+        route = `${method} ${path.replace(/\{[^}]*\}/g, '{}')}`;
+      }
+      fixes.push(`${where}: ${method.toUpperCase()} ${original} is already used, moved to ${path}`);
+    }
+    routes.add(route);
+
+    operations.push({
+      nodeId,
+      method,
+      path,
+      summary: text(o.summary) || label,
+      ...(text(o.description) ? { description: text(o.description) } : {}),
+      request: validateFields(o.request, `${where} request`, entityNames, fixes),
+      response: validateFields(o.response, `${where} response`, entityNames, fixes),
+    });
+  });
+
+  return { design: { entities, operations }, fixes };
+};
+
+const validateFields = (raw: unknown, where: string, entityNames: Map<string, string>, fixes: string[]): ApiField[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    fixes.push(`${where}: fields are not a list, ignored`);
+    return [];
+  }
+  const names = new Set<string>();
+  const fields: ApiField[] = [];
+  raw.forEach((f: unknown, i: number) => {
+    const name = isObject(f) ? text(f.name) : '';
+    if (!name) {
+      fixes.push(`${where}: field #${i + 1} has no name, dropped`);
+      return;
+    }
+    if (names.has(name)) {
+      fixes.push(`${where}: duplicate field "${name}", dropped`);
+      return;
+    }
+    names.add(name);
+    const field = f as Record<string, any>;
+
+    let list = field.list === true;
+    let typeName = text(field.type).toLowerCase();
+    if (typeName === 'array' || typeName === 'list') {
+      list = true;
+      typeName = text(field.items).toLowerCase() || 'string';
+    }
+    let type = typeName as ApiFieldType;
+    let format = text(field.format) || undefined;
+    let ref = text(field.ref) ? entityNames.get(text(field.ref).toLowerCase()) : undefined;
+    if (text(field.ref) && !ref) fixes.push(`${where}: field "${name}" refers to unknown entity "${text(field.ref)}", kept as an object`);
+
+    if (!FIELD_TYPES.includes(type)) {
+      const alias = FIELD_TYPE_ALIASES[typeName];
+      // Models often put the entity name in the type
+      const entity = entityNames.get(typeName);
+      if (alias) {
+        type = alias.type;
+        format = format ?? alias.format;
+      } else if (entity) {
+        type = 'object';
+        ref = ref ?? entity;
+      } else {
+        type = ref ? 'object' : 'string';
+        if (typeName) fixes.push(`${where}: field "${name}" has unknown type "${text(field.type)}", using ${type}`);
+      }
+    }
+    if (ref) type = 'object';
+
+    fields.push({
+      name,
+      type,
+      ...(format && !ref ? { format } : {}),
+      ...(ref ? { ref } : {}),
+      ...(list ? { list } : {}),
+      required: field.required === true,
+      ...(text(field.description) ? { description: text(field.description) } : {}),
+    });
+  });
+  return fields;
+};
+
+// --- Document ---
+
+const schemaRef = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const fieldSchema = (field: ApiField): Record<string, any> => {
+  let schema: Record<string, any> = field.ref
+    ? schemaRef(field.ref)
+    : { type: field.type, ...(field.format ? { format: field.format } : {}) };
+  if (field.list) schema = { type: 'array', items: schema };
+  return field.description ? { ...schema, description: field.description } : schema;
+};
+
+const objectSchema = (fields: ApiField[], description?: string): Record<string, any> => {
+  const required = fields.filter(f => f.required).map(f => f.name);
+  return {
+    type: 'object',
+    ...(description ? { description } : {}),
+    properties: Object.fromEntries(fields.map(f => [f.name, fieldSchema(f)])),
+    ...(required.length > 0 ? { required } : {}),
+  };
+};
+
+// Foreign keys stay plain ids, as they are stored
+const fromDataEntity = (nodeId: string, entity: DataEntity, name: string, description?: string): ApiEntity => ({
+  nodeId,
+  name,
+  description,
+  fields: entity.fields.map(f => ({
+    name: f.name,
+    ...(DATA_FIELD_SCHEMAS[f.type] ?? { type: 'string' }),
+    required: !f.nullable,
+    ...(f.references ? { description: `References ${f.references}` } : {}),
+  })),
+});
+
+const jsonContent = (schema: Record<string, any>) => ({ 'application/json': { schema } });
+
+export const buildOpenApiDocument = (title: string, nodes: any[], edges: any[], design?: ApiDesign): OpenApiDocument => {
+  const surface = describeApiSurface(nodes, edges);
+
+  // --- Schemas ---
+
+  const designedEntities = new Map((design?.entities ?? []).map(e => [e.nodeId, e]));
+  const taken = new Set([ERROR_SCHEMA.toLowerCase(), ...(design?.entities ?? []).map(e => e.name.toLowerCase())]);
+  // A store's first data model entity stands for the store, like a designed entity
+  const entities: ApiEntity[] = surface.stores.map(store => designedEntities.get(store.nodeId) ?? (store.entities
+    ? fromDataEntity(store.nodeId, store.entities[0], uniqueName(store.entities[0].name, taken), store.details || undefined)
+    : {
+      nodeId: store.nodeId,
+      name: uniqueName(entityBaseName(store.label), taken),
+      description: store.details || undefined,
+      // The scaffold's records have an id and nothing else until fields are designed
+      fields: [{ name: 'id', type: 'string', required: true }],
+    }));
+  const entityOf = new Map(entities.map(e => [e.nodeId, e]));
+
+  const schemas: Record<string, any> = {};
+  entities.forEach(entity => {
+    schemas[entity.name] = objectSchema(entity.fields, entity.description);
+  });
+  // The rest of the data model is available to reference
+  surface.stores.forEach(store => (store.entities ?? []).forEach(entity => {
+    if (taken.has(entity.name.toLowerCase())) return;
+    taken.add(entity.name.toLowerCase());
+    schemas[entity.name] = objectSchema(fromDataEntity(store.nodeId, entity, entity.name).fields);
+  }));
+  schemas[ERROR_SCHEMA] = {
+    type: 'object',
+    properties: { error: { type: 'string', description: 'What went wrong' } },
+    required: ['error'],
+  };
+
+  // --- Operations ---
+
+  const designedOperations = new Map((design?.operations ?? []).map(o => [o.nodeId, o]));
+  const operationIds = new Set<string>();
+  const routes = new Set((design?.operations ?? []).map(o => `${o.method} ${o.path}`));
+  const paths: Record<string, Record<string, any>> = {};
+  const usedTags = new Set<string>();
+
+  surface.endpoints.forEach(endpoint => {
+    const designed = designedOperations.get(endpoint.nodeId);
+    const stores = endpoint.stores.map(id => entityOf.get(id)!).filter(Boolean);
+    let operation: ApiOperation;
+    if (designed) {
+      operation = designed;
+    } else {
+      const method = inferHttpMethod(endpoint.label);
+      let path = `/${slugify(endpoint.label, 'operation')}`;
+      for (let n = 2; routes.has(`${method} ${path}`); n++) path = `/${slugify(endpoint.label, 'operation')}-${n}`;
+      routes.add(`${method} ${path}`);
+      operation = { nodeId: endpoint.nodeId, method, path, summary: endpoint.label, request: [], response: [] };
+    }
+
+    const params = pathParams(operation.path);
+    const fieldOf = (name: string) => operation.request.find(f => f.name === name);
+    const inputs = operation.request.filter(f => !params.includes(f.name));
+    const hasBody = !['get', 'delete'].includes(operation.method);
+    // A skeleton operation on a single store reads or writes records of it
+    const only = !designed && stores.length === 1 ? stores[0] : undefined;
+
+    const parameters = [
+      ...params.map(name => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: fieldOf(name) ? fieldSchema({ ...fieldOf(name)!, list: false }) : { type: 'string' },
+      })),
+      ...(hasBody ? [] : inputs.map(f => ({
+        name: f.name,
+        in: 'query',
+        ...(f.required ? { required: true } : {}),
+        ...(f.description ? { description: f.description } : {}),
+        schema: fieldSchema({ ...f, description: undefined }),
+      }))),
+    ];
+
+    let requestBody: Record<string, any> | undefined;
+    if (hasBody && (inputs.length > 0 || !designed)) {
+      requestBody = {
+        required: inputs.some(f => f.required) || !!only,
+        content: jsonContent(only ? schemaRef(only.name) : objectSchema(inputs)),
+      };
+    }
+
+    const responseSchema = operation.response.length > 0 ? objectSchema(operation.response)
+      : only ? (operation.method === 'get' ? { type: 'array', items: schemaRef(only.name) } : schemaRef(only.name))
+      : { type: 'object' };
+
+    const description = [
+      designed?.description ?? endpoint.details,
+      endpoint.triggers.length > 0 ? `Triggered by: ${endpoint.triggers.join(', ')}.` : '',
+    ].filter(Boolean).join('\n\n');
+    const tags = stores.map(s => s.name);
+    tags.forEach(tag => usedTags.add(tag));
+
+    paths[operation.path] = paths[operation.path] ?? {};
+    paths[operation.path][operation.method] = {
+      operationId: operationIdOf(endpoint.label, operationIds),
+      summary: operation.summary,
+      ...(description ? { description } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(requestBody ? { requestBody } : {}),
+      responses: {
+        '200': { description: 'Successful response', content: jsonContent(responseSchema) },
+        default: { $ref: '#/components/responses/Error' },
+      },
+      ...(endpoint.triggers.length > 0 ? { 'x-triggered-by': endpoint.triggers } : {}),
+    };
+  });
+
+  const tags = entities
+    .filter(e => usedTags.has(e.name))
+    .map(e => ({ name: e.name, ...(e.description ? { description: e.description } : {}) }));
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: { title: title.trim() || 'Workflow API', version: '0.1.0' },
+    servers: [{ url: '/api' }],
+    ...(tags.length > 0 ? { tags } : {}),
+    paths,
+    components: {
+      schemas,
+      responses: {
+        Error: { description: 'Unexpected error', content: jsonContent(schemaRef(ERROR_SCHEMA)) },
+      },
+    },
+  };
+};
+
+// --- Validation ---
+
+const resolvePointer = (doc: OpenApiDocument, ref: string) => {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref.slice(2).split('/')
+    .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((value, key) => isObject(value) || Array.isArray(value) ? (value as any)[key] : undefined, doc);
+};
+
+const checkSchema = (schema: unknown, location: string, issue: (location: string, message: string) => void) => {
+  if (!isObject(schema)) {
+    issue(location, 'Schema must be an object.');
+    return;
+  }
+  if (schema.$ref !== undefined) return;
+  const types = Array.isArray(schema.type) ? schema.type : schema.type === undefined ? [] : [schema.type];
+  types.filter((t: unknown) => !SCHEMA_TYPES.includes(t as string)).forEach((t: unknown) => issue(location, `Unknown type "${t}".`));
+  if (schema.properties !== undefined && !isObject(schema.properties)) issue(`${location}.properties`, 'Must be an object.');
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required)) issue(`${location}.required`, 'Must be a list of property names.');
+    else schema.required
+      .filter((name: unknown) => typeof name !== 'string' || !(name in properties))
+      .forEach((name: unknown) => issue(`${location}.required`, `"${name}" is not a declared property.`));
+  }
+  Object.entries(properties).forEach(([name, value]) => checkSchema(value, `${location}.properties.${name}`, issue));
+  if (schema.items !== undefined) checkSchema(schema.items, `${location}.items`, issue);
+  if (types.includes('array') && schema.items === undefined) issue(location, 'Array schemas need "items".');
+};
+
+const checkContent = (content: unknown, location: string, issue: (location: string, message: string) => void) => {
+  if (!isObject(content) || Object.keys(content).length === 0) {
+    issue(location, 'Must map at least one media type.');
+    return;
+  }
+  Object.entries(content).forEach(([mediaType, value]) => {
+    if (isObject(value) && value.schema !== undefined) checkSchema(value.schema, `${location}.${mediaType}.schema`, issue);
+  });
+};
+
+// Structural checks for the parts of OpenAPI 3.1 this app produces or a user
+// is likely to break by hand. Not a full JSON Schema validation of the spec.
+export const validateOpenApiDocument = (doc: OpenApiDocument): OpenApiIssue[] => {
+  const issues: OpenApiIssue[] = [];
+  const issue = (location: string, message: string) => issues.push({ location, message });
+
+  if (typeof doc.openapi !== 'string' || !/^3\.1\.\d+$/.test(doc.openapi)) issue('openapi', 'Must be an OpenAPI 3.1.x version string.');
+  if (!isObject(doc.info)) {
+    issue('info', 'Missing the info object.');
+  } else {
+    if (!text(doc.info.title)) issue('info.title', 'Must be a non-empty string.');
+    if (!text(doc.info.version)) issue('info.version', 'Must be a non-empty string.');
+  }
+  if (doc.paths === undefined && !isObject(doc.components) && doc.webhooks === undefined) {
+    issue('paths', 'A document needs paths, components or webhooks.');
+  }
+
+  const operationIds = new Set<string>();
+  const templates = new Set<string>();
+  Object.entries(isObject(doc.paths) ? doc.paths : {}).forEach(([path, item]) => {
+    const location = `paths.${path}`;
+    if (!path.startsWith('/')) issue(location, 'Path must start with "/".');
+    // "/users/{id}" and "/users/{userId}" are the same path to a router
+    const template = path.replace(/\{[^}]*\}/g, '{}');
+    if (templates.has(template)) issue(location, 'Another path differs from this one only in parameter names.');
+    templates.add(template);
+    const templated = pathParams(path);
+    if (templated.some(name => !name)) issue(location, 'Path has an empty {} parameter.');
+    if (new Set(templated).size !== templated.length) issue(location, 'Path repeats a parameter name.');
+    if (!isObject(item)) {
+      issue(location, 'Path item must be an object.');
+      return;
+    }
+
+    HTTP_METHODS.filter(method => item[method] !== undefined).forEach(method => {
+      const op = item[method];
+      const opLocation = `${location}.${method}`;
+      if (!isObject(op)) {
+        issue(opLocation, 'Operation must be an object.');
+        return;
+      }
+      if (op.operationId !== undefined) {
+        if (!text(op.operationId)) issue(`${opLocation}.operationId`, 'Must be a non-empty string.');
+        else if (operationIds.has(op.operationId)) issue(`${opLocation}.operationId`, `"${op.operationId}" is used by another operation.`);
+        else operationIds.add(op.operationId);
+      }
+
+      const parameters = [...(Array.isArray(item.parameters) ? item.parameters : []), ...(Array.isArray(op.parameters) ? op.parameters : [])];
+      const seen = new Set<string>();
+      parameters.forEach((p: unknown, i: number) => {
+        const pLocation = `${opLocation}.parameters.${i}`;
+        if (!isObject(p)) {
+          issue(pLocation, 'Parameter must be an object.');
+          return;
+        }
+        if (p.$ref !== undefined) return;
+        if (!text(p.name)) issue(pLocation, 'Parameter needs a name.');
+        if (!PARAMETER_LOCATIONS.includes(p.in)) issue(pLocation, `"in" must be one of ${PARAMETER_LOCATIONS.join(', ')}.`);
+        const key = `${p.in}:${p.name}`;
+        if (seen.has(key)) issue(pLocation, `Duplicate ${p.in} parameter "${p.name}".`);
+        seen.add(key);
+        if (p.in === 'path') {
+          if (p.required !== true) issue(pLocation, `Path parameter "${p.name}" must be required.`);
+          if (!templated.includes(p.name)) issue(pLocation, `Path parameter "${p.name}" does not appear in the path.`);
+        }
+        if (p.schema === undefined && p.content === undefined) issue(pLocation, 'Parameter needs a schema or content.');
+        if (p.schema !== undefined) checkSchema(p.schema, `${pLocation}.schema`, issue);
+      });
+      templated
+        .filter(name => name && !parameters.some((p: any) => isObject(p) && p.in === 'path' && p.name === name))
+        .forEach(name => issue(opLocation, `Path parameter "${name}" is not declared.`));
+
+      if (op.requestBody !== undefined) {
+        if (method === 'get') issue(`${opLocation}.requestBody`, 'GET operations should not have a request body.');
+        if (isObject(op.requestBody) && op.requestBody.$ref === undefined) checkContent(op.requestBody.content, `${opLocation}.requestBody.content`, issue);
+      }
+
+      if (!isObject(op.responses) || Object.keys(op.responses).length === 0) {
+        issue(`${opLocation}.responses`, 'Needs at least one response.');
+        return;
+      }
+      Object.entries(op.responses).forEach(([status, response]) => {
+        const rLocation = `${opLocation}.responses.${status}`;
+        if (status !== 'default' && !/^[1-5](\d\d|XX)$/.test(status)) issue(rLocation, 'Must be an HTTP status code or "default".');
+        if (!isObject(response)) {
+          issue(rLocation, 'Response must be an object.');
+          return;
+        }
+        if (response.$ref !== undefined) return;
+        if (typeof response.description !== 'string') issue(rLocation, 'Response needs a description.');
+        if (response.content !== undefined) checkContent(response.content, `${rLocation}.content`, issue);
+      });
+    });
+  });
+
+  const schemas = isObject(doc.components) && isObject(doc.components.schemas) ? doc.components.schemas : {};
+  Object.entries(schemas).forEach(([name, schema]) => {
+    if (!/^[A-Za-z0-9._-]+$/.test(name)) issue(`components.schemas.${name}`, 'Component names may only use letters, digits, ".", "_" and "-".');
+    checkSchema(schema, `components.schemas.${name}`, issue);
+  });
+
+  // Every local $ref must point at something
+  const walk = (value: unknown, location: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => walk(item, `${location}.${i}`));
+    } else if (isObject(value)) {
+      if (typeof value.$ref === 'string' && value.$ref.startsWith('#') && resolvePointer(doc, value.$ref) === undefined) {
+        issue(location, `Reference ${value.$ref} does not resolve.`);
+      }
+      Object.entries(value).forEach(([key, child]) => walk(child, location ? `${location}.${key}` : key));
+    }
+  };
+  walk(doc, '');
+
+  return issues;
+};
+
+export const serializeOpenApi = (doc: OpenApiDocument, format: OpenApiFormat) =>
+  format === 'yaml' ? toYaml(doc) : `${JSON.stringify(doc, null, 2)}\n`;
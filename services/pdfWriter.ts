@@ -0,0 +1,224 @@
+// Minimal PDF 1.4 writer for documents generated in the browser. Supports the
+// built-in Helvetica and Courier fonts (no embedding), filled and stroked
+// shapes and JPEG images, which is all the exported brief needs. Coordinates
+// are in points with the origin at the top left of the page.
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  color?: string;
+}
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { name: 'F3', baseFont: 'Courier' },
+};
+
+// Helvetica advance widths for ASCII 32-126 in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Returns a string whose char codes are all single WinAnsi bytes
+const toWinAnsi = (text: string) =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    if (char.length === 1 && (code >= 32 && code < 127 || code >= 160 && code <= 255)) return char;
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    if (char === '\t') return '    ';
+    return '?';
+  }).join('');
+
+const escapePdfString = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+const colorOperands = (hex: string) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  return [0, 2, 4].map(i => formatNumber(parseInt(full.slice(i, i + 2), 16) / 255)).join(' ');
+};
+
+const latin1Bytes = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+interface PdfImage {
+  name: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export class PdfWriter {
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  measure(text: string, { font = 'regular', size = 11 }: PdfTextStyle = {}) {
+    if (font === 'mono') return toWinAnsi(text).length * 600 * size / 1000;
+    const units = Array.from(toWinAnsi(text)).reduce((sum, char) => {
+      const code = char.charCodeAt(0);
+      return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+    }, 0);
+    // Helvetica-Bold is slightly wider; overestimating keeps wrapped lines inside the margin
+    return units * size / 1000 * (font === 'bold' ? 1.08 : 1);
+  }
+
+  // Splits text into lines that fit maxWidth, breaking long words if needed
+  wrap(text: string, maxWidth: number, style: PdfTextStyle = {}) {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+      let current = '';
+      paragraph.split(/ +/).forEach(word => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (this.measure(candidate, style) <= maxWidth) {
+          current = candidate;
+          return;
+        }
+        if (current) lines.push(current);
+        current = word;
+        while (current.length > 1 && this.measure(current, style) > maxWidth) {
+          let cut = current.length - 1;
+          while (cut > 1 && this.measure(current.slice(0, cut), style) > maxWidth) cut--;
+          lines.push(current.slice(0, cut));
+          current = current.slice(cut);
+        }
+      });
+      lines.push(current);
+    });
+    return lines;
+  }
+
+  text(text: string, x: number, y: number, { font = 'regular', size = 11, color = '#000000' }: PdfTextStyle = {}) {
+    const encoded = escapePdfString(toWinAnsi(text));
+    this.current().push(
+      `BT /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ${colorOperands(color)} rg ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td (${encoded}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, { fill, stroke }: { fill?: string; stroke?: string }) {
+    const ops: string[] = [];
+    if (fill) ops.push(`${colorOperands(fill)} rg`);
+    if (stroke) ops.push(`${colorOperands(stroke)} RG`);
+    ops.push(`${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`);
+    ops.push(fill && stroke ? 'B' : fill ? 'f' : 'S');
+    this.current().push(ops.join(' '));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string = '#000000') {
+    this.current().push(
+      `${colorOperands(color)} RG ${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  // Registers a baseline JPEG so it can be drawn on any page; width and height are in pixels
+  addJpeg(data: Uint8Array, width: number, height: number) {
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ name, data, width, height });
+    return name;
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number) {
+    this.current().push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} cm /${name} Do Q`
+    );
+  }
+
+  toBlob(): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (part: string | Uint8Array) => {
+      const bytes = typeof part === 'string' ? latin1Bytes(part) : part;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // Object numbers: 1 catalog, 2 page tree, 3-5 fonts, then images, then page/content pairs
+    const fontIds = { regular: 3, bold: 4, mono: 5 };
+    const imageIds = this.images.map((_, i) => 6 + i);
+    const firstPageId = 6 + this.images.length;
+    const pageIds = this.pages.map((_, i) => firstPageId + i * 2);
+
+    const fonts = (Object.keys(FONT_RESOURCES) as PdfFont[])
+      .map(font => `/${FONT_RESOURCES[font].name} ${fontIds[font]} 0 R`).join(' ');
+    const xObjects = this.images.map((image, i) => `/${image.name} ${imageIds[i]} 0 R`).join(' ');
+    const resources = `<< /Font << ${fonts} >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`;
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    (Object.keys(FONT_RESOURCES) as PdfFont[]).forEach(font => {
+      object(fontIds[font], `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`);
+    });
+    this.images.forEach((image, i) => {
+      object(
+        imageIds[i],
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        image.data
+      );
+    });
+    this.pages.forEach((ops, i) => {
+      const content = latin1Bytes(ops.join('\n'));
+      object(
+        pageIds[i],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources ${resources} /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      object(pageIds[i] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const xrefOffset = length;
+    const count = firstPageId + this.pages.length * 2;
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+  }
+
+  private current() {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,199 @@
+import { AppFeature, MoscowCategory, ReleaseId, RiceInputs } from "../types";
+
+// MoSCoW categories, RICE scores and release planning for features: cleaning
+// up priorities from the model and project files, ordering the list and
+// picking the features a release's workflow is generated from.
+
+export const MOSCOW_CATEGORIES: Record<MoscowCategory, { label: string; className: string }> = {
+  must: { label: 'Must', className: 'bg-red-100 text-red-700 border-red-200' },
+  should: { label: 'Should', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  could: { label: 'Could', className: 'bg-sky-100 text-sky-700 border-sky-200' },
+  wont: { label: "Won't", className: 'bg-slate-100 text-slate-500 border-slate-200' },
+};
+
+export const RELEASES: Record<ReleaseId, { label: string }> = {
+  mvp: { label: 'MVP' },
+  v1: { label: 'v1' },
+  v2: { label: 'v2' },
+};
+
+const RELEASE_ORDER: ReleaseId[] = ['mvp', 'v1', 'v2'];
+
+// The usual RICE impact scale, from minimal to massive
+export const RICE_IMPACTS: { value: number; label: string }[] = [
+  { value: 0.25, label: 'Minimal' },
+  { value: 0.5, label: 'Low' },
+  { value: 1, label: 'Medium' },
+  { value: 2, label: 'High' },
+  { value: 3, label: 'Massive' },
+];
+
+// Where a category lands when the model leaves the release out
+const DEFAULT_RELEASES: Record<MoscowCategory, ReleaseId | undefined> = { must: 'mvp', should: 'v1', could: 'v2', wont: undefined };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim().toLowerCase() : '';
+
+const toMoscow = (raw: unknown): MoscowCategory | undefined => {
+  const value = text(raw).replace(/[^a-z]/g, '');
+  if (value.startsWith('must')) return 'must';
+  if (value.startsWith('should')) return 'should';
+  if (value.startsWith('could')) return 'could';
+  if (value.startsWith('won') || value === 'wont') return 'wont';
+  return undefined;
+};
+
+const toRelease = (raw: unknown): ReleaseId | undefined => {
+  const value = text(raw).replace(/\s+/g, '');
+  if (value === 'mvp') return 'mvp';
+  if (value === 'v1' || value === 'v1.0' || value === '1') return 'v1';
+  if (value === 'v2' || value === 'v2.0' || value === '2') return 'v2';
+  return undefined;
+};
+
+const toNumber = (raw: unknown) => {
+  const value = typeof raw === 'string' ? parseFloat(raw) : raw;
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+export const riceScore = (rice: RiceInputs) =>
+  rice.effort > 0 ? (rice.reach * rice.impact * (rice.confidence / 100)) / rice.effort : 0;
+
+export const formatRiceScore = (score: number) => score >= 100 ? String(Math.round(score)) : score.toFixed(1);
+
+// --- Cleanup ---
+
+// Turns RICE inputs from anywhere into valid ones, or undefined when reach or
+// effort is missing. Every change is reported as "<where>...: reason".
+export const sanitizeRice = (raw: unknown, where: string, issues: string[]): RiceInputs | undefined => {
+  if (!isObject(raw)) {
+    issues.push(`${where}: expected an object`);
+    return undefined;
+  }
+  const reach = toNumber(raw.reach);
+  const effort = toNumber(raw.effort);
+  if (reach === undefined || reach < 0 || effort === undefined || effort <= 0) {
+    issues.push(`${where}: needs a reach of 0 or more and an effort above 0, dropped`);
+    return undefined;
+  }
+
+  let impact = toNumber(raw.impact);
+  const nearest = RICE_IMPACTS.reduce((best, option) =>
+    Math.abs(option.value - (impact ?? 1)) < Math.abs(best.value - (impact ?? 1)) ? option : best);
+  if (impact !== nearest.value) {
+    issues.push(`${where}.impact: ${impact === undefined ? 'missing' : impact} is not on the scale, using ${nearest.value}`);
+    impact = nearest.value;
+  }
+
+  let confidence = toNumber(raw.confidence);
+  // Fractions are read as percentages
+  if (confidence !== undefined && confidence > 0 && confidence <= 1) confidence *= 100;
+  if (confidence === undefined || confidence < 0 || confidence > 100) {
+    issues.push(`${where}.confidence: expected a percentage, using 50`);
+    confidence = 50;
+  }
+
+  return { reach: Math.round(reach), impact, confidence: Math.round(confidence), effort: Math.round(effort * 10) / 10 };
+};
+
+export type FeaturePriority = Pick<AppFeature, 'moscow' | 'rice' | 'release'>;
+
+// The prioritization fields of a stored feature; unknown values are dropped
+export const sanitizeFeaturePriority = (raw: Record<string, any>, where: string, issues: string[]): FeaturePriority => {
+  const priority: FeaturePriority = {};
+  if (raw.moscow !== undefined) {
+    const moscow = toMoscow(raw.moscow);
+    if (moscow) priority.moscow = moscow;
+    else issues.push(`${where}.moscow: unknown category ${JSON.stringify(raw.moscow)}`);
+  }
+  if (raw.release !== undefined) {
+    const release = toRelease(raw.release);
+    if (release) priority.release = release;
+    else issues.push(`${where}.release: unknown release ${JSON.stringify(raw.release)}`);
+  }
+  if (raw.rice !== undefined) {
+    const rice = sanitizeRice(raw.rice, `${where}.rice`, issues);
+    if (rice) priority.rice = rice;
+  }
+  return priority;
+};
+
+export interface SuggestedPriorities {
+  // Priorities per feature id
+  priorities: Record<string, FeaturePriority>;
+  fixes: string[];
+}
+
+// Validates { priorities: [{ featureId, moscow, reach, impact, confidence, effort, release }] }
+export const validatePrioritySuggestions = (raw: unknown, features: AppFeature[]): SuggestedPriorities => {
+  const list = Array.isArray(raw) ? raw : isObject(raw) ? raw.priorities : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected a JSON object with a "priorities" array.');
+  const fixes: string[] = [];
+  const priorities: Record<string, FeaturePriority> = {};
+
+  list.forEach((item: unknown, i: number) => {
+    const id = isObject(item) && typeof item.featureId === 'string' ? item.featureId.trim() : '';
+    // Models sometimes answer with the title instead of the id
+    const feature = features.find(f => f.id === id) ?? features.find(f => f.title.trim().toLowerCase() === id.toLowerCase());
+    const where = feature ? `"${feature.title}"` : `Priority #${i + 1}`;
+    if (!feature || !isObject(item)) {
+      fixes.push(`${where}: not one of the features to prioritize, dropped`);
+      return;
+    }
+    if (priorities[feature.id]) {
+      fixes.push(`${where}: prioritized twice, second answer dropped`);
+      return;
+    }
+    let moscow = toMoscow(item.moscow);
+    if (!moscow) {
+      fixes.push(`${where}.moscow: unknown category ${JSON.stringify(item.moscow)}, using could`);
+      moscow = 'could';
+    }
+    // Features that won't be built are left out of every release
+    let release = moscow === 'wont' ? undefined : toRelease(item.release);
+    if (moscow !== 'wont' && !release) {
+      release = DEFAULT_RELEASES[moscow];
+      fixes.push(`${where}.release: unknown release ${JSON.stringify(item.release)}, using ${RELEASES[release!].label}`);
+    }
+    const rice = sanitizeRice(item, `${where}.rice`, fixes);
+    priorities[feature.id] = { moscow, ...(release ? { release } : {}), ...(rice ? { rice } : {}) };
+  });
+
+  if (Object.keys(priorities).length === 0) throw new Error('The response did not prioritize any of the features.');
+  features.filter(f => !priorities[f.id]).forEach(f => fixes.push(`"${f.title}": no priority returned`));
+  return { priorities, fixes };
+};
+
+// --- Ordering ---
+
+// Moves a feature to the position of another one, as when dropping a dragged card on it
+export const moveFeature = (features: AppFeature[], fromId: string, toId: string) => {
+  const from = features.findIndex(f => f.id === fromId);
+  const to = features.findIndex(f => f.id === toId);
+  if (from < 0 || to < 0 || from === to) return features;
+  const result = [...features];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
+
+// Highest score first; features without RICE inputs keep their order at the end
+export const sortByRice = (features: AppFeature[]) => [
+  ...features.filter(f => f.rice).sort((a, b) => riceScore(b.rice!) - riceScore(a.rice!)),
+  ...features.filter(f => !f.rice),
+];
+
+// --- Releases ---
+
+// The selected features that ship in a release, including the earlier ones
+export const featuresForRelease = (features: AppFeature[], release: ReleaseId | 'all') => {
+  const selected = features.filter(f => f.selected);
+  if (release === 'all') return selected;
+  const last = RELEASE_ORDER.indexOf(release);
+  return selected.filter(f => f.release && RELEASE_ORDER.indexOf(f.release) <= last);
+};
+
+export const releaseLabel = (release: ReleaseId | 'all') =>
+  release === 'all' ? 'All selected features' : release === 'mvp' ? 'MVP' : `${RELEASES[release].label} (with earlier releases)`;
@@ -0,0 +1,322 @@
+import { AppFeature, AppStep, GenerationConfig, NodeType, ProjectSnapshot } from "../types";
+import { DEFAULT_CONFIG, createEmptyGraph } from "../constants";
+import { PROVIDER_IDS } from "./providers/registry";
+import { sanitizeEntities } from "./dataModel";
+import { sanitizeFeatureSpec } from "./featureSpecs";
+import { sanitizeFeatureChat } from "./featureChat";
+import { sanitizeFeaturePriority } from "./prioritization";
+import { resolveFeatureIds } from "./featureCoverage";
+import { sanitizeFeatureBasis } from "./featureDelta";
+
+export const PROJECT_FILE_FORMAT = "apparchitect-project";
+
+// Bump this whenever the document shape changes and add a migration below.
+export const PROJECT_FILE_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = ".apparchitect.json";
+
+export interface ProjectDocument {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  name?: string;
+  project: Omit<ProjectSnapshot, 'step'>;
+}
+
+export interface ProjectImportResult {
+  name?: string;
+  snapshot: ProjectSnapshot;
+  // Human readable "path: reason" entries for everything that was dropped or defaulted
+  rejected: string[];
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+const NODE_TYPES: NodeType[] = ['view', 'logic', 'database', 'userAction'];
+const HANDLE_POSITIONS = ['top', 'bottom', 'left', 'right'];
+const CONFIG_VALUES: { [K in keyof GenerationConfig]: GenerationConfig[K][] } = {
+  featureStyle: ['standard', 'creative'],
+  workflowComplexity: ['simple', 'complex'],
+  workflowType: ['full-stack', 'frontend-only', 'backend-focus'],
+  summaryLength: ['short', 'detailed'],
+  productScope: ['mvp', 'complete'],
+  workflowRelease: ['all', 'mvp', 'v1', 'v2'],
+};
+
+// migrations[n] upgrades a raw document from version n to n + 1.
+const migrations: Record<number, (doc: any) => any> = {
+  // A JSON object without "format" and "version" is read as the "project" part
+  // on its own and wrapped in a version 1 envelope; "name" is lifted out of it.
+  0: (doc: any) => {
+    const { generatedDescription, name, ...state } = doc;
+    return {
+      format: PROJECT_FILE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      name,
+      project: { ...state, generatedDescription },
+    };
+  },
+};
+
+// Fields a document may carry; anything else is dropped and reported on import
+const FEATURE_KEYS = ['id', 'title', 'description', 'selected', 'spec', 'moscow', 'rice', 'release'];
+const NODE_DATA_KEYS = ['label', 'details', 'type', 'entities', 'featureIds'];
+
+const reportUnknownKeys = (raw: Record<string, any>, known: string[], path: string, rejected: string[]) =>
+  Object.keys(raw)
+    .filter(key => !known.includes(key))
+    .forEach(key => rejected.push(`${path}.${key}: unknown field, dropped`));
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// --- Export ---
+
+export const serializeProject = (snapshot: ProjectSnapshot, name?: string): ProjectDocument => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  name,
+  project: {
+    provider: snapshot.provider,
+    model: snapshot.model,
+    idea: snapshot.idea,
+    features: snapshot.features,
+    featureChat: snapshot.featureChat,
+    config: snapshot.config,
+    graph: {
+      // Keep only what describes the design, not React Flow's runtime bookkeeping
+      nodes: snapshot.graph.nodes.map((n: any) => ({
+        id: n.id,
+        type: n.type,
+        position: { x: n.position.x, y: n.position.y },
+        sourcePosition: n.sourcePosition,
+        targetPosition: n.targetPosition,
+        // Editor state such as isNew or pending proposal flags is not part of the design
+        data: Object.fromEntries(Object.entries(n.data ?? {}).filter(([key]) => NODE_DATA_KEYS.includes(key))),
+      })),
+      edges: snapshot.graph.edges.map((e: any) => ({
+        id: e.id,
+        source: e.source,
+        target: e.target,
+        label: e.label,
+        animated: e.animated,
+        markerEnd: e.markerEnd,
+      })),
+      isGenerated: snapshot.graph.isGenerated,
+      version: snapshot.graph.version,
+      featureBasis: snapshot.graph.featureBasis,
+    },
+    generatedDescription: snapshot.generatedDescription,
+  },
+});
+
+// --- Import ---
+
+const validateFeatures = (raw: unknown, rejected: string[]): AppFeature[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    rejected.push("project.features: expected an array");
+    return [];
+  }
+  const seen = new Set<string>();
+  const features: AppFeature[] = [];
+  raw.forEach((f, i) => {
+    const path = `project.features[${i}]`;
+    if (!isObject(f) || typeof f.title !== 'string' || !f.title.trim()) {
+      rejected.push(`${path}: missing title`);
+      return;
+    }
+    let id = typeof f.id === 'string' && f.id ? f.id : `f-${i}`;
+    if (seen.has(id)) {
+      rejected.push(`${path}.id: duplicate id "${id}" was renamed`);
+      id = `${id}-${i}`;
+    }
+    seen.add(id);
+    if (f.description !== undefined && typeof f.description !== 'string') {
+      rejected.push(`${path}.description: expected a string`);
+    }
+    reportUnknownKeys(f, FEATURE_KEYS, path, rejected);
+    const spec = f.spec === undefined ? undefined : sanitizeFeatureSpec(f.spec, `${path}.spec`, rejected);
+    features.push({
+      id,
+      title: f.title,
+      description: typeof f.description === 'string' ? f.description : '',
+      selected: f.selected !== false,
+      ...(spec ? { spec } : {}),
+      ...sanitizeFeaturePriority(f, path, rejected),
+    });
+  });
+  return features;
+};
+
+const validateConfig = (raw: unknown, rejected: string[]): GenerationConfig => {
+  const config: GenerationConfig = { ...DEFAULT_CONFIG };
+  if (raw === undefined) return config;
+  if (!isObject(raw)) {
+    rejected.push("project.config: expected an object");
+    return config;
+  }
+  (Object.keys(CONFIG_VALUES) as (keyof GenerationConfig)[]).forEach(key => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if ((CONFIG_VALUES[key] as string[]).includes(value)) {
+      (config as any)[key] = value;
+    } else {
+      rejected.push(`project.config.${key}: unknown value ${JSON.stringify(value)}`);
+    }
+  });
+  return config;
+};
+
+const validateGraph = (raw: unknown, features: AppFeature[], rejected: string[]) => {
+  const graph = createEmptyGraph();
+  if (raw === undefined) return graph;
+  if (!isObject(raw)) {
+    rejected.push("project.graph: expected an object");
+    return graph;
+  }
+
+  const nodeIds = new Set<string>();
+  (Array.isArray(raw.nodes) ? raw.nodes : []).forEach((n: any, i: number) => {
+    const path = `project.graph.nodes[${i}]`;
+    if (!isObject(n) || typeof n.id !== 'string' || !n.id) {
+      rejected.push(`${path}: missing id`);
+      return;
+    }
+    if (nodeIds.has(n.id)) {
+      rejected.push(`${path}: duplicate id "${n.id}"`);
+      return;
+    }
+    const data = isObject(n.data) ? n.data : {};
+    const type: NodeType = NODE_TYPES.includes(data.type) ? data.type : NODE_TYPES.includes(n.type) ? n.type : 'logic';
+    if (!NODE_TYPES.includes(data.type)) {
+      rejected.push(`${path}.data.type: unknown node type ${JSON.stringify(data.type)}, using "${type}"`);
+    }
+    const position = isObject(n.position) && isFiniteNumber(n.position.x) && isFiniteNumber(n.position.y)
+      ? { x: n.position.x, y: n.position.y }
+      : null;
+    if (!position) rejected.push(`${path}.position: missing coordinates, placed at origin`);
+    reportUnknownKeys(data, NODE_DATA_KEYS, `${path}.data`, rejected);
+    const { entities: rawEntities, featureIds: rawFeatureIds } = data;
+    if (rawEntities !== undefined && type !== 'database') rejected.push(`${path}.data.entities: only database nodes hold entities`);
+    const entities = type === 'database' ? sanitizeEntities(rawEntities, `${path}.data.entities`, rejected) : [];
+    const featureIds = resolveFeatureIds(rawFeatureIds, features, `${path}.data.featureIds`, rejected);
+    nodeIds.add(n.id);
+    graph.nodes.push({
+      id: n.id,
+      type,
+      position: position || { x: 0, y: 0 },
+      ...(HANDLE_POSITIONS.includes(n.sourcePosition) ? { sourcePosition: n.sourcePosition } : {}),
+      ...(HANDLE_POSITIONS.includes(n.targetPosition) ? { targetPosition: n.targetPosition } : {}),
+      data: {
+        label: typeof data.label === 'string' ? data.label : n.id,
+        details: typeof data.details === 'string' ? data.details : '',
+        type,
+        ...(entities.length > 0 ? { entities } : {}),
+        ...(featureIds.length > 0 ? { featureIds } : {}),
+      },
+    });
+  });
+  if (raw.nodes !== undefined && !Array.isArray(raw.nodes)) rejected.push("project.graph.nodes: expected an array");
+
+  const edgeIds = new Set<string>();
+  (Array.isArray(raw.edges) ? raw.edges : []).forEach((e: any, i: number) => {
+    const path = `project.graph.edges[${i}]`;
+    if (!isObject(e) || typeof e.id !== 'string' || edgeIds.has(e.id)) {
+      rejected.push(`${path}: missing or duplicate id`);
+      return;
+    }
+    if (!nodeIds.has(e.source) || !nodeIds.has(e.target)) {
+      rejected.push(`${path}: connects unknown node ${JSON.stringify(nodeIds.has(e.source) ? e.target : e.source)}`);
+      return;
+    }
+    edgeIds.add(e.id);
+    graph.edges.push({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      label: typeof e.label === 'string' ? e.label : undefined,
+      animated: e.animated !== false,
+      ...(isObject(e.markerEnd) ? { markerEnd: e.markerEnd } : {}),
+    });
+  });
+  if (raw.edges !== undefined && !Array.isArray(raw.edges)) rejected.push("project.graph.edges: expected an array");
+
+  graph.isGenerated = raw.isGenerated === undefined ? graph.nodes.length > 0 : !!raw.isGenerated;
+  const basis = sanitizeFeatureBasis(raw.featureBasis, "project.graph.featureBasis", rejected);
+  if (basis) graph.featureBasis = basis;
+  return graph;
+};
+
+const pickStep = (snapshot: Omit<ProjectSnapshot, 'step'>): AppStep => {
+  if (snapshot.generatedDescription) return 'summary';
+  if (snapshot.graph.nodes.length > 0) return 'workflow';
+  if (snapshot.features.length > 0) return 'features';
+  return 'ideation';
+};
+
+export const parseProjectDocument = (text: string): ProjectImportResult => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    throw new ProjectFileError("The file is not valid JSON.");
+  }
+  if (!isObject(doc)) throw new ProjectFileError("The file does not contain a project.");
+
+  let version: number;
+  if (doc.format === undefined && doc.version === undefined) {
+    version = 0;
+  } else if (doc.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError(`Unknown file format ${JSON.stringify(doc.format)}.`);
+  } else if (!Number.isInteger(doc.version) || doc.version < 0) {
+    throw new ProjectFileError("The file has no valid format version.");
+  } else {
+    version = doc.version;
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`This file was exported by a newer version of AppArchitect (format v${version}).`);
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    doc = migrations[version](doc);
+    version += 1;
+  }
+
+  const rejected: string[] = [];
+  const raw = isObject(doc.project) ? doc.project : {};
+  if (!isObject(doc.project)) rejected.push("project: missing, nothing to import");
+  if ('apiKey' in raw) rejected.push("project.apiKey: API keys are never imported");
+
+  // Nodes link to features, so the features come first
+  const features = validateFeatures(raw.features, rejected);
+  const project: Omit<ProjectSnapshot, 'step'> = {
+    provider: PROVIDER_IDS.includes(raw.provider) ? raw.provider : 'gemini',
+    model: typeof raw.model === 'string' ? raw.model : '',
+    idea: typeof raw.idea === 'string' ? raw.idea : '',
+    features,
+    featureChat: sanitizeFeatureChat(raw.featureChat, 'project.featureChat', rejected),
+    graph: validateGraph(raw.graph, features, rejected),
+    config: validateConfig(raw.config, rejected),
+    generatedDescription: typeof raw.generatedDescription === 'string' ? raw.generatedDescription : '',
+  };
+  if (raw.provider !== undefined && !PROVIDER_IDS.includes(raw.provider)) {
+    rejected.push(`project.provider: unknown provider ${JSON.stringify(raw.provider)}`);
+  }
+  if (raw.idea !== undefined && typeof raw.idea !== 'string') rejected.push("project.idea: expected a string");
+
+  return {
+    name: typeof doc.name === 'string' && doc.name.trim() ? doc.name : undefined,
+    snapshot: { ...project, step: pickStep(project) },
+    rejected,
+  };
+};
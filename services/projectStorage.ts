@@ -0,0 +1,179 @@
+import { AppFeature, AppStep, ProjectSnapshot, SavedProject } from "../types";
+import { DEFAULT_CONFIG, createEmptyGraph } from "../constants";
+import { PROVIDER_IDS } from "./providers/registry";
+import { sanitizeFeatureSpec } from "./featureSpecs";
+import { sanitizeFeatureChat } from "./featureChat";
+import { sanitizeFeaturePriority } from "./prioritization";
+import { sanitizeFeatureBasis } from "./featureDelta";
+
+const STORAGE_KEY = "apparchitect.projects";
+
+export class ProjectStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectStorageError";
+  }
+}
+
+// Bump this when ProjectSnapshot changes in a way normalizeSnapshot cannot
+// absorb (renamed or restructured fields) and add a migration below that
+// upgrades records saved with the previous version. New optional fields only
+// need cleaning up in normalizeSnapshot.
+export const PROJECT_SCHEMA_VERSION = 1;
+
+const STEPS: AppStep[] = ['setup', 'ideation', 'features', 'workflow', 'summary'];
+
+// migrations[n] upgrades a raw record from schema version n to n + 1.
+// Records without a schemaVersion have no migration; they stay in storage
+// untouched but are left out of the library.
+const migrations: Record<number, (record: any) => any> = {};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fills in anything missing from an older or partially written snapshot so the
+// rest of the app can rely on the full ProjectSnapshot shape. Stored records
+// were written by the app, so anything invalid is dropped without a report.
+const normalizeSnapshot = (raw: any): ProjectSnapshot => {
+  const snapshot = isObject(raw) ? raw : {};
+  const graph = isObject(snapshot.graph) ? snapshot.graph : {};
+  const issues: string[] = [];
+  const features: AppFeature[] = Array.isArray(snapshot.features)
+    ? snapshot.features.filter(isObject).map((f: any, i: number) => {
+        const spec = f.spec === undefined ? undefined : sanitizeFeatureSpec(f.spec, `features[${i}].spec`, issues);
+        return {
+          id: typeof f.id === 'string' ? f.id : `f-${i}`,
+          title: typeof f.title === 'string' ? f.title : '',
+          description: typeof f.description === 'string' ? f.description : '',
+          selected: f.selected !== false,
+          ...(spec ? { spec } : {}),
+          ...sanitizeFeaturePriority(f, `features[${i}]`, issues),
+        };
+      })
+    : [];
+  const featureBasis = sanitizeFeatureBasis(graph.featureBasis, 'graph.featureBasis', issues);
+
+  return {
+    step: STEPS.includes(snapshot.step) && snapshot.step !== 'setup' ? snapshot.step : 'ideation',
+    provider: PROVIDER_IDS.includes(snapshot.provider) ? snapshot.provider : 'gemini',
+    model: typeof snapshot.model === 'string' ? snapshot.model : '',
+    idea: typeof snapshot.idea === 'string' ? snapshot.idea : '',
+    features,
+    featureChat: sanitizeFeatureChat(snapshot.featureChat, 'featureChat', issues),
+    graph: {
+      ...createEmptyGraph(),
+      nodes: Array.isArray(graph.nodes) ? graph.nodes : [],
+      edges: Array.isArray(graph.edges) ? graph.edges : [],
+      isGenerated: !!graph.isGenerated,
+      version: typeof graph.version === 'number' ? graph.version : 0,
+      ...(featureBasis ? { featureBasis } : {}),
+    },
+    config: { ...DEFAULT_CONFIG, ...(isObject(snapshot.config) ? snapshot.config : {}) },
+    generatedDescription: typeof snapshot.generatedDescription === 'string' ? snapshot.generatedDescription : '',
+  };
+};
+
+export const migrateProject = (raw: any): SavedProject | null => {
+  if (!isObject(raw) || typeof raw.id !== 'string') return null;
+
+  let record = raw;
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+  // Reading it would drop whatever the newer version added, and saving would downgrade it
+  if (version > PROJECT_SCHEMA_VERSION) {
+    console.warn(`Project ${raw.id} was saved by a newer version (schema ${version})`);
+    return null;
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) return null;
+    record = migrate(record);
+    version += 1;
+  }
+
+  const now = Date.now();
+  return {
+    id: record.id,
+    name: typeof record.name === 'string' && record.name.trim() ? record.name : undefined,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    createdAt: typeof record.createdAt === 'number' ? record.createdAt : now,
+    updatedAt: typeof record.updatedAt === 'number' ? record.updatedAt : now,
+    snapshot: normalizeSnapshot(record.snapshot),
+  };
+};
+
+// Records as stored, including ones this version cannot read. Writes go
+// through this list so those are never lost.
+const readRecords = (): any[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read saved projects", e);
+    return [];
+  }
+};
+
+const readAll = (): SavedProject[] =>
+  readRecords().map(migrateProject).filter((p): p is SavedProject => p !== null);
+
+const isRecord = (record: any, id: string) => isObject(record) && record.id === id;
+
+// Throws ProjectStorageError when the browser refuses the write, usually because storage is full
+const writeAll = (projects: any[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(projects));
+  } catch (e) {
+    console.error("Failed to write saved projects", e);
+    throw new ProjectStorageError(
+      e instanceof DOMException && e.name === 'QuotaExceededError'
+        ? "The browser's storage is full. Delete or export older projects to free up space."
+        : "The browser did not allow saving to local storage."
+    );
+  }
+};
+
+export const createProjectId = () => `proj-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getProjectName = (project: SavedProject) =>
+  project.name || project.snapshot.idea.trim() || 'Untitled project';
+
+export const listProjects = (): SavedProject[] =>
+  readAll().sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const loadProject = (id: string): SavedProject | null =>
+  readAll().find(p => p.id === id) || null;
+
+export const saveProject = (id: string, snapshot: ProjectSnapshot, name?: string): SavedProject => {
+  const records = readRecords();
+  const existing = migrateProject(records.find(r => isRecord(r, id)));
+  const now = Date.now();
+  const project: SavedProject = {
+    id,
+    name: name ?? existing?.name,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    snapshot,
+  };
+  writeAll(records.some(r => isRecord(r, id)) ? records.map(r => isRecord(r, id) ? project : r) : [...records, project]);
+  return project;
+};
+
+export const renameProject = (id: string, name: string) => {
+  writeAll(readRecords().map(r => {
+    const project = isRecord(r, id) ? migrateProject(r) : null;
+    return project ? { ...project, name: name.trim() || undefined } : r;
+  }));
+};
+
+export const duplicateProject = (id: string): SavedProject | null => {
+  const source = loadProject(id);
+  if (!source) return null;
+  return saveProject(createProjectId(), source.snapshot, `${getProjectName(source)} (copy)`);
+};
+
+export const deleteProject = (id: string) => {
+  writeAll(readRecords().filter(r => !isRecord(r, id)));
+};
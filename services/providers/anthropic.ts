@@ -0,0 +1,71 @@
+import { AiRequestError, responseError } from "./errors";
+import { readEventStream } from "./sse";
+import { ProviderClient, ProviderSettings } from "./types";
+import { trimSlashes } from "./openai";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const MAX_TOKENS = 8192;
+
+// Anthropic Messages API, called directly from the browser.
+export const createAnthropicClient = ({ apiKey, model, baseUrl }: ProviderSettings): ProviderClient => {
+  const url = `${trimSlashes(baseUrl || "https://api.anthropic.com")}/v1/messages`;
+
+  const post = async (systemInstruction: string, prompt: string, stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: MAX_TOKENS,
+        system: systemInstruction,
+        messages: [{ role: "user", content: prompt }],
+        stream,
+      }),
+      signal,
+    });
+    if (!response.ok) throw await responseError("Anthropic", response);
+    return response;
+  };
+
+  const complete = async (systemInstruction: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+    const data = await (await post(systemInstruction, prompt, false, signal)).json();
+    return (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+  };
+
+  return {
+    supportsSchema: false,
+
+    generateJson({ systemInstruction, prompt }, signal) {
+      return complete(
+        `${systemInstruction} Respond with valid JSON only, without Markdown fences or commentary.`,
+        prompt,
+        signal
+      );
+    },
+
+    generateText({ systemInstruction, prompt }, signal) {
+      return complete(systemInstruction, prompt, signal);
+    },
+
+    async *streamText({ systemInstruction, prompt }, signal) {
+      const response = await post(systemInstruction, prompt, true, signal);
+      for await (const payload of readEventStream(response)) {
+        const event = JSON.parse(payload);
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta") yield event.delta.text;
+        if (event.type === "message_stop") return;
+        // Overloaded and similar errors can arrive mid-stream after a 200 response
+        if (event.type === "error") {
+          throw new AiRequestError(`Anthropic API Error: ${event.error?.message || "stream failed"}`, event.error?.type === "overloaded_error" ? 529 : undefined);
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,39 @@
+// An HTTP level failure from a provider. 429 and 5xx responses are retried.
+export class AiRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "AiRequestError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The model answered, but the answer could not be parsed or failed validation.
+export class AiResponseError extends Error {
+  rawText: string;
+
+  constructor(message: string, rawText: string) {
+    super(message);
+    this.name = "AiResponseError";
+    this.rawText = rawText;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === "AbortError";
+
+export const abortError = () => new DOMException("The request was cancelled", "AbortError");
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+// Builds an AiRequestError from a non-2xx fetch response.
+export const responseError = async (providerLabel: string, response: Response) => {
+  const body = await response.text();
+  const retryAfter = Number(response.headers.get("retry-after"));
+  return new AiRequestError(`${providerLabel} API Error: ${body}`, response.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+};
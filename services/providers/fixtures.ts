@@ -0,0 +1,142 @@
+import { AiFixture, AiProvider } from "../../types";
+import { AiRequestError, abortError, throwIfAborted } from "./errors";
+import { hashString } from "./seed";
+import { ProviderClient, TextCall } from "./types";
+
+export const FIXTURE_FILE_FORMAT = "apparchitect-fixtures";
+export const FIXTURE_FILE_VERSION = 1;
+export const FIXTURE_FILE_EXTENSION = ".fixtures.json";
+
+const REPLAY_CHUNK_DELAY_MS = 20;
+
+export interface FixtureDocument {
+  format: typeof FIXTURE_FILE_FORMAT;
+  version: number;
+  recordedAt: string;
+  provider: AiProvider;
+  model: string;
+  fixtures: AiFixture[];
+}
+
+export class FixtureFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FixtureFileError";
+  }
+}
+
+// React Flow bookkeeping that changes while the user works but does not change the request
+const VOLATILE_KEYS = new Set([
+  'position', 'positionAbsolute', 'width', 'height', 'selected', 'dragging',
+  'style', 'markerEnd', 'animated', 'isNew', 'sourcePosition', 'targetPosition',
+]);
+
+// Keys on the structured inputs rather than the prompt, so a recording made
+// with one provider replays even though prompts differ slightly per provider.
+export const fixtureKey = (call: TextCall) =>
+  hashString(`${call.task}:${JSON.stringify(call.input, (key, value) => VOLATILE_KEYS.has(key) ? undefined : value)}`).toString(16);
+
+// --- Recording ---
+
+export const createRecordingClient = (inner: ProviderClient, onRecord: (fixture: AiFixture) => void): ProviderClient => ({
+  supportsSchema: inner.supportsSchema,
+
+  async generateJson(call, signal) {
+    const response = await inner.generateJson(call, signal);
+    onRecord({ task: call.task, key: fixtureKey(call), response });
+    return response;
+  },
+
+  async generateText(call, signal) {
+    const response = await inner.generateText(call, signal);
+    onRecord({ task: call.task, key: fixtureKey(call), response });
+    return response;
+  },
+
+  async *streamText(call, signal) {
+    const chunks: string[] = [];
+    for await (const chunk of inner.streamText(call, signal)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    // Only complete streams are worth replaying
+    onRecord({ task: call.task, key: fixtureKey(call), response: chunks.join(''), chunks });
+  },
+});
+
+// --- Replay ---
+
+// Answers each call with the recording for the same inputs, in recorded order
+// (so retries replay too). Calls with new inputs fall back to the next
+// recording of the same task.
+export const createReplayClient = (fixtures: AiFixture[]): ProviderClient => {
+  const keyCursors = new Map<string, number>();
+  const taskCursors = new Map<string, number>();
+
+  const next = (call: TextCall): AiFixture => {
+    const key = fixtureKey(call);
+    const exact = fixtures.filter(f => f.key === key);
+    if (exact.length > 0) {
+      const cursor = keyCursors.get(key) ?? 0;
+      keyCursors.set(key, cursor + 1);
+      return exact[Math.min(cursor, exact.length - 1)];
+    }
+    const sameTask = fixtures.filter(f => f.task === call.task);
+    if (sameTask.length === 0) throw new AiRequestError(`The fixture file has no recorded "${call.task}" response.`);
+    const cursor = taskCursors.get(call.task) ?? 0;
+    taskCursors.set(call.task, cursor + 1);
+    return sameTask[cursor % sameTask.length];
+  };
+
+  return {
+    supportsSchema: false,
+
+    async generateJson(call, signal) {
+      throwIfAborted(signal);
+      return next(call).response;
+    },
+
+    async generateText(call, signal) {
+      throwIfAborted(signal);
+      return next(call).response;
+    },
+
+    async *streamText(call, signal) {
+      const fixture = next(call);
+      for (const chunk of fixture.chunks || fixture.response.match(/\S+\s*/g) || []) {
+        await new Promise(resolve => setTimeout(resolve, REPLAY_CHUNK_DELAY_MS));
+        if (signal?.aborted) throw abortError();
+        yield chunk;
+      }
+    },
+  };
+};
+
+// --- Files ---
+
+export const serializeFixtures = (fixtures: AiFixture[], provider: AiProvider, model: string): FixtureDocument => ({
+  format: FIXTURE_FILE_FORMAT,
+  version: FIXTURE_FILE_VERSION,
+  recordedAt: new Date().toISOString(),
+  provider,
+  model,
+  fixtures,
+});
+
+export const parseFixtureFile = (text: string): FixtureDocument => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    throw new FixtureFileError("The file is not valid JSON.");
+  }
+  if (doc?.format !== FIXTURE_FILE_FORMAT) throw new FixtureFileError("The file is not an AppArchitect fixture recording.");
+  if (doc.version > FIXTURE_FILE_VERSION) {
+    throw new FixtureFileError(`This recording was made by a newer version of AppArchitect (format v${doc.version}).`);
+  }
+  const fixtures: AiFixture[] = (Array.isArray(doc.fixtures) ? doc.fixtures : []).filter((f: any) =>
+    f && typeof f.task === 'string' && typeof f.key === 'string' && typeof f.response === 'string'
+  );
+  if (fixtures.length === 0) throw new FixtureFileError("The recording does not contain any responses.");
+  return { ...doc, fixtures };
+};
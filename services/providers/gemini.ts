@@ -0,0 +1,47 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiResponseError, throwIfAborted } from "./errors";
+import { ProviderClient, ProviderSettings } from "./types";
+
+export const createGeminiClient = ({ apiKey, model }: ProviderSettings): ProviderClient => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    supportsSchema: true,
+
+    async generateJson({ systemInstruction, prompt, schema }, signal) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction,
+          abortSignal: signal,
+        },
+      });
+      if (!response.text) throw new AiResponseError("The model returned an empty response.", "");
+      return response.text;
+    },
+
+    async generateText({ systemInstruction, prompt }, signal) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { systemInstruction, abortSignal: signal },
+      });
+      return response.text || "";
+    },
+
+    async *streamText({ systemInstruction, prompt }, signal) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: { systemInstruction, abortSignal: signal },
+      });
+      for await (const chunk of stream) {
+        throwIfAborted(signal);
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
@@ -0,0 +1,433 @@
+import { AppFeature, GenerationConfig, NodeType } from "../../types";
+import { abortError, throwIfAborted } from "./errors";
+import { createRandom, hashString, shuffle } from "./seed";
+import { ProviderClient, TextCall } from "./types";
+
+// Offline provider for demos, onboarding and UI tests. Every answer is derived
+// from the request inputs, so the same idea always produces the same project.
+
+const RESPONSE_DELAY_MS = 400;
+const STREAM_CHUNK_DELAY_MS = 25;
+
+const STOP_WORDS = new Set([
+  'that', 'with', 'from', 'their', 'they', 'this', 'where', 'which', 'what', 'when', 'into', 'your',
+  'have', 'will', 'about', 'like', 'some', 'them', 'then', 'than', 'allows', 'users', 'people', 'app',
+  'application', 'platform', 'website', 'simple', 'using', 'lets', 'help', 'helps', 'each', 'other',
+]);
+
+const GENERIC_FEATURES: Omit<AppFeature, 'id' | 'selected'>[] = [
+  { title: 'User Accounts', description: 'Sign up, log in and manage a personal profile.' },
+  { title: 'Dashboard', description: 'An overview of recent activity and key numbers.' },
+  { title: 'Search & Filters', description: 'Find items quickly by keyword, category or date.' },
+  { title: 'Notifications', description: 'Email and in-app alerts for important events.' },
+  { title: 'Sharing', description: 'Share items with other users through a link.' },
+  { title: 'Favorites', description: 'Bookmark items to find them again later.' },
+  { title: 'Comments', description: 'Discuss items with other users in threaded comments.' },
+  { title: 'Analytics', description: 'Charts that show usage trends over time.' },
+  { title: 'Payments', description: 'Subscriptions and one-off purchases with a card.' },
+  { title: 'Admin Console', description: 'Moderate content and manage users.' },
+  { title: 'Settings', description: 'Preferences for privacy, theme and language.' },
+  { title: 'Offline Mode', description: 'Keep working without a connection and sync later.' },
+];
+
+const FEATURE_COUNTS: Record<GenerationConfig['productScope'], number> = { mvp: 4, complete: 8 };
+
+const titleCase = (value: string) => value.replace(/\b\w/g, c => c.toUpperCase());
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'item';
+
+// The most distinctive words of the idea, in order of appearance
+const keywords = (text: string) => {
+  const words = (text.toLowerCase().match(/[a-z][a-z-]{3,}/g) || []).filter(w => !STOP_WORDS.has(w));
+  return Array.from(new Set(words));
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+// --- Task Handlers ---
+
+const mockFeatures = ({ idea, style, scope }: Record<string, any>) => {
+  const random = createRandom(hashString(`${idea}|${style}`));
+  const words = keywords(idea);
+  const specific = words.slice(0, 2).map(word => ({
+    title: `${titleCase(word)} Management`,
+    description: `Create, edit and organize ${word} entries for the idea "${idea}".`,
+  }));
+  if (style === 'creative' && words.length > 0) {
+    specific.push({
+      title: `Smart ${titleCase(words[0])} Suggestions`,
+      description: `Recommends relevant ${words[0]} items based on past activity.`,
+    });
+  }
+  const count = FEATURE_COUNTS[scope as GenerationConfig['productScope']] ?? 6;
+  const generic = shuffle(GENERIC_FEATURES, random)
+    .filter(f => !words.slice(0, 2).some(word => f.title.toLowerCase().includes(word)))
+    .slice(0, Math.max(count - specific.length, 1));
+  return { features: [...specific, ...generic].slice(0, Math.max(count, specific.length)) };
+};
+
+const mockWorkflow = ({ idea, features, complexity, type }: Record<string, any>) => {
+  const nodes: { id: string; type: NodeType; label: string; details: string; featureIds: string[]; x: number; y: number }[] = [];
+  const edges: { id: string; source: string; target: string; label?: string }[] = [];
+  const add = (type: NodeType, label: string, details: string, featureIds: string[] = []) => {
+    const id = `${type}-${slug(label)}`;
+    nodes.push({ id, type, label, details, featureIds, x: 0, y: 0 });
+    return id;
+  };
+  const link = (source: string, target: string, label?: string) =>
+    edges.push({ id: `e-${source}-${target}`, source, target, label });
+
+  const detailed = complexity === 'complex';
+  const home = add('view', 'Home', `Entry screen for ${idea}`);
+  const database = type === 'frontend-only'
+    ? undefined
+    : add('database', 'App Database', 'Stores users and content', (features as AppFeature[]).map(f => f.id));
+
+  (features as AppFeature[]).forEach(feature => {
+    const implementing = [feature.id];
+    const screen = add('view', `${feature.title} Screen`, feature.description, implementing);
+    link(home, screen, 'navigate');
+    const action = detailed || type === 'frontend-only'
+      ? add('userAction', `Use ${feature.title}`, `User interacts with ${feature.title.toLowerCase()}`, implementing)
+      : screen;
+    if (action !== screen) link(screen, action);
+    if (type === 'frontend-only') return;
+    const service = add('logic', `${feature.title} Service`, `Handles ${feature.title.toLowerCase()} requests`, implementing);
+    link(action, service, detailed ? 'request' : undefined);
+    if (database) link(service, database, 'read/write');
+    if (type === 'backend-focus' && detailed) {
+      const worker = add('logic', `${feature.title} Worker`, 'Background processing and validation', implementing);
+      link(service, worker, 'enqueue');
+    }
+  });
+
+  return { nodes, edges };
+};
+
+const mockExtension = ({ nodes, edges, request, features = [] }: Record<string, any>) => {
+  const text = String(request);
+  const random = createRandom(hashString(text));
+  const operations: any[] = [];
+
+  // "remove/delete X" drops every node whose label is mentioned
+  if (/\b(remove|delete|drop)\b/i.test(text)) {
+    (nodes as any[])
+      .filter(n => n.data?.label && text.toLowerCase().includes(String(n.data.label).toLowerCase()))
+      .forEach(n => operations.push({ op: 'deleteNode', id: n.id, reason: 'Mentioned in the removal request' }));
+    if (operations.length > 0) return { operations };
+  }
+
+  const label = titleCase(keywords(text).slice(0, 3).join(' ')) || 'New Step';
+  const type: NodeType = /\b(store|save|database|table|cache)\b/i.test(text) ? 'database'
+    : /\b(screen|page|view|modal)\b/i.test(text) ? 'view'
+    : /\b(click|button|submit|upload)\b/i.test(text) ? 'userAction'
+    : 'logic';
+  const id = `new-${slug(label)}-${Math.floor(random() * 1000)}`;
+  const addition: Record<string, any> = { op: 'addNode', id, type, label, details: text, featureIds: [], reason: 'Requested addition' };
+  operations.push(addition);
+
+  // Screens hang off screens, storage off services, everything else off any non-storage node
+  const anchorType: NodeType | undefined = type === 'view' ? 'view' : type === 'database' ? 'logic' : undefined;
+  const connectable = (nodes as any[]).filter(n => n.data?.type !== 'database');
+  const preferred = connectable.filter(n => n.data?.type === anchorType);
+  const candidates = preferred.length > 0 ? preferred : connectable;
+  const anchor = candidates.length > 0 ? candidates[Math.floor(random() * candidates.length)] : undefined;
+  // Features named in the request, else whatever the node it hangs off implements
+  const mentioned = (features as AppFeature[]).filter(f => text.toLowerCase().includes(f.title.toLowerCase()));
+  addition.featureIds = mentioned.length > 0 ? mentioned.map(f => f.id) : anchor?.data?.featureIds ?? [];
+  if (anchor) {
+    const edgeIds = new Set((edges as any[]).map(e => e.id));
+    let edgeId = `new-e-${anchor.id}-${id}`;
+    while (edgeIds.has(edgeId)) edgeId += '-x';
+    operations.push({ op: 'addEdge', id: edgeId, source: anchor.id, target: id, reason: `Connects the new step to "${anchor.data.label}"` });
+  }
+  return { operations };
+};
+
+// Screens and services for added features, joined to the existing home screen
+// and store; nodes of removed features go, edited ones get new details
+const mockWorkflowUpdate = ({ nodes, changes, type }: Record<string, any>) => {
+  const existing = nodes as { id: string; type: NodeType; label: string; featureIds: string[]; manual: boolean }[];
+  const home = existing.find(n => n.type === 'view' && n.featureIds.length === 0) ?? existing.find(n => n.type === 'view');
+  const database = existing.find(n => n.type === 'database');
+  const operations: Record<string, any>[] = [];
+
+  (changes.added as { featureId: string; title: string; description: string }[]).forEach(feature => {
+    const screen = `new-view-${slug(feature.title)}`;
+    operations.push({ op: 'addNode', id: screen, type: 'view', label: `${feature.title} Screen`, details: feature.description, featureIds: [feature.featureId], reason: `Screen for ${feature.title}` });
+    if (home) operations.push({ op: 'addEdge', id: `new-e-${home.id}-${screen}`, source: home.id, target: screen, label: 'navigate', reason: `Reach ${feature.title} from ${home.label}` });
+    if (type === 'frontend-only') return;
+    const service = `new-logic-${slug(feature.title)}`;
+    operations.push({ op: 'addNode', id: service, type: 'logic', label: `${feature.title} Service`, details: `Handles ${feature.title.toLowerCase()} requests`, featureIds: [feature.featureId], reason: `Backend for ${feature.title}` });
+    operations.push({ op: 'addEdge', id: `new-e-${screen}-${service}`, source: screen, target: service, reason: 'Screen calls its service' });
+    if (database) operations.push({ op: 'addEdge', id: `new-e-${service}-${database.id}`, source: service, target: database.id, label: 'read/write', reason: 'Service stores its data' });
+  });
+
+  const removed = new Set((changes.removed as { featureId: string }[]).map(f => f.featureId));
+  existing
+    .filter(n => !n.manual && n.featureIds.length > 0 && n.featureIds.every(id => removed.has(id)))
+    .forEach(n => operations.push({ op: 'deleteNode', id: n.id, reason: 'Only served a removed feature' }));
+
+  (changes.edited as { featureId: string; after: { title: string; description: string } }[]).forEach(change => {
+    existing
+      .filter(n => !n.manual && n.type === 'view' && n.featureIds.includes(change.featureId))
+      .forEach(n => operations.push({ op: 'updateNode', id: n.id, details: change.after.description, reason: `${change.after.title} was edited` }));
+  });
+
+  return { operations };
+};
+
+const mockDescription = ({ idea, nodes, edges, length }: Record<string, any>) => {
+  const byType = (type: NodeType) => (nodes as any[]).filter(n => n.data?.type === type).map(n => n.data.label);
+  const views = byType('view');
+  const services = byType('logic');
+  const stores = byType('database');
+  const summary = `${idea} is organised as ${nodes.length} components connected by ${edges.length} flows: ` +
+    `${views.length} screens, ${services.length} services and ${stores.length} data stores.`;
+  if (length !== 'detailed') return summary;
+
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None';
+  return `# ${idea}\n\n${summary}\n\n## Screens\n${list(views)}\n\n## Services\n${list(services)}\n\n` +
+    `## Data\n${list(stores)}\n\n## User Flow\nUsers start on ${views[0] || 'the first screen'}, ` +
+    `trigger actions that call the services, and the services persist results to ${stores[0] || 'client state'}.`;
+};
+
+const mockApiDesign = ({ nodes, edges }: Record<string, any>) => {
+  const all = nodes as any[];
+  const labelOf = (node: any) => String(node.data?.label || node.id);
+  const singular = (word: string) => word.replace(/ies$/, 'y').replace(/([^s])s$/, '$1');
+
+  const entities = all.filter(n => n.data?.type === 'database').map(node => {
+    const name = titleCase(singular(keywords(labelOf(node)).find(w => !/^(database|table|store|storage)$/.test(w)) || 'record'));
+    return {
+      nodeId: node.id,
+      name: name.replace(/[^A-Za-z0-9]/g, ''),
+      description: node.data?.details,
+      fields: [
+        { name: 'id', type: 'string', format: 'uuid', required: true },
+        { name: 'name', type: 'string', required: true },
+        { name: 'createdAt', type: 'string', format: 'date-time', required: true },
+      ],
+    };
+  });
+
+  const operations = all.filter(n => n.data?.type === 'logic').map(node => {
+    const label = labelOf(node);
+    const store = entities.find(e => (edges as any[]).some(edge =>
+      (edge.source === node.id && edge.target === e.nodeId) || (edge.target === node.id && edge.source === e.nodeId)));
+    const resource = store ? `/${slug(store.name)}s` : `/${slug(label)}`;
+    const method = /\b(delete|remove)\b/i.test(label) ? 'delete'
+      : /\b(update|edit|change)\b/i.test(label) ? 'patch'
+      : /^(get|list|load|search|find|view|show|browse)\b/i.test(label) ? 'get'
+      : 'post';
+    const byId = method === 'delete' || method === 'patch';
+    const idField = { name: 'id', type: 'string', required: true };
+    return {
+      nodeId: node.id,
+      method,
+      path: byId ? `${resource}/{id}` : resource,
+      summary: label,
+      description: node.data?.details,
+      request: method === 'get' ? [{ name: 'query', type: 'string', required: false }]
+        : byId ? [idField, ...(method === 'patch' ? [{ name: 'name', type: 'string', required: false }] : [])]
+        : [{ name: 'name', type: 'string', required: true }],
+      response: store
+        ? [{ name: method === 'get' ? 'items' : 'item', type: 'object', ref: store.name, list: method === 'get', required: true }]
+        : [{ name: 'ok', type: 'boolean', required: true }],
+    };
+  });
+
+  return { entities, operations };
+};
+
+const mockDataModel = ({ features, nodes }: Record<string, any>) => {
+  const stores = (nodes as any[]).filter(n => n.data?.type === 'database');
+  if (stores.length === 0) return { stores: [] };
+  const singular = (word: string) => word.replace(/ies$/, 'y').replace(/([^s])s$/, '$1');
+  const id = { name: 'id', type: 'uuid', nullable: false, primaryKey: true };
+  const createdAt = { name: 'createdAt', type: 'datetime', nullable: false };
+
+  const names = new Set(['User']);
+  const entities: any[][] = stores.map(() => []);
+  entities[0].push({
+    name: 'User',
+    fields: [id, { name: 'email', type: 'string', nullable: false, unique: true }, { name: 'name', type: 'string', nullable: true }, createdAt],
+  });
+  (features as AppFeature[]).forEach(feature => {
+    const word = keywords(feature.title).find(w => !['management', 'smart', 'suggestions'].includes(w));
+    const name = word ? titleCase(singular(word)).replace(/[^A-Za-z0-9]/g, '') : '';
+    if (!name || names.has(name)) return;
+    names.add(name);
+    entities[names.size % stores.length].push({
+      name,
+      fields: [
+        id,
+        { name: 'userId', type: 'uuid', nullable: false, references: 'User' },
+        { name: 'title', type: 'string', nullable: false },
+        { name: 'details', type: 'text', nullable: true },
+        createdAt,
+      ],
+    });
+  });
+  return { stores: stores.map((store, i) => ({ nodeId: store.id, entities: entities[i] })) };
+};
+
+const mockFeatureSpecs = ({ features }: Record<string, any>) => {
+  const sizes = ['XS', 'S', 'M', 'L', 'XL'];
+  return {
+    specs: (features as { featureId: string; title: string; description: string }[]).map(feature => {
+      const subject = feature.title.trim().toLowerCase() || 'this feature';
+      const random = createRandom(hashString(feature.featureId + feature.title));
+      return {
+        featureId: feature.featureId,
+        stories: [
+          { role: 'user', goal: `to use ${subject}`, benefit: 'I can get my task done without help' },
+          { role: 'administrator', goal: `to review activity in ${subject}`, benefit: 'I can spot problems early' },
+        ],
+        criteria: [
+          {
+            scenario: `Use ${subject}`,
+            given: ['I am signed in'],
+            when: [`I open ${subject}`],
+            then: [`I see ${subject} with my latest data`],
+          },
+          {
+            scenario: `${titleCase(subject)} fails to load`,
+            given: ['I am signed in', 'the server is unavailable'],
+            when: [`I open ${subject}`],
+            then: ['I see an error message', 'I can try again'],
+          },
+        ],
+        size: sizes[Math.floor(random() * sizes.length)],
+      };
+    }),
+  };
+};
+
+// Known titles get their stock description, anything else a template around the idea
+const mockExpandFeatures = ({ idea, features, scope }: Record<string, any>) => ({
+  features: (features as { featureId: string; title: string }[]).map(feature => {
+    const known = GENERIC_FEATURES.find(f => f.title.toLowerCase() === feature.title.trim().toLowerCase());
+    const subject = feature.title.trim().toLowerCase();
+    const extra = scope === 'complete' ? ' Includes settings and an activity history.' : '';
+    return {
+      featureId: feature.featureId,
+      description: known?.description ?? `Lets users work with ${subject} as part of "${idea}".${extra}`,
+    };
+  }),
+});
+
+// Earlier features rank higher; a lean scope puts fewer of them in the MVP
+const mockPriorities = ({ features, scope }: Record<string, any>) => {
+  const list = features as { featureId: string; title: string }[];
+  const mustShare = scope === 'mvp' ? 0.35 : 0.5;
+  return {
+    priorities: list.map((feature, i) => {
+      const random = createRandom(hashString(feature.featureId + feature.title));
+      const rank = list.length > 1 ? i / (list.length - 1) : 0;
+      const moscow = rank <= mustShare ? 'must' : rank <= 0.7 ? 'should' : rank < 0.95 ? 'could' : 'wont';
+      const releases: Record<string, string> = { must: 'mvp', should: 'v1', could: 'v2', wont: 'none' };
+      return {
+        featureId: feature.featureId,
+        moscow,
+        reach: Math.round((1 - rank * 0.8) * 5000 * (0.5 + random())),
+        impact: [3, 2, 1, 0.5][Math.min(Math.floor(rank * 4), 3)],
+        confidence: [50, 80, 100][Math.floor(random() * 3)],
+        effort: Math.round((0.5 + random() * 3) * 2) / 2,
+        release: releases[moscow],
+      };
+    }),
+  };
+};
+
+// Understands a few phrasings ("add ...", "remove ...", "split ...", "make it more ...")
+const mockFeatureChat = ({ features, message }: Record<string, any>) => {
+  const list = features as { featureId: string; title: string; description: string }[];
+  const request = String(message).trim();
+  const mentioned = list.find(f => request.toLowerCase().includes(f.title.toLowerCase()))
+    ?? list.find(f => keywords(f.title).some(w => request.toLowerCase().includes(w)));
+  const rest = (pattern: RegExp) => titleCase((request.match(pattern)?.[1] ?? '').replace(/[.!?]+$/, '').trim());
+
+  if (/^split\b/i.test(request) && mentioned) {
+    return {
+      reply: `Splitting ${mentioned.title} into a setup part and a guided part keeps each one small enough to ship on its own.`,
+      changes: [
+        { op: 'remove', featureId: mentioned.featureId },
+        { op: 'add', title: `${mentioned.title}: Setup`, description: `The essential first steps of ${mentioned.title.toLowerCase()}.` },
+        { op: 'add', title: `${mentioned.title}: Guided Tour`, description: `Optional guidance that helps users get more out of ${mentioned.title.toLowerCase()}.` },
+      ],
+    };
+  }
+  if (/^(remove|drop|delete)\b/i.test(request) && mentioned) {
+    return { reply: `${mentioned.title} can go; nothing else depends on it.`, changes: [{ op: 'remove', featureId: mentioned.featureId }] };
+  }
+  const added = rest(/^add\s+(?:an?\s+)?(.+)$/i);
+  if (added) {
+    return { reply: `${added} fits well with the rest of the list.`, changes: [{ op: 'add', title: added, description: `Lets users work with ${added.toLowerCase()}.` }] };
+  }
+  const angle = rest(/more\s+(.+)$/i);
+  if (angle && list.length > 0) {
+    return {
+      reply: `I reworded the first features with a ${angle} audience in mind.`,
+      changes: list.slice(0, 2).map(f => ({
+        op: 'edit',
+        featureId: f.featureId,
+        title: `${angle} ${f.title}`,
+        description: `${f.description.replace(/\.?$/, '.')} Tailored for ${angle} users.`,
+      })),
+    };
+  }
+  return {
+    reply: `The list has ${list.length} features. Ask me to add, remove, split or reword them.`,
+    changes: [],
+  };
+};
+
+const answer = (call: TextCall): unknown => {
+  switch (call.task) {
+    case 'features': return mockFeatures(call.input);
+    case 'workflow': return mockWorkflow(call.input);
+    case 'extendWorkflow': return mockExtension(call.input);
+    case 'description': return mockDescription(call.input);
+    case 'apiDesign': return mockApiDesign(call.input);
+    case 'dataModel': return mockDataModel(call.input);
+    case 'featureSpecs': return mockFeatureSpecs(call.input);
+    case 'featureChat': return mockFeatureChat(call.input);
+    case 'expandFeatures': return mockExpandFeatures(call.input);
+    case 'priorities': return mockPriorities(call.input);
+    case 'updateWorkflow': return mockWorkflowUpdate(call.input);
+  }
+};
+
+export const createMockClient = (): ProviderClient => ({
+  supportsSchema: false,
+
+  async generateJson(call, signal) {
+    await delay(RESPONSE_DELAY_MS, signal);
+    return JSON.stringify(answer(call));
+  },
+
+  async generateText(call, signal) {
+    await delay(RESPONSE_DELAY_MS, signal);
+    return String(answer(call));
+  },
+
+  async *streamText(call, signal) {
+    const text = String(answer(call));
+    for (const chunk of text.match(/\S+\s*/g) || []) {
+      await delay(STREAM_CHUNK_DELAY_MS, signal);
+      yield chunk;
+    }
+  },
+});
@@ -0,0 +1,64 @@
+import { responseError } from "./errors";
+import { readEventStream } from "./sse";
+import { ProviderClient } from "./types";
+
+// OpenAI, Azure OpenAI and local servers (Ollama, LM Studio, vLLM) all speak
+// the chat completions protocol and differ only in URL, auth and JSON mode.
+export interface ChatCompletionsEndpoint {
+  label: string;
+  url: string;
+  headers: Record<string, string>;
+  // Omitted for Azure, where the deployment in the URL selects the model
+  model?: string;
+  // Not every compatible server accepts response_format: json_object
+  jsonMode: boolean;
+}
+
+export const trimSlashes = (url: string) => url.trim().replace(/\/+$/, "");
+
+export const createChatCompletionsClient = (endpoint: ChatCompletionsEndpoint): ProviderClient => {
+  const messages = (systemInstruction: string, prompt: string) => [
+    { role: "system", content: systemInstruction },
+    { role: "user", content: prompt }
+  ];
+
+  const post = async (body: any, signal?: AbortSignal) => {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...endpoint.headers },
+      body: JSON.stringify({ ...(endpoint.model ? { model: endpoint.model } : {}), ...body }),
+      signal,
+    });
+    if (!response.ok) throw await responseError(endpoint.label, response);
+    return response;
+  };
+
+  const complete = async (body: any, signal?: AbortSignal): Promise<string> => {
+    const data = await (await post(body, signal)).json();
+    return data.choices?.[0]?.message?.content || "";
+  };
+
+  return {
+    supportsSchema: false,
+
+    generateJson({ systemInstruction, prompt }, signal) {
+      return complete({
+        messages: messages(`${systemInstruction} Output valid JSON.`, prompt),
+        ...(endpoint.jsonMode ? { response_format: { type: "json_object" } } : {}),
+      }, signal);
+    },
+
+    generateText({ systemInstruction, prompt }, signal) {
+      return complete({ messages: messages(systemInstruction, prompt) }, signal);
+    },
+
+    async *streamText({ systemInstruction, prompt }, signal) {
+      const response = await post({ messages: messages(systemInstruction, prompt), stream: true }, signal);
+      for await (const payload of readEventStream(response)) {
+        if (payload === "[DONE]") return;
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+};
@@ -0,0 +1,130 @@
+import { AiProvider, AppModel, ProviderOptions } from "../../types";
+import { createAnthropicClient } from "./anthropic";
+import { createGeminiClient } from "./gemini";
+import { createMockClient } from "./mock";
+import { createChatCompletionsClient, trimSlashes } from "./openai";
+import { ProviderClient, ProviderDefinition, ProviderSettings } from "./types";
+
+const AZURE_DEFAULT_API_VERSION = "2024-10-21";
+
+export const PROVIDER_DEFINITIONS: ProviderDefinition[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    keyLabel: 'Gemini API Key',
+    keyPlaceholder: 'AIzaSy...',
+    requiresKey: true,
+    models: [
+      { value: AppModel.GEMINI_FLASH, label: 'Gemini 2.5 Flash (Fastest)' },
+      { value: AppModel.GEMINI_3_PRO, label: 'Gemini 3.0 Pro (Best Quality)' },
+    ],
+    fields: [],
+    create: createGeminiClient,
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    keyLabel: 'OpenAI API Key',
+    keyPlaceholder: 'sk-...',
+    requiresKey: true,
+    models: [
+      { value: AppModel.GPT_4O, label: 'GPT-4o (Best)' },
+      { value: AppModel.GPT_35_TURBO, label: 'GPT-3.5 Turbo (Fast)' },
+    ],
+    fields: [],
+    create: ({ apiKey, model }) => createChatCompletionsClient({
+      label: 'OpenAI',
+      url: 'https://api.openai.com/v1/chat/completions',
+      headers: { Authorization: `Bearer ${apiKey}` },
+      model,
+      jsonMode: true,
+    }),
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    keyLabel: 'Anthropic API Key',
+    keyPlaceholder: 'sk-ant-...',
+    requiresKey: true,
+    models: [
+      { value: AppModel.CLAUDE_SONNET, label: 'Claude Sonnet 4.5 (Best)' },
+      { value: AppModel.CLAUDE_HAIKU, label: 'Claude Haiku 4.5 (Fast)' },
+    ],
+    fields: [],
+    create: createAnthropicClient,
+  },
+  {
+    id: 'azure-openai',
+    label: 'Azure OpenAI',
+    keyLabel: 'Azure API Key',
+    keyPlaceholder: 'Key from the resource\'s Keys and Endpoint page',
+    requiresKey: true,
+    // Azure selects the model through the deployment name
+    models: [],
+    modelLabel: 'Deployment',
+    modelPlaceholder: 'e.g. gpt-4o-prod',
+    fields: [
+      { key: 'baseUrl', label: 'Endpoint', placeholder: 'https://my-resource.openai.azure.com', required: true },
+      { key: 'apiVersion', label: 'API Version', defaultValue: AZURE_DEFAULT_API_VERSION, required: true },
+    ],
+    create: ({ apiKey, model, baseUrl, apiVersion }) => createChatCompletionsClient({
+      label: 'Azure OpenAI',
+      url: `${trimSlashes(baseUrl || '')}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${encodeURIComponent(apiVersion || AZURE_DEFAULT_API_VERSION)}`,
+      headers: { 'api-key': apiKey },
+      jsonMode: true,
+    }),
+  },
+  {
+    id: 'openai-compatible',
+    label: 'Local / Compatible',
+    keyLabel: 'API Key (optional)',
+    keyPlaceholder: 'Leave empty for local servers',
+    requiresKey: false,
+    models: [],
+    modelPlaceholder: 'e.g. llama3.1 or qwen2.5-coder',
+    fields: [
+      {
+        key: 'baseUrl',
+        label: 'Base URL',
+        defaultValue: 'http://localhost:11434/v1',
+        required: true,
+        help: 'Any OpenAI-compatible server: Ollama (:11434/v1), LM Studio (:1234/v1), vLLM (:8000/v1).',
+      },
+    ],
+    create: ({ apiKey, model, baseUrl }) => createChatCompletionsClient({
+      label: 'OpenAI-compatible',
+      url: `${trimSlashes(baseUrl || '')}/chat/completions`,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      model,
+      jsonMode: false,
+    }),
+  },
+  {
+    id: 'mock',
+    label: 'Offline Demo',
+    keyLabel: 'API Key',
+    keyPlaceholder: '',
+    requiresKey: false,
+    offline: true,
+    models: [{ value: AppModel.MOCK, label: 'Deterministic mock (no network)' }],
+    fields: [],
+    create: createMockClient,
+  },
+];
+
+export const PROVIDER_IDS: AiProvider[] = PROVIDER_DEFINITIONS.map(p => p.id);
+
+export const getProviderDefinition = (id: AiProvider): ProviderDefinition =>
+  PROVIDER_DEFINITIONS.find(p => p.id === id) || PROVIDER_DEFINITIONS[0];
+
+// Field defaults for a provider, e.g. the Azure API version
+export const defaultProviderOptions = (id: AiProvider): ProviderOptions => {
+  const options: ProviderOptions = {};
+  getProviderDefinition(id).fields.forEach(field => {
+    if (field.defaultValue) options[field.key] = field.defaultValue;
+  });
+  return options;
+};
+
+export const createProviderClient = (id: AiProvider, settings: ProviderSettings): ProviderClient =>
+  getProviderDefinition(id).create(settings);
@@ -0,0 +1,24 @@
+import { AiRequestError } from "./errors";
+
+// Yields the data payload of every server-sent event in a streaming response.
+export async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) throw new AiRequestError("The response has no body to stream.");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        if (line.startsWith("data:")) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,55 @@
+import { Schema } from "@google/genai";
+import { AiProvider, AiTask, ProviderOptions } from "../../types";
+
+export interface ProviderSettings extends ProviderOptions {
+  apiKey: string;
+  model: string;
+}
+
+export interface TextCall {
+  task: AiTask;
+  systemInstruction: string;
+  prompt: string;
+  // The structured inputs the prompt was built from; offline providers answer from these
+  input: Record<string, any>;
+}
+
+export interface JsonCall extends TextCall {
+  // Only enforced by providers with supportsSchema; others rely on the prompt
+  schema: Schema;
+}
+
+// What AiService needs from a model API. Implementations only move text;
+// retries, parsing and validation happen in AiService.
+export interface ProviderClient {
+  // True when the API enforces the response schema, so prompts may ask for bare arrays
+  supportsSchema: boolean;
+  generateJson(call: JsonCall, signal?: AbortSignal): Promise<string>;
+  generateText(call: TextCall, signal?: AbortSignal): Promise<string>;
+  streamText(call: TextCall, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export interface ProviderField {
+  key: keyof ProviderOptions;
+  label: string;
+  placeholder?: string;
+  defaultValue?: string;
+  required?: boolean;
+  help?: string;
+}
+
+export interface ProviderDefinition {
+  id: AiProvider;
+  label: string;
+  keyLabel: string;
+  keyPlaceholder: string;
+  requiresKey: boolean;
+  // Answers locally without any network access or key
+  offline?: boolean;
+  // Suggested models; the user can always enter another name
+  models: { value: string; label: string }[];
+  modelLabel?: string;
+  modelPlaceholder?: string;
+  fields: ProviderField[];
+  create: (settings: ProviderSettings) => ProviderClient;
+}
@@ -0,0 +1,587 @@
+import { DataEntity, DataField, NodeType } from "../types";
+import { slugify } from "./fileUtils";
+
+// Turns the workflow graph into a starter Vite + React + Express TypeScript
+// project. Views become pages, logic nodes become API handlers with a typed
+// client, database nodes become model files, and edges become navigation,
+// client calls and handler dependencies. Everything is deterministic: the same
+// graph always produces the same files.
+
+export interface ScaffoldFile {
+  path: string;
+  content: string;
+}
+
+export interface Scaffold {
+  name: string;
+  files: ScaffoldFile[];
+}
+
+type HttpMethod = 'get' | 'post';
+
+interface Component {
+  node: any;
+  type: NodeType;
+  label: string;
+  details: string;
+  // PascalCase base name, unique per node type
+  name: string;
+  // camelCase identifier, unique per node type
+  ident: string;
+  slug: string;
+}
+
+interface Page extends Component {
+  componentName: string;
+  route: string;
+}
+
+interface Endpoint extends Component {
+  method: HttpMethod;
+  path: string;
+}
+
+interface Model extends Component {
+  recordType: string;
+  repository: string;
+}
+
+const NODE_TYPES: NodeType[] = ['view', 'logic', 'database', 'userAction'];
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+  'let', 'static', 'implements', 'interface', 'package', 'private', 'protected', 'public', 'await', 'async',
+]);
+
+// Labels starting with one of these read as queries and become GET endpoints
+const READ_VERBS = /^(get|list|fetch|load|search|find|read|view|show|browse|query|lookup)\b/i;
+
+export const inferHttpMethod = (label: string): 'get' | 'post' => READ_VERBS.test(label) ? 'get' : 'post';
+
+// --- Naming ---
+
+const words = (value: string) =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+export const pascalCase = (value: string) =>
+  words(value).map(w => w[0].toUpperCase() + w.slice(1).toLowerCase()).join('');
+
+const uniqueName = (base: string, taken: Set<string>) => {
+  let name = base;
+  for (let i = 2; taken.has(name.toLowerCase()); i++) name = `${base}${i}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+// Drops a trailing word that the generated suffix would repeat ("Login Screen" -> "Login" + "Page")
+const stripSuffix = (name: string, suffix: RegExp) => {
+  const stripped = name.replace(suffix, '');
+  return stripped || name;
+};
+
+const toComponent = (node: any, baseName: string, taken: Set<string>): Component => {
+  const label = String(node.data?.label || node.id).trim();
+  let base = baseName || pascalCase(String(node.id)) || 'Component';
+  if (/^[0-9]/.test(base)) base = `N${base}`;
+  const name = uniqueName(base, taken);
+  let ident = name[0].toLowerCase() + name.slice(1);
+  if (RESERVED_WORDS.has(ident)) ident = `${ident}Action`;
+  return {
+    node,
+    type: NODE_TYPES.includes(node.data?.type) ? node.data.type : 'logic',
+    label,
+    details: String(node.data?.details || '').trim(),
+    name,
+    ident,
+    slug: slugify(label, name.toLowerCase()),
+  };
+};
+
+// --- Source helpers ---
+
+const docComment = (lines: string[], indent: string = '') => {
+  const body = lines.map(line => line.replace(/\*\//g, '*\\/')).map(line => line ? `${indent} * ${line}` : `${indent} *`);
+  return [`${indent}/**`, ...body, `${indent} */`].join('\n');
+};
+
+// The node's own description, then notes about its connections, then TODOs
+const describe = (component: Component, todos: string[], notes: string[] = []) => [
+  component.label,
+  ...(component.details ? ['', ...component.details.split('\n')] : []),
+  ...(notes.length > 0 ? ['', ...notes] : []),
+  ...(todos.length > 0 ? ['', ...todos.map(todo => `TODO: ${todo}`)] : []),
+];
+
+const jsxText = (value: string) => /[{}<>]/.test(value) ? `{${JSON.stringify(value)}}` : value;
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+// How data model field types look in TypeScript
+const TS_FIELD_TYPES: Record<DataField['type'], string> = {
+  string: 'string', text: 'string', uuid: 'string', date: 'string', datetime: 'string',
+  integer: 'number', decimal: 'number', boolean: 'boolean', json: 'unknown',
+};
+
+const tsFieldType = (field: DataField) => `${TS_FIELD_TYPES[field.type] ?? 'unknown'}${field.nullable ? ' | null' : ''}`;
+
+const entityInterface = (entity: DataEntity) => [
+  `export interface ${entity.name} {`,
+  ...entity.fields.map(f => `  ${f.name}: ${tsFieldType(f)};${f.references ? ` // references ${f.references}` : ''}`),
+  `}`,
+];
+
+const edgeNote = (edge: any) => typeof edge.label === 'string' && edge.label.trim() ? ` (${edge.label.trim()})` : '';
+
+// --- Generator ---
+
+export const buildScaffold = (projectName: string, nodes: any[], edges: any[]): Scaffold => {
+  const name = slugify(projectName, 'app-scaffold');
+  const byType = (type: NodeType) => nodes.filter(n => (NODE_TYPES.includes(n.data?.type) ? n.data.type : 'logic') === type);
+
+  const pageNames = new Set<string>();
+  const endpointNames = new Set<string>();
+  const modelNames = new Set<string>();
+  const actionNames = new Set<string>();
+
+  // The entry page is the first view nothing navigates to
+  const views = byType('view');
+  const entry = views.find(v => !edges.some(e => e.target === v.id && nodes.some(n => n.id === e.source && ['view', 'userAction'].includes(n.data?.type)))) ?? views[0];
+  const routes = new Set<string>(['/']);
+  const pages: Page[] = views.map(node => {
+    const component = toComponent(node, stripSuffix(pascalCase(String(node.data?.label || '')), /(Page|Screen|View)$/), pageNames);
+    const route = node === entry ? '/' : uniqueName(`/${component.slug}`, routes);
+    return { ...component, componentName: `${component.name}Page`, route };
+  });
+
+  const endpoints: Endpoint[] = byType('logic').map(node => {
+    const component = toComponent(node, pascalCase(String(node.data?.label || '')), endpointNames);
+    return { ...component, method: inferHttpMethod(component.label), path: `/${component.slug}` };
+  });
+
+  const models: Model[] = byType('database').map(node => {
+    const component = toComponent(node, stripSuffix(pascalCase(String(node.data?.label || '')), /(Db|Database|Table|Store|Storage)$/), modelNames);
+    return { ...component, recordType: `${component.name}Record`, repository: `${component.ident}Repository` };
+  });
+
+  const actions = byType('userAction').map(node => toComponent(node, pascalCase(String(node.data?.label || '')), actionNames));
+
+  const pageOf = new Map(pages.map(p => [p.node.id, p]));
+  const endpointOf = new Map(endpoints.map(e => [e.node.id, e]));
+  const modelOf = new Map(models.map(m => [m.node.id, m]));
+  const actionOf = new Map(actions.map(a => [a.node.id, a]));
+  const labelOf = (id: string) => pageOf.get(id)?.label ?? endpointOf.get(id)?.label ?? modelOf.get(id)?.label ?? actionOf.get(id)?.label ?? id;
+  const outgoing = (id: string) => edges.filter(e => e.source === id);
+  const incoming = (id: string) => edges.filter(e => e.target === id);
+
+  // Models a handler uses, whichever way the edge points
+  const modelsFor = (endpoint: Endpoint) => {
+    const ids = edges.flatMap(e => e.source === endpoint.node.id ? [e.target] : e.target === endpoint.node.id ? [e.source] : []);
+    return models.filter(m => ids.includes(m.node.id));
+  };
+
+  const files: ScaffoldFile[] = [];
+  const add = (path: string, content: string) => files.push({ path: `${name}/${path}`, content: content.endsWith('\n') ? content : `${content}\n` });
+
+  // --- Shared API contract ---
+
+  const contract = endpoints.map(endpoint => [
+    docComment([`Request for ${endpoint.label}.`, '', `TODO: Describe the ${endpoint.method === 'get' ? 'query parameters' : 'request body'}.`]),
+    `export interface ${endpoint.name}Request {`,
+    `  [key: string]: unknown;`,
+    `}`,
+    '',
+    docComment([`Response from ${endpoint.label}.`, '', 'TODO: Describe the response body.']),
+    `export interface ${endpoint.name}Response {`,
+    `  [key: string]: unknown;`,
+    `}`,
+  ].join('\n'));
+  add('shared/api.ts', [
+    '// Request and response types shared by the client and the server.',
+    '',
+    contract.length > 0 ? contract.join('\n\n') : 'export {};',
+  ].join('\n'));
+
+  // --- Models ---
+
+  models.forEach(model => {
+    const users = endpoints.filter(e => modelsFor(e).includes(model)).map(e => e.label);
+    // Entities from the data model replace the placeholder record; the
+    // repository stores the first one that has a single-field primary key
+    const entities: DataEntity[] = Array.isArray(model.node.data?.entities) ? model.node.data.entities : [];
+    const stored = entities.find(e => e.fields.filter(f => f.primaryKey).length === 1);
+    const key = stored?.fields.find(f => f.primaryKey);
+    const recordType = stored?.name ?? model.recordType;
+    const keyName = key?.name ?? 'id';
+    const keyType = key ? TS_FIELD_TYPES[key.type] ?? 'string' : 'string';
+    add(`server/models/${model.ident}.ts`, [
+      docComment(describe(model, [
+        entities.length > 0 ? 'Keep these types in sync with the database schema.' : `Describe the fields of a ${model.label} record.`,
+        'Replace the in-memory store with a real database.',
+      ], users.length > 0 ? [`Used by: ${users.join(', ')}.`] : [])),
+      ...entities.flatMap((entity, i) => [...(i > 0 ? [''] : []), ...entityInterface(entity)]),
+      ...(stored ? [] : [
+        ...(entities.length > 0 ? [''] : []),
+        `export interface ${model.recordType} {`,
+        `  id: string;`,
+        `}`,
+      ]),
+      '',
+      `const records = new Map<${keyType}, ${recordType}>();`,
+      '',
+      `export const ${model.repository} = {`,
+      `  async list(): Promise<${recordType}[]> {`,
+      `    return [...records.values()];`,
+      `  },`,
+      `  async get(id: ${keyType}): Promise<${recordType} | undefined> {`,
+      `    return records.get(id);`,
+      `  },`,
+      `  async save(record: ${recordType}): Promise<${recordType}> {`,
+      `    records.set(record.${keyName}, record);`,
+      `    return record;`,
+      `  },`,
+      `  async remove(id: ${keyType}): Promise<boolean> {`,
+      `    return records.delete(id);`,
+      `  },`,
+      `};`,
+    ].join('\n'));
+  });
+
+  // --- Handlers ---
+
+  endpoints.forEach(endpoint => {
+    const used = modelsFor(endpoint);
+    const calls = outgoing(endpoint.node.id).filter(e => endpointOf.has(e.target) && e.target !== endpoint.node.id);
+    const callers = incoming(endpoint.node.id).filter(e => pageOf.has(e.source) || actionOf.has(e.source));
+    const redirects = outgoing(endpoint.node.id).filter(e => pageOf.has(e.target));
+
+    const todos = [
+      `Validate the ${endpoint.method === 'get' ? 'query parameters' : 'request body'}.`,
+      ...used.map(m => `Read or write ${m.label} through ${m.repository}.`),
+      ...calls.map(e => `Call ${endpointOf.get(e.target)!.ident}()${edgeNote(e)}.`),
+      ...redirects.map(e => `Return what ${labelOf(e.target)} needs to render${edgeNote(e)}.`),
+      `Implement ${endpoint.label}.`,
+    ];
+    const notes = callers.length > 0 ? [`Called by: ${callers.map(e => `${labelOf(e.source)}${edgeNote(e)}`).join(', ')}.`] : [];
+
+    const input = endpoint.method === 'get' ? 'req.query' : '(req.body ?? {})';
+    add(`server/handlers/${endpoint.ident}.ts`, [
+      `import type { Request, Response } from 'express';`,
+      `import type { ${endpoint.name}Request, ${endpoint.name}Response } from '../../shared/api';`,
+      ...used.map(m => `import { ${m.repository} } from '../models/${m.ident}';`),
+      ...[...new Set(calls.map(e => endpointOf.get(e.target)!))].map(e => `import { ${e.ident} } from './${e.ident}';`),
+      '',
+      docComment(describe(endpoint, todos, notes)),
+      `export async function ${endpoint.ident}(input: ${endpoint.name}Request): Promise<${endpoint.name}Response> {`,
+      `  // TODO: Replace this placeholder response.`,
+      `  return { received: input };`,
+      `}`,
+      '',
+      `export async function ${endpoint.ident}Handler(req: Request, res: Response) {`,
+      `  try {`,
+      `    res.json(await ${endpoint.ident}(${input} as ${endpoint.name}Request));`,
+      `  } catch (error) {`,
+      `    res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });`,
+      `  }`,
+      `}`,
+    ].join('\n'));
+  });
+
+  add('server/routes.ts', [
+    `import { Router } from 'express';`,
+    ...endpoints.map(e => `import { ${e.ident}Handler } from './handlers/${e.ident}';`),
+    '',
+    `export const routes = Router();`,
+    ...endpoints.flatMap(e => ['', `// ${e.label}`, `routes.${e.method}(${quote(e.path)}, ${e.ident}Handler);`]),
+  ].join('\n'));
+
+  add('server/index.ts', [
+    `import express from 'express';`,
+    `import { routes } from './routes';`,
+    '',
+    `const app = express();`,
+    `app.use(express.json());`,
+    `app.use('/api', routes);`,
+    '',
+    `const port = Number(process.env.PORT) || 3001;`,
+    'app.listen(port, () => console.log(`API listening on http://localhost:${port}`));',
+  ].join('\n'));
+
+  // --- Client ---
+
+  add('src/api/client.ts', [
+    ...(endpoints.length > 0 ? [`import type {`, ...endpoints.flatMap(e => [`  ${e.name}Request,`, `  ${e.name}Response,`]), `} from '../../shared/api';`, ''] : []),
+    `async function request<T>(method: string, path: string, input?: Record<string, unknown>): Promise<T> {`,
+    `  const query = method === 'GET' && input && Object.keys(input).length > 0 ? \`?\${new URLSearchParams(input as Record<string, string>)}\` : '';`,
+    `  const response = await fetch(\`/api\${path}\${query}\`, {`,
+    `    method,`,
+    `    headers: method === 'GET' ? undefined : { 'Content-Type': 'application/json' },`,
+    `    body: method === 'GET' ? undefined : JSON.stringify(input ?? {}),`,
+    `  });`,
+    `  if (!response.ok) throw new Error(\`\${method} \${path} failed with status \${response.status}\`);`,
+    `  return response.json() as Promise<T>;`,
+    `}`,
+    '',
+    `// One function per server endpoint`,
+    `export const api = {`,
+    ...endpoints.flatMap(e => [
+      docComment([e.label, ...(e.details ? ['', ...e.details.split('\n')] : [])], '  '),
+      `  ${e.ident}: (input: ${e.name}Request = {}) =>`,
+      `    request<${e.name}Response>(${quote(e.method.toUpperCase())}, ${quote(e.path)}, input),`,
+    ]),
+    `};`,
+  ].join('\n'));
+
+  // --- Pages ---
+
+  pages.forEach(page => {
+    const links = outgoing(page.node.id).filter(e => pageOf.has(e.target));
+    const loads = outgoing(page.node.id).filter(e => endpointOf.get(e.target)?.method === 'get');
+    const submits = outgoing(page.node.id).filter(e => endpointOf.get(e.target)?.method === 'post');
+    const pageActions = outgoing(page.node.id).filter(e => actionOf.has(e.target)).map(e => ({ edge: e, action: actionOf.get(e.target)! }));
+    const receives = incoming(page.node.id).filter(e => endpointOf.has(e.source));
+
+    const handlers: string[] = [];
+    const buttons: string[] = [];
+    let usesApi = loads.length > 0 || submits.length > 0;
+    let usesNavigate = false;
+
+    submits.forEach(e => {
+      const endpoint = endpointOf.get(e.target)!;
+      const handlerName = `submit${endpoint.name}`;
+      if (handlers.some(h => h.includes(`const ${handlerName} `))) return;
+      handlers.push([
+        `  const ${handlerName} = async () => {`,
+        `    // TODO: Send the form data${edgeNote(e)}.`,
+        `    await api.${endpoint.ident}({});`,
+        `  };`,
+      ].join('\n'));
+      buttons.push(`      <button onClick={${handlerName}}>${jsxText(endpoint.label)}</button>`);
+    });
+
+    pageActions.forEach(({ edge, action }) => {
+      const handlerName = `handle${action.name}`;
+      if (handlers.some(h => h.includes(`const ${handlerName} `))) return;
+      const body: string[] = [];
+      outgoing(action.node.id).forEach(next => {
+        const endpoint = endpointOf.get(next.target);
+        const target = pageOf.get(next.target);
+        if (endpoint) {
+          usesApi = true;
+          body.push(`    await api.${endpoint.ident}({});`);
+        } else if (target) {
+          usesNavigate = true;
+          body.push(`    navigate(${quote(target.route)});`);
+        } else if (modelOf.has(next.target)) {
+          body.push(`    // TODO: Save to ${labelOf(next.target)} through an API endpoint${edgeNote(next)}.`);
+        }
+      });
+      handlers.push([
+        docComment([`User action: ${action.label}${edgeNote(edge)}`, ...(action.details ? ['', ...action.details.split('\n')] : [])], '  '),
+        `  const ${handlerName} = async () => {`,
+        `    // TODO: Collect the input for this action.`,
+        ...body,
+        `  };`,
+      ].join('\n'));
+      buttons.push(`      <button onClick={${handlerName}}>${jsxText(action.label)}</button>`);
+    });
+
+    const todos = [
+      `Build the ${page.label} UI.`,
+      ...loads.map(e => `Show the data from ${labelOf(e.target)}${edgeNote(e)}.`),
+      ...receives.map(e => `Render the result of ${labelOf(e.source)}${edgeNote(e)}.`),
+    ];
+
+    const reactImports = loads.length > 0 ? `import { useEffect } from 'react';` : '';
+    const routerImports = [...(links.length > 0 ? ['Link'] : []), ...(usesNavigate ? ['useNavigate'] : [])];
+
+    add(`src/pages/${page.componentName}.tsx`, [
+      ...(reactImports ? [reactImports] : []),
+      ...(routerImports.length > 0 ? [`import { ${routerImports.join(', ')} } from 'react-router-dom';`] : []),
+      ...(usesApi ? [`import { api } from '../api/client';`] : []),
+      ...(reactImports || routerImports.length > 0 || usesApi ? [''] : []),
+      docComment(describe(page, todos)),
+      `export default function ${page.componentName}() {`,
+      ...(usesNavigate ? [`  const navigate = useNavigate();`, ''] : []),
+      ...(loads.length > 0 ? [
+        `  useEffect(() => {`,
+        `    // TODO: Keep the responses in state and render them.`,
+        ...loads.map(e => `    api.${endpointOf.get(e.target)!.ident}().catch(console.error);`),
+        `  }, []);`,
+        '',
+      ] : []),
+      ...(handlers.length > 0 ? [handlers.join('\n\n'), ''] : []),
+      `  return (`,
+      `    <main>`,
+      `      <h1>${jsxText(page.label)}</h1>`,
+      ...buttons,
+      ...(links.length > 0 ? [
+        `      <nav>`,
+        ...links.map(e => `        <Link to=${quote(pageOf.get(e.target)!.route)}>${jsxText(labelOf(e.target))}</Link>`),
+        `      </nav>`,
+      ] : []),
+      `    </main>`,
+      `  );`,
+      `}`,
+    ].join('\n'));
+  });
+
+  add('src/App.tsx', [
+    `import { BrowserRouter, Routes, Route${pages.length > 0 ? ', Link' : ''} } from 'react-router-dom';`,
+    ...pages.map(p => `import ${p.componentName} from './pages/${p.componentName}';`),
+    '',
+    `export default function App() {`,
+    `  return (`,
+    `    <BrowserRouter>`,
+    ...(pages.length > 0 ? [
+      `      <nav>`,
+      ...pages.map(p => `        <Link to=${quote(p.route)}>${jsxText(p.label)}</Link>`),
+      `      </nav>`,
+    ] : []),
+    `      <Routes>`,
+    ...(pages.length > 0
+      ? pages.map(p => `        <Route path=${quote(p.route)} element={<${p.componentName} />} />`)
+      : [`        <Route path="/" element={<p>TODO: Add pages.</p>} />`]),
+    `      </Routes>`,
+    `    </BrowserRouter>`,
+    `  );`,
+    `}`,
+  ].join('\n'));
+
+  add('src/main.tsx', [
+    `import { StrictMode } from 'react';`,
+    `import { createRoot } from 'react-dom/client';`,
+    `import App from './App';`,
+    '',
+    `createRoot(document.getElementById('root')!).render(`,
+    `  <StrictMode>`,
+    `    <App />`,
+    `  </StrictMode>`,
+    `);`,
+  ].join('\n'));
+
+  // --- Project files ---
+
+  add('index.html', [
+    `<!DOCTYPE html>`,
+    `<html lang="en">`,
+    `  <head>`,
+    `    <meta charset="UTF-8" />`,
+    `    <meta name="viewport" content="width=device-width, initial-scale=1.0" />`,
+    `    <title>${projectName.replace(/[<>&"]/g, '').trim() || name}</title>`,
+    `  </head>`,
+    `  <body>`,
+    `    <div id="root"></div>`,
+    `    <script type="module" src="/src/main.tsx"></script>`,
+    `  </body>`,
+    `</html>`,
+  ].join('\n'));
+
+  add('package.json', JSON.stringify({
+    name,
+    private: true,
+    version: '0.1.0',
+    type: 'module',
+    scripts: {
+      dev: 'concurrently "vite" "tsx watch server/index.ts"',
+      'dev:client': 'vite',
+      'dev:server': 'tsx watch server/index.ts',
+      build: 'tsc && vite build',
+      start: 'tsx server/index.ts',
+    },
+    dependencies: {
+      express: '^4.21.2',
+      react: '^19.0.0',
+      'react-dom': '^19.0.0',
+      'react-router-dom': '^7.1.1',
+    },
+    devDependencies: {
+      '@types/express': '^4.17.21',
+      '@types/node': '^22.10.2',
+      '@types/react': '^19.0.2',
+      '@types/react-dom': '^19.0.2',
+      '@vitejs/plugin-react': '^4.3.4',
+      concurrently: '^9.1.0',
+      tsx: '^4.19.2',
+      typescript: '~5.7.2',
+      vite: '^6.0.5',
+    },
+  }, null, 2));
+
+  add('tsconfig.json', JSON.stringify({
+    compilerOptions: {
+      target: 'ES2022',
+      lib: ['ES2022', 'DOM', 'DOM.Iterable'],
+      module: 'ESNext',
+      moduleResolution: 'Bundler',
+      jsx: 'react-jsx',
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true,
+      types: ['node'],
+    },
+    include: ['src', 'server', 'shared'],
+  }, null, 2));
+
+  add('vite.config.ts', [
+    `import { defineConfig } from 'vite';`,
+    `import react from '@vitejs/plugin-react';`,
+    '',
+    `// API requests go to the Express server during development`,
+    `export default defineConfig({`,
+    `  plugins: [react()],`,
+    `  server: {`,
+    `    proxy: { '/api': 'http://localhost:3001' },`,
+    `  },`,
+    `});`,
+  ].join('\n'));
+
+  add('.gitignore', ['node_modules', 'dist', '.env'].join('\n'));
+
+  const row = (cells: string[]) => `| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const orphanActions = actions.filter(a => !incoming(a.node.id).some(e => pageOf.has(e.source)));
+  add('README.md', [
+    `# ${projectName.trim() || name}`,
+    '',
+    'Starter project generated from the AppArchitect workflow diagram.',
+    '',
+    '## Getting started',
+    '',
+    '```sh',
+    'npm install',
+    'npm run dev',
+    '```',
+    '',
+    'The client runs on Vite and proxies `/api` to the Express server on port 3001.',
+    '',
+    '## Component map',
+    '',
+    row(['Component', 'Type', 'Generated code']),
+    row(['---', '---', '---']),
+    ...pages.map(p => row([p.label, 'View', `\`src/pages/${p.componentName}.tsx\` (route \`${p.route}\`)`])),
+    ...endpoints.map(e => row([e.label, 'Logic', `\`server/handlers/${e.ident}.ts\` (\`${e.method.toUpperCase()} /api${e.path}\`)`])),
+    ...models.map(m => row([m.label, 'Database', `\`server/models/${m.ident}.ts\``])),
+    ...actions.map(a => {
+      const owners = incoming(a.node.id).filter(e => pageOf.has(e.source)).map(e => pageOf.get(e.source)!.componentName);
+      return row([a.label, 'User action', owners.length > 0 ? `\`handle${a.name}\` in ${owners.join(', ')}` : 'Not attached to a page']);
+    }),
+    ...(orphanActions.length > 0 ? [
+      '',
+      '## Unplaced actions',
+      '',
+      'These actions are not connected from a view, so no page handles them yet:',
+      '',
+      ...orphanActions.map(a => `- ${a.label}${a.details ? ` — ${a.details.replace(/\s+/g, ' ')}` : ''}`),
+    ] : []),
+    '',
+    'Search the code for `TODO` to find everything that still needs an implementation.',
+  ].join('\n'));
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { name, files };
+};
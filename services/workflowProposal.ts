@@ -0,0 +1,243 @@
+import { MarkerType } from "reactflow";
+import { ProposedOperation, WorkflowOperation, WorkflowProposal } from "../types";
+
+const unknownNodes = (ids: (string | undefined)[], nodeIds: Set<string>) => {
+  const missing = ids.filter((id): id is string => id !== undefined && !nodeIds.has(id));
+  return missing.length > 0 ? `References unknown node ${missing.map(id => `"${id}"`).join(' and ')}` : undefined;
+};
+
+// Checks one operation against the graph as it would look after every earlier
+// valid operation, so "add node X, then connect X" is accepted.
+const validateOperation = (op: WorkflowOperation, nodeIds: Set<string>, edgeIds: Set<string>): string | undefined => {
+  switch (op.op) {
+    case 'addNode':
+      return nodeIds.has(op.id) ? `Node id "${op.id}" already exists` : undefined;
+    case 'updateNode':
+      if (!nodeIds.has(op.id)) return `Unknown node "${op.id}"`;
+      if (op.label === undefined && op.details === undefined && op.type === undefined && op.featureIds === undefined) return "Does not change anything";
+      return undefined;
+    case 'deleteNode':
+      return nodeIds.has(op.id) ? undefined : `Unknown node "${op.id}"`;
+    case 'addEdge':
+      if (edgeIds.has(op.id)) return `Edge id "${op.id}" already exists`;
+      if (!op.source || !op.target) return "Missing source or target";
+      return unknownNodes([op.source, op.target], nodeIds);
+    case 'updateEdge':
+      if (!edgeIds.has(op.id)) return `Unknown edge "${op.id}"`;
+      return unknownNodes([op.source, op.target], nodeIds);
+    case 'deleteEdge':
+      return edgeIds.has(op.id) ? undefined : `Unknown edge "${op.id}"`;
+  }
+};
+
+// Expects operations already checked for shape by validateWorkflowOperations.
+export const buildProposal = (
+  validated: WorkflowOperation[],
+  nodes: any[],
+  edges: any[],
+  request: string,
+  repairs: string[] = []
+): WorkflowProposal => {
+  const nodeIds = new Set<string>(nodes.map(n => n.id));
+  const edgeIds = new Set<string>(edges.map(e => e.id));
+
+  const operations: ProposedOperation[] = validated.map(operation => {
+    const issue = validateOperation(operation, nodeIds, edgeIds);
+    if (!issue) {
+      if (operation.op === 'addNode') nodeIds.add(operation.id);
+      if (operation.op === 'deleteNode') nodeIds.delete(operation.id);
+      if (operation.op === 'addEdge') edgeIds.add(operation.id);
+      if (operation.op === 'deleteEdge') edgeIds.delete(operation.id);
+    }
+    return { operation, accepted: !issue, issue };
+  });
+
+  return { request, operations, repairs };
+};
+
+const isActive = (item: ProposedOperation) => item.accepted && !item.issue;
+
+const nodeDependencies = (op: WorkflowOperation): string[] => {
+  switch (op.op) {
+    case 'updateNode': return [op.id];
+    case 'addEdge':
+    case 'updateEdge': return [op.source, op.target].filter((id): id is string => id !== undefined);
+    default: return [];
+  }
+};
+
+// Explains why an otherwise valid operation would be skipped with the current selection.
+export const getOperationBlocker = (proposal: WorkflowProposal, index: number): string | undefined => {
+  const { operation } = proposal.operations[index];
+  const earlier = proposal.operations.slice(0, index);
+
+  for (const id of nodeDependencies(operation)) {
+    const creator = earlier.find(item => item.operation.op === 'addNode' && item.operation.id === id && !item.issue);
+    if (creator && !creator.accepted) return `Needs new node "${creator.operation.label || id}"`;
+    const remover = earlier.find(item => item.operation.op === 'deleteNode' && item.operation.id === id && isActive(item));
+    if (remover) return `Node "${id}" is being removed`;
+  }
+
+  if (operation.op === 'updateEdge' || operation.op === 'deleteEdge') {
+    const creatorIndex = earlier.findIndex(item => item.operation.op === 'addEdge' && item.operation.id === operation.id && !item.issue);
+    if (creatorIndex >= 0 && (!proposal.operations[creatorIndex].accepted || getOperationBlocker(proposal, creatorIndex))) {
+      return `Needs new connection "${operation.id}"`;
+    }
+  }
+  return undefined;
+};
+
+export const willApply = (proposal: WorkflowProposal, index: number) =>
+  isActive(proposal.operations[index]) && !getOperationBlocker(proposal, index);
+
+const toFlowNode = (op: WorkflowOperation) => {
+  const type = op.type || 'logic';
+  return {
+    id: op.id,
+    type,
+    position: { x: op.x ?? 0, y: op.y ?? 0 },
+    data: { label: op.label || op.id, details: op.details || '', type, ...(op.featureIds?.length ? { featureIds: op.featureIds } : {}) },
+  };
+};
+
+const toFlowEdge = (op: WorkflowOperation) => ({
+  id: op.id,
+  source: op.source!,
+  target: op.target!,
+  label: op.label,
+  animated: true,
+  markerEnd: { type: MarkerType.ArrowClosed },
+});
+
+const updateNodeData = (node: any, op: WorkflowOperation) => {
+  const type = op.type || node.data.type;
+  const { featureIds: _previous, ...data } = node.data;
+  const featureIds = op.featureIds ?? node.data.featureIds;
+  return {
+    ...node,
+    type,
+    data: {
+      ...data,
+      label: op.label ?? node.data.label,
+      details: op.details ?? node.data.details,
+      type,
+      ...(featureIds?.length ? { featureIds } : {}),
+    },
+  };
+};
+
+const updateEdgeData = (edge: any, op: WorkflowOperation) => ({
+  ...edge,
+  source: op.source ?? edge.source,
+  target: op.target ?? edge.target,
+  label: op.label ?? edge.label,
+});
+
+// Applies every accepted, unblocked operation in order as one change.
+export const applyProposal = (proposal: WorkflowProposal, nodes: any[], edges: any[]) => {
+  let nextNodes = [...nodes];
+  let nextEdges = [...edges];
+
+  proposal.operations.forEach((item, index) => {
+    if (!willApply(proposal, index)) return;
+    const op = item.operation;
+    switch (op.op) {
+      case 'addNode': {
+        const node = toFlowNode(op);
+        nextNodes.push({ ...node, data: { ...node.data, isNew: true } });
+        break;
+      }
+      case 'updateNode':
+        nextNodes = nextNodes.map(n => n.id === op.id ? updateNodeData({ ...n, data: { ...n.data, isNew: true } }, op) : n);
+        break;
+      case 'deleteNode':
+        nextNodes = nextNodes.filter(n => n.id !== op.id);
+        break;
+      case 'addEdge':
+        nextEdges.push(toFlowEdge(op));
+        break;
+      case 'updateEdge':
+        nextEdges = nextEdges.map(e => e.id === op.id ? updateEdgeData(e, op) : e);
+        break;
+      case 'deleteEdge':
+        nextEdges = nextEdges.filter(e => e.id !== op.id);
+        break;
+    }
+  });
+
+  // Removing a node takes its connections with it
+  const nodeIds = new Set(nextNodes.map(n => n.id));
+  nextEdges = nextEdges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target));
+  return { nodes: nextNodes, edges: nextEdges };
+};
+
+const ghostEdgeStyle = (active: boolean, color: string) => ({
+  strokeDasharray: '6 4',
+  stroke: active ? color : '#cbd5e1',
+  strokeWidth: active ? 2 : 1,
+});
+
+// Builds what the editor renders while a proposal is pending: the current graph
+// with affected elements flagged, plus non-interactive ghosts for additions.
+export const getProposalPreview = (proposal: WorkflowProposal, nodes: any[], edges: any[]) => {
+  const nodeChanges = new Map<string, { kind: 'update' | 'delete'; active: boolean; op: WorkflowOperation }>();
+  const edgeChanges = new Map<string, { kind: 'update' | 'delete'; active: boolean; op: WorkflowOperation }>();
+  const ghostNodes: any[] = [];
+  const ghostEdges: any[] = [];
+
+  proposal.operations.forEach((item, index) => {
+    if (item.issue) return;
+    const op = item.operation;
+    const active = willApply(proposal, index);
+    switch (op.op) {
+      case 'addNode': {
+        const node = toFlowNode(op);
+        ghostNodes.push({
+          ...node,
+          draggable: false,
+          selectable: false,
+          connectable: false,
+          data: { ...node.data, pendingChange: 'add', pendingRejected: !active },
+        });
+        break;
+      }
+      case 'updateNode':
+      case 'deleteNode':
+        nodeChanges.set(op.id, { kind: op.op === 'updateNode' ? 'update' : 'delete', active, op });
+        break;
+      case 'addEdge':
+        ghostEdges.push({
+          ...toFlowEdge(op),
+          selectable: false,
+          focusable: false,
+          deletable: false,
+          animated: false,
+          style: ghostEdgeStyle(active, '#6366f1'),
+        });
+        break;
+      case 'updateEdge':
+      case 'deleteEdge':
+        edgeChanges.set(op.id, { kind: op.op === 'updateEdge' ? 'update' : 'delete', active, op });
+        break;
+    }
+  });
+
+  const previewNodes = nodes.map(n => {
+    const change = nodeChanges.get(n.id);
+    if (!change) return n;
+    const base = change.kind === 'update' && change.active ? updateNodeData(n, change.op) : n;
+    return { ...base, data: { ...base.data, pendingChange: change.kind, pendingRejected: !change.active } };
+  });
+
+  const previewEdges = edges.map(e => {
+    const change = edgeChanges.get(e.id);
+    if (!change) return e;
+    const base = change.kind === 'update' && change.active ? updateEdgeData(e, change.op) : e;
+    return { ...base, style: ghostEdgeStyle(change.active, change.kind === 'delete' ? '#ef4444' : '#f59e0b') };
+  });
+
+  return {
+    nodes: [...previewNodes, ...ghostNodes],
+    edges: [...previewEdges, ...ghostEdges],
+  };
+};
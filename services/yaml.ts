@@ -0,0 +1,53 @@
+// Minimal YAML writer for JSON-compatible values (objects, arrays, strings,
+// numbers, booleans, null). Output is block style and round-trips through any
+// YAML 1.2 parser; strings that could be misread are written JSON-quoted,
+// which YAML accepts as double-quoted scalars.
+
+// Plain scalars that YAML 1.1 parsers would read as something other than a string
+const AMBIGUOUS = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+
+const isCollection = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+const isEmpty = (value: object) => Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+
+// No ": " or " #", and no indicator character in first position
+const isPlain = (value: string) =>
+  /^[A-Za-z_/$][\w .,()/{}'+-]*$/.test(value) && !/\s$/.test(value) && !AMBIGUOUS.test(value);
+
+const quoteString = (value: string) => isPlain(value) ? value : JSON.stringify(value);
+
+const scalar = (value: unknown, indent: number): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (isCollection(value)) return Array.isArray(value) ? '[]' : '{}';
+  const text = String(value);
+  // Multi-line text reads best as a literal block
+  if (text.includes('\n') && !/^[\s]/.test(text) && !/[\r\t]/.test(text) && !/[ \n]$/.test(text)) {
+    const pad = ' '.repeat(indent);
+    return `|-\n${text.split('\n').map(line => line ? `${pad}${line}` : '').join('\n')}`;
+  }
+  return quoteString(text);
+};
+
+const lines = (value: object, indent: number): string[] => {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isCollection(item) && !isEmpty(item)) {
+        const inner = lines(item, indent + 2);
+        return [`${pad}- ${inner[0].slice(indent + 2)}`, ...inner.slice(1)];
+      }
+      return [`${pad}- ${scalar(item, indent + 2)}`];
+    });
+  }
+  return Object.entries(value)
+    .filter(([, v]) => v !== undefined)
+    .flatMap(([key, v]) => {
+      if (isCollection(v) && !isEmpty(v)) return [`${pad}${quoteString(key)}:`, ...lines(v, indent + 2)];
+      return [`${pad}${quoteString(key)}: ${scalar(v, indent + 2)}`];
+    });
+};
+
+export const toYaml = (value: unknown): string =>
+  `${isCollection(value) && !isEmpty(value) ? lines(value, 0).join('\n') : scalar(value, 0)}\n`;
@@ -3,6 +3,77 @@ export interface AppFeature {
   title: string;
   description: string;
   selected: boolean;
+  // Backlog detail; see services/featureSpecs.ts
+  spec?: FeatureSpec;
+  // Prioritization; see services/prioritization.ts
+  moscow?: MoscowCategory;
+  rice?: RiceInputs;
+  release?: ReleaseId;
+}
+
+// --- Feature Specs ---
+
+export type FeatureSize = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
+// "As a <role>, I want <goal> so that <benefit>"
+export interface UserStory {
+  role: string;
+  goal: string;
+  benefit: string;
+}
+
+// One Gherkin scenario; each list holds the step texts without their keyword
+export interface AcceptanceCriterion {
+  scenario: string;
+  given: string[];
+  when: string[];
+  then: string[];
+}
+
+export interface FeatureSpec {
+  stories: UserStory[];
+  criteria: AcceptanceCriterion[];
+  size: FeatureSize;
+}
+
+// --- Prioritization ---
+
+export type MoscowCategory = 'must' | 'should' | 'could' | 'wont';
+
+// Reach in users per quarter, impact from 0.25 (minimal) to 3 (massive),
+// confidence in percent and effort in person-months
+export interface RiceInputs {
+  reach: number;
+  impact: number;
+  confidence: number;
+  effort: number;
+}
+
+// Releases are cumulative: v1 ships on top of the MVP, v2 on top of v1
+export type ReleaseId = 'mvp' | 'v1' | 'v2';
+
+// --- Feature Chat ---
+
+export type FeatureChange =
+  | { op: 'add'; title: string; description: string }
+  | { op: 'edit'; featureId: string; title: string; description: string }
+  | { op: 'remove'; featureId: string };
+
+export interface FeatureProposal {
+  change: FeatureChange;
+  // Ticked for the next apply while pending
+  accepted: boolean;
+  status: 'pending' | 'applied' | 'dismissed';
+}
+
+export interface FeatureChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Changes suggested by an assistant reply
+  proposals?: FeatureProposal[];
+  // Fixes made to the suggested changes, such as ones dropped as unusable
+  repairs?: string[];
 }
 
 export type FeatureStyle = 'standard' | 'creative';
@@ -17,6 +88,8 @@ export interface GenerationConfig {
   workflowType: WorkflowType;
   summaryLength: SummaryLength;
   productScope: ProductScope;
+  // Which features the workflow is generated for
+  workflowRelease: ReleaseId | 'all';
 }
 
 export interface GraphData {
@@ -24,19 +97,38 @@ export interface GraphData {
   edges: any[];
   isGenerated: boolean;
   version: number;
+  // The features as they were when the workflow was last built from them;
+  // see services/featureDelta.ts
+  featureBasis?: FeatureBasis[];
 }
 
-export type AiProvider = 'gemini' | 'openai';
+export interface FeatureBasis {
+  id: string;
+  title: string;
+  description: string;
+}
+
+export type AiProvider = 'gemini' | 'openai' | 'openai-compatible' | 'azure-openai' | 'anthropic' | 'mock';
+
+// Connection details that only some providers need; see services/providers/registry.ts
+export interface ProviderOptions {
+  baseUrl?: string;
+  apiVersion?: string;
+}
 
 export interface AppState {
   step: 'setup' | 'ideation' | 'features' | 'workflow' | 'summary';
   apiKey: string;
   provider: AiProvider;
+  providerOptions: ProviderOptions;
   model: string;
   idea: string;
   features: AppFeature[];
+  featureChat: FeatureChatMessage[];
   graph: GraphData;
   config: GenerationConfig;
+  retryPolicy: RetryPolicy;
+  fixtureMode: FixtureMode;
 }
 
 export enum AppModel {
@@ -44,6 +136,9 @@ export enum AppModel {
   GEMINI_3_PRO = 'gemini-3-pro-preview',
   GPT_4O = 'gpt-4o',
   GPT_35_TURBO = 'gpt-3.5-turbo',
+  CLAUDE_SONNET = 'claude-sonnet-4-5',
+  CLAUDE_HAIKU = 'claude-haiku-4-5',
+  MOCK = 'mock-deterministic',
 }
 
 export type NodeType = 'view' | 'logic' | 'database' | 'userAction';
@@ -53,4 +148,178 @@ export interface WorkflowNodeData {
   details: string;
   type: NodeType;
   isNew?: boolean;
-}
\ No newline at end of file
+  // Set while a pending AI proposal would add, change or remove this node
+  pendingChange?: 'add' | 'update' | 'delete';
+  pendingRejected?: boolean;
+  // Tables stored by a database node; see services/dataModel.ts
+  entities?: DataEntity[];
+  // Features this node helps implement; see services/featureCoverage.ts
+  featureIds?: string[];
+  // Added by the editor for display only, like pendingChange
+  featureTags?: FeatureTag[];
+  highlight?: 'match' | 'dim';
+}
+
+export interface FeatureTag {
+  id: string;
+  title: string;
+  // Tailwind classes for the tag
+  color: string;
+}
+
+// --- Data Model ---
+
+export type DataFieldType = 'string' | 'text' | 'integer' | 'decimal' | 'boolean' | 'date' | 'datetime' | 'uuid' | 'json';
+
+export interface DataField {
+  name: string;
+  type: DataFieldType;
+  nullable: boolean;
+  primaryKey?: boolean;
+  unique?: boolean;
+  // Name of another entity; the field is a foreign key to its primary key.
+  // A unique foreign key is a one-to-one relation, otherwise many-to-one.
+  references?: string;
+}
+
+export interface DataEntity {
+  name: string;
+  fields: DataField[];
+}
+
+export type AppStep = AppState['step'];
+
+// Everything about a project that is worth keeping between sessions.
+// The API key is deliberately not part of it.
+export interface ProjectSnapshot {
+  step: AppStep;
+  provider: AiProvider;
+  model: string;
+  idea: string;
+  features: AppFeature[];
+  featureChat: FeatureChatMessage[];
+  graph: GraphData;
+  config: GenerationConfig;
+  generatedDescription: string;
+}
+
+export interface SavedProject {
+  id: string;
+  name?: string;
+  schemaVersion: number;
+  createdAt: number;
+  updatedAt: number;
+  snapshot: ProjectSnapshot;
+}
+
+
+// --- AI Workflow Proposals ---
+
+export type WorkflowOperationKind =
+  | 'addNode'
+  | 'updateNode'
+  | 'deleteNode'
+  | 'addEdge'
+  | 'updateEdge'
+  | 'deleteEdge';
+
+// One change requested by the model. Which optional fields matter depends on `op`.
+export interface WorkflowOperation {
+  op: WorkflowOperationKind;
+  id: string;
+  type?: NodeType;
+  label?: string;
+  details?: string;
+  x?: number;
+  y?: number;
+  source?: string;
+  target?: string;
+  // Replaces the features a node implements
+  featureIds?: string[];
+  reason?: string;
+}
+
+export interface ProposedOperation {
+  operation: WorkflowOperation;
+  accepted: boolean;
+  // Set when the operation can never be applied (e.g. it targets an unknown node)
+  issue?: string;
+}
+
+export interface WorkflowProposal {
+  request: string;
+  operations: ProposedOperation[];
+  // Fixes made to malformed model output before review
+  repairs: string[];
+}
+
+
+// --- API Design ---
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+export type ApiFieldType = 'string' | 'integer' | 'number' | 'boolean' | 'object';
+
+export interface ApiField {
+  name: string;
+  type: ApiFieldType;
+  // e.g. 'date-time', 'email', 'uuid'
+  format?: string;
+  // Name of an ApiEntity; the field holds that entity
+  ref?: string;
+  list?: boolean;
+  required: boolean;
+  description?: string;
+}
+
+// The record stored by one database node
+export interface ApiEntity {
+  nodeId: string;
+  name: string;
+  description?: string;
+  fields: ApiField[];
+}
+
+// The endpoint behind one logic node
+export interface ApiOperation {
+  nodeId: string;
+  method: HttpMethod;
+  path: string;
+  summary: string;
+  description?: string;
+  request: ApiField[];
+  response: ApiField[];
+}
+
+export interface ApiDesign {
+  entities: ApiEntity[];
+  operations: ApiOperation[];
+}
+
+
+// --- AI Requests ---
+
+export interface RetryPolicy {
+  // Total attempts per request, including the first one
+  maxAttempts: number;
+  // First backoff delay for rate limits and server errors; doubles per attempt
+  baseDelayMs: number;
+}
+
+export interface AiRequestOptions {
+  signal?: AbortSignal;
+  onAttempt?: (attempt: number, maxAttempts: number) => void;
+}
+
+export type AiTask = 'features' | 'workflow' | 'extendWorkflow' | 'description' | 'apiDesign' | 'dataModel' | 'featureSpecs' | 'featureChat' | 'expandFeatures' | 'priorities' | 'updateWorkflow';
+
+// 'record' captures live provider responses; 'replay' answers from a fixture file
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface AiFixture {
+  task: AiTask;
+  // Hash of the task inputs; see fixtureKey in services/providers/fixtures.ts
+  key: string;
+  response: string;
+  // Streamed responses keep their original chunking
+  chunks?: string[];
+}